@@ -1,14 +1,84 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
 import StockInputForm from './components/StockInputForm';
 import StockList from './components/StockList';
 import InvestmentResults from './components/InvestmentResults';
-import { Stock, InvestmentResult } from './types';
-import { getGeminiResponse, getStockIdeas, analyzeMarketData, getPortfolioAdvice } from './services/geminiService';
+import AllocationIssues from './components/AllocationIssues';
+import CorrelationMatrixEditor from './components/CorrelationMatrixEditor';
+import ProjectionPanel from './components/ProjectionPanel';
+import BrokerProfileSelector from './components/BrokerProfileSelector';
+import PortfolioSwitcher from './components/PortfolioSwitcher';
+import CsvImportPanel from './components/CsvImportPanel';
+import HistoricalPricePanel from './components/HistoricalPricePanel';
+import BacktestPanel from './components/BacktestPanel';
+import CurrencyPanel from './components/CurrencyPanel';
+import StockIdeasList from './components/StockIdeasList';
+import ChatPanel from './components/ChatPanel';
+import AiErrorNotice from './components/AiErrorNotice';
+import UsagePanel from './components/UsagePanel';
+import MarkdownView from './components/MarkdownView';
+import FactCheckNotice from './components/FactCheckNotice';
+import {
+  Stock,
+  InvestmentResult,
+  AllocationStrategyId,
+  AllocationPlan,
+  ShareMode,
+  AllocationIssue,
+  CorrelationMatrix,
+  MeanVarianceSettings,
+  BrokerProfile,
+  PortfolioSnapshot,
+  StockCandidate,
+  ChatMessage,
+  ProposedAction,
+  AiError,
+  PriceSeries,
+  FxRates,
+  RoundingPolicy,
+} from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { allocatePortfolio, DEFAULT_MEAN_VARIANCE_SETTINGS } from './services/allocationService';
+import {
+  getBrokerProfile,
+  calculateOrderFee,
+  roundToShareIncrement,
+  DEFAULT_CUSTOM_BROKER_PROFILE,
+} from './services/brokerProfiles';
+import {
+  getDefaultPortfolioStorage,
+  createPortfolio,
+  toPortfolioSnapshot,
+  PortfolioLibrary,
+} from './services/portfolioStorage';
+import { createShareUrl, decodeShareToken, getShareTokenFromHash } from './services/shareLinks';
+import { DEFAULT_BASE_CURRENCY, DEFAULT_FX_RATES, convertStocksToBase, formatMoney } from './services/currency';
+import { DEFAULT_ROUNDING_POLICY, roundMoney, roundShares, subtractMoney, sumMoney } from './services/money';
+import { buildPortfolioContext } from './services/chatContext';
+import { parseAssistantAction, describeAssistantAction } from './services/assistantTools';
+import {
+  getChatResponse,
+  getStockIdeas,
+  analyzeMarketData,
+  getPortfolioAdvice,
+  isAbortError,
+  toAiError,
+  GeminiStreamOptions,
+} from './services/geminiService';
+import { llmUsageTracker } from './services/llmUsage';
+import { factCheckResponse, toFactCheckAnnotations } from './services/factCheck';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
 
 // Register Chart.js components
 ChartJS.register(ArcElement, Tooltip, Legend);
 
+const portfolioStorage = getDefaultPortfolioStorage();
+
+// Debounce for writing portfolio changes to storage (ms)
+const SAVE_DELAY = 500;
+
+// Appended to a streamed answer that was stopped before it finished
+const TRUNCATED_MARKER = '\n\n_[Response stopped before completion — this answer is truncated.]_';
+
 const App: React.FC = () => {
   const [budget, setBudget] = useState<number>(10000);
   const [stocks, setStocks] = useState<Stock[]>([]);
@@ -16,14 +86,212 @@ const App: React.FC = () => {
   const [totalInvestedAmount, setTotalInvestedAmount] = useState<number>(0);
   const [totalActualReturn, setTotalActualReturn] = useState<number>(0);
   const [isCalculating, setIsCalculating] = useState<boolean>(false);
-
-  const [geminiPrompt, setGeminiPrompt] = useState<string>('');
+  const [strategyId, setStrategyId] = useState<AllocationStrategyId>('greedy');
+  const [shareMode, setShareMode] = useState<ShareMode>('fractional');
+  const [rounding, setRounding] = useState<RoundingPolicy>(DEFAULT_ROUNDING_POLICY);
+  const [correlations, setCorrelations] = useState<CorrelationMatrix>({});
+  // Imported closing prices; kept for the session only, not saved with the portfolio
+  const [priceHistory, setPriceHistory] = useState<PriceSeries[]>([]);
+  const [meanVariance, setMeanVariance] = useState<MeanVarianceSettings>(DEFAULT_MEAN_VARIANCE_SETTINGS);
+  // Strategy and share mode of the plan currently shown, which may differ from the selector until recalculated
+  const [planMode, setPlanMode] = useState<Pick<AllocationPlan, 'strategyId' | 'shareMode'> | null>(null);
+  const [allocationIssues, setAllocationIssues] = useState<AllocationIssue[]>([]);
+  const [brokerProfileId, setBrokerProfileId] = useState<string>('none');
+  const [customBrokerProfile, setCustomBrokerProfile] = useState<BrokerProfile>(DEFAULT_CUSTOM_BROKER_PROFILE);
+  const broker = useMemo(() => getBrokerProfile(brokerProfileId, customBrokerProfile), [brokerProfileId, customBrokerProfile]);
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULT_BASE_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRates>(DEFAULT_FX_RATES);
+  const currencySettings = useMemo(() => ({ baseCurrency, fxRates }), [baseCurrency, fxRates]);
+
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isChatResponding, setIsChatResponding] = useState<boolean>(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
   const [geminiResponse, setGeminiResponse] = useState<string>('');
-  const [isQueryingGemini, setIsQueryingGemini] = useState<boolean>(false);
+  const [aiError, setAiError] = useState<AiError | null>(null);
+  const aiUsage = useSyncExternalStore(llmUsageTracker.subscribe, llmUsageTracker.getSnapshot);
   const [isGeneratingIdeas, setIsGeneratingIdeas] = useState<boolean>(false);
+  const [stockIdeas, setStockIdeas] = useState<StockCandidate[]>([]);
+  const [stockIdeaIssues, setStockIdeaIssues] = useState<string[]>([]);
+  // Aborts the AI response currently streaming into the response region
+  const responseAbortRef = useRef<AbortController | null>(null);
   const [isAnalyzingMarket, setIsAnalyzingMarket] = useState<boolean>(false);
   const [isGettingPortfolioAdvice, setIsGettingPortfolioAdvice] = useState<boolean>(false);
 
+  const [portfolioLibrary, setPortfolioLibrary] = useState<PortfolioLibrary>({ portfolios: [], activePortfolioId: null });
+  const [isStorageReady, setIsStorageReady] = useState<boolean>(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Saving stays off after a failed load so unreadable saved data is never overwritten
+  const canSaveRef = useRef<boolean>(true);
+  // Set when a stock is removed, so the plan is recalculated from the updated stock list
+  const recalculateAfterRemovalRef = useRef<boolean>(false);
+
+  const snapshot = useMemo<PortfolioSnapshot>(() => ({
+    budget,
+    stocks,
+    investmentResults,
+    strategyId,
+    shareMode,
+    correlations,
+    meanVariance,
+    brokerProfileId,
+    customBrokerProfile,
+    planMode,
+    rounding,
+    baseCurrency,
+    fxRates,
+    aiResponse: geminiResponse,
+  }), [budget, stocks, investmentResults, strategyId, shareMode, correlations, meanVariance, brokerProfileId, customBrokerProfile, planMode, rounding, baseCurrency, fxRates, geminiResponse]);
+
+  const applySnapshot = useCallback((nextSnapshot: PortfolioSnapshot) => {
+    setBudget(nextSnapshot.budget);
+    setStocks(nextSnapshot.stocks);
+    setInvestmentResults(nextSnapshot.investmentResults);
+    setTotalInvestedAmount(sumMoney(nextSnapshot.investmentResults.map(result => result.investedAmount), nextSnapshot.baseCurrency));
+    setTotalActualReturn(sumMoney(nextSnapshot.investmentResults.map(result => result.actualReturn), nextSnapshot.baseCurrency));
+    setStrategyId(nextSnapshot.strategyId);
+    setShareMode(nextSnapshot.shareMode);
+    setCorrelations(nextSnapshot.correlations);
+    setMeanVariance(nextSnapshot.meanVariance);
+    setBrokerProfileId(nextSnapshot.brokerProfileId);
+    setCustomBrokerProfile(nextSnapshot.customBrokerProfile);
+    setPlanMode(nextSnapshot.planMode);
+    setRounding(nextSnapshot.rounding);
+    setBaseCurrency(nextSnapshot.baseCurrency);
+    setFxRates(nextSnapshot.fxRates);
+    setAllocationIssues([]);
+    setGeminiResponse(nextSnapshot.aiResponse);
+  }, []);
+
+  // Load saved portfolios once on startup, creating a first portfolio when there are none.
+  // A share link in the URL opens as a new portfolio alongside the saved ones.
+  useEffect(() => {
+    let isCancelled = false;
+    const shareToken = getShareTokenFromHash(window.location.hash);
+    const sharedSnapshot = shareToken
+      ? decodeShareToken(shareToken).catch(error => {
+        alert(error instanceof Error ? error.message : 'This share link could not be opened.');
+        return null;
+      })
+      : Promise.resolve(null);
+
+    Promise.all([portfolioStorage.load(), sharedSnapshot])
+      .then(([library, shared]) => {
+        if (isCancelled) return;
+        if (shareToken) {
+          // Drop the token so reloading doesn't import the same scenario again
+          window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+        }
+        const activePortfolio = library.portfolios.find(portfolio => portfolio.id === library.activePortfolioId);
+        if (shared) {
+          const sharedPortfolio = createPortfolio('Shared Portfolio', shared);
+          setPortfolioLibrary({ portfolios: [...library.portfolios, sharedPortfolio], activePortfolioId: sharedPortfolio.id });
+          applySnapshot(sharedPortfolio);
+        } else if (activePortfolio) {
+          setPortfolioLibrary(library);
+          applySnapshot(activePortfolio);
+        } else {
+          const firstPortfolio = createPortfolio('My Portfolio');
+          setPortfolioLibrary({ portfolios: [firstPortfolio], activePortfolioId: firstPortfolio.id });
+        }
+      })
+      .catch(error => {
+        if (isCancelled) return;
+        console.error('Error loading saved portfolios:', error);
+        canSaveRef.current = false;
+        setStorageError(`${error instanceof Error ? error.message : 'Saved portfolios could not be loaded.'} Changes in this session will not be saved.`);
+        const firstPortfolio = createPortfolio('Unsaved Portfolio');
+        setPortfolioLibrary({ portfolios: [firstPortfolio], activePortfolioId: firstPortfolio.id });
+      })
+      .finally(() => {
+        if (!isCancelled) setIsStorageReady(true);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [applySnapshot]);
+
+  // Keep the active portfolio in sync with the working state
+  useEffect(() => {
+    if (!isStorageReady) return;
+    setPortfolioLibrary(prevLibrary => {
+      const activePortfolio = prevLibrary.portfolios.find(portfolio => portfolio.id === prevLibrary.activePortfolioId);
+      if (!activePortfolio || JSON.stringify(toPortfolioSnapshot(activePortfolio)) === JSON.stringify(snapshot)) {
+        return prevLibrary;
+      }
+      return {
+        ...prevLibrary,
+        portfolios: prevLibrary.portfolios.map(portfolio => portfolio.id === activePortfolio.id
+          ? { ...portfolio, ...snapshot, updatedAt: new Date().toISOString() }
+          : portfolio),
+      };
+    });
+  }, [snapshot, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady || !canSaveRef.current) return;
+    const timeoutId = setTimeout(() => {
+      portfolioStorage.save(portfolioLibrary).catch(error => {
+        setStorageError(error instanceof Error ? error.message : 'Could not save portfolios.');
+      });
+    }, SAVE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [portfolioLibrary, isStorageReady]);
+
+  const handleOpenPortfolio = useCallback((id: string) => {
+    const portfolio = portfolioLibrary.portfolios.find(p => p.id === id);
+    if (!portfolio) return;
+    setPortfolioLibrary(prevLibrary => ({ ...prevLibrary, activePortfolioId: id }));
+    applySnapshot(portfolio);
+  }, [portfolioLibrary, applySnapshot]);
+
+  const handleCreatePortfolio = useCallback((name: string) => {
+    const portfolio = createPortfolio(name);
+    setPortfolioLibrary(prevLibrary => ({ portfolios: [...prevLibrary.portfolios, portfolio], activePortfolioId: portfolio.id }));
+    applySnapshot(portfolio);
+  }, [applySnapshot]);
+
+  const handleDuplicatePortfolio = useCallback((name: string) => {
+    const portfolio = createPortfolio(name, snapshot);
+    setPortfolioLibrary(prevLibrary => ({ portfolios: [...prevLibrary.portfolios, portfolio], activePortfolioId: portfolio.id }));
+  }, [snapshot]);
+
+  const handleRenamePortfolio = useCallback((name: string) => {
+    setPortfolioLibrary(prevLibrary => ({
+      ...prevLibrary,
+      portfolios: prevLibrary.portfolios.map(portfolio => portfolio.id === prevLibrary.activePortfolioId
+        ? { ...portfolio, name, updatedAt: new Date().toISOString() }
+        : portfolio),
+    }));
+  }, []);
+
+  const handleCopyShareLink = useCallback(async () => {
+    let url: string;
+    try {
+      url = await createShareUrl(snapshot);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('The share link could not be created. Please try again.');
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Clipboard access can be denied; let the user copy the link by hand instead
+      window.prompt('Copy this share link:', url);
+    }
+  }, [snapshot]);
+
+  const handleDeletePortfolio = useCallback(() => {
+    const remaining = portfolioLibrary.portfolios.filter(portfolio => portfolio.id !== portfolioLibrary.activePortfolioId);
+    // Always keep one portfolio to work in
+    const nextPortfolio = remaining[0] ?? createPortfolio('My Portfolio');
+    setPortfolioLibrary({
+      portfolios: remaining.length > 0 ? remaining : [nextPortfolio],
+      activePortfolioId: nextPortfolio.id,
+    });
+    applySnapshot(nextPortfolio);
+  }, [portfolioLibrary, applySnapshot]);
+
   const handleCalculateInvestment = useCallback(() => {
     if (budget <= 0 || stocks.length === 0) {
       // Ensure all stocks are represented even if no budget or no calculation is made
@@ -41,172 +309,346 @@ const App: React.FC = () => {
     }
 
     setIsCalculating(true);
-    let currentBudget = budget;
-    let currentTotalReturn = 0;
-    let currentTotalInvestedAmount = 0;
-    const resultsMap = new Map<string, InvestmentResult>();
-
-    // Initialize all stocks in resultsMap with 0 investment to ensure they are present
-    stocks.forEach(stock => {
-      resultsMap.set(stock.id, {
-        stockId: stock.id,
-        stockName: stock.name,
-        fraction: 0,
-        investedAmount: 0,
-        actualReturn: 0,
-      });
-    });
-
-    // Sort stocks by return-to-price ratio in descending order
-    const sortedStocks = [...stocks].sort((a, b) =>
-      (b.expectedReturn / b.price) - (a.expectedReturn / a.price)
-    );
-
-    for (const stock of sortedStocks) {
-      if (currentBudget <= 0) break;
-
-      let fraction = 0;
-      let investedAmount = 0;
-      let actualReturn = 0;
-
-      // Check if we can buy full share(s) or only a fraction
-      if (currentBudget >= stock.price) {
-        // Buy as many full shares as possible
-        const numShares = Math.floor(currentBudget / stock.price);
-        investedAmount = numShares * stock.price;
-        fraction = numShares; // For simplicity, fraction represents number of shares in this context
-        actualReturn = (numShares * stock.price) * (stock.expectedReturn / 100);
-      } else {
-        // Buy a fraction of the stock
-        investedAmount = currentBudget;
-        fraction = currentBudget / stock.price;
-        actualReturn = currentBudget * (stock.expectedReturn / 100);
-      }
-
-      const existingResult = resultsMap.get(stock.id);
-      if (existingResult) {
-        existingResult.fraction = fraction;
-        existingResult.investedAmount = investedAmount;
-        existingResult.actualReturn = actualReturn;
-      }
-
-      currentBudget -= investedAmount;
-      currentTotalReturn += actualReturn;
-      currentTotalInvestedAmount += investedAmount;
-    }
-
-    const finalResults = Array.from(resultsMap.values());
-    setInvestmentResults(finalResults);
-    setTotalInvestedAmount(currentTotalInvestedAmount);
-    setTotalActualReturn(currentTotalReturn);
+    const plan = allocatePortfolio(strategyId, { budget, stocks, shareMode, correlations, meanVariance, broker, currency: currencySettings, rounding });
+    setInvestmentResults(plan.results);
+    setTotalInvestedAmount(plan.totalInvestedAmount);
+    setTotalActualReturn(plan.totalActualReturn);
+    setPlanMode({ strategyId: plan.strategyId, shareMode: plan.shareMode });
+    setAllocationIssues(plan.issues);
     setIsCalculating(false);
-  }, [budget, stocks]);
+  }, [budget, stocks, strategyId, shareMode, correlations, meanVariance, broker, currencySettings, rounding]);
+
+  const handleAllocateContribution = useCallback((amount: number): InvestmentResult[] => {
+    // Locks and dollar caps describe the initial plan, so contributions only honour weight limits
+    const contributionStocks = stocks.map(({ lockedAmount: _locked, maxAmount: _maxAmount, ...stock }) => stock);
+    const plan = allocatePortfolio(strategyId, {
+      budget: amount,
+      stocks: contributionStocks,
+      shareMode,
+      correlations,
+      meanVariance,
+      broker,
+      currency: currencySettings,
+      rounding,
+    });
+    return plan.issues.some(issue => issue.severity === 'error') ? [] : plan.results;
+  }, [stocks, strategyId, shareMode, correlations, meanVariance, broker, currencySettings, rounding]);
 
   const handleRemoveStock = useCallback((id: string) => {
     setStocks((prevStocks) => prevStocks.filter((stock) => stock.id !== id));
     // Also remove from investment results if present
     setInvestmentResults((prevResults) => prevResults.filter((result) => result.stockId !== id));
+    // Recalculate to update totals, once the stock list without this stock has rendered
+    recalculateAfterRemovalRef.current = true;
+  }, []);
+
+  // Runs after a removal re-renders, so handleCalculateInvestment sees the filtered stock list
+  useEffect(() => {
+    if (!recalculateAfterRemovalRef.current) return;
+    recalculateAfterRemovalRef.current = false;
+    handleCalculateInvestment();
+  }, [stocks, handleCalculateInvestment]);
+
+  const handleImportStocks = useCallback((importedStocks: Stock[]) => {
+    setStocks((prevStocks) => [...prevStocks, ...importedStocks]);
+  }, []);
+
+  const handleUpdateStock = useCallback((id: string, changes: Partial<Stock>) => {
+    setStocks((prevStocks) => prevStocks.map((stock) => stock.id === id ? { ...stock, ...changes } : stock));
+  }, []);
+
+  const handleBaseCurrencyChange = useCallback((nextCurrency: string) => {
+    // Stocks priced in the old base currency keep it; those priced in the new one no longer need to name it
+    setStocks((prevStocks) => prevStocks.map(({ currency, ...stock }) => {
+      const stockCurrency = currency ?? baseCurrency;
+      return stockCurrency === nextCurrency ? stock : { ...stock, currency: stockCurrency };
+    }));
+    setBaseCurrency(nextCurrency);
+    // The current plan's amounts are in the old currency
+    setInvestmentResults([]);
+    setTotalInvestedAmount(0);
+    setTotalActualReturn(0);
+    setPlanMode(null);
+    setAllocationIssues([]);
+  }, [baseCurrency]);
+
+  const handleCorrelationChange = useCallback((idA: string, idB: string, value: number | undefined) => {
+    setCorrelations((prevCorrelations) => {
+      // Store each pair once, under the (idA, idB) direction
+      const { [idA]: _reverse, ...restOfB } = prevCorrelations[idB] ?? {};
+      const { [idB]: _previous, ...restOfA } = prevCorrelations[idA] ?? {};
+      return {
+        ...prevCorrelations,
+        [idB]: restOfB,
+        [idA]: value === undefined ? restOfA : { ...restOfA, [idB]: value },
+      };
+    });
+  }, []);
 
-    // Recalculate if results are already displayed or to update totals
-    // A small delay to ensure state updates propagate before recalculation
-    setTimeout(() => {
-      handleCalculateInvestment();
-    }, 0);
-  }, [handleCalculateInvestment]);
+  const handleToggleLock = useCallback((id: string) => {
+    // Locking captures the amount currently invested in the stock (zero if it has no allocation yet)
+    const currentAmount = investmentResults.find(result => result.stockId === id)?.investedAmount ?? 0;
+    setStocks((prevStocks) => prevStocks.map((stock) => {
+      if (stock.id !== id) return stock;
+      return { ...stock, lockedAmount: stock.lockedAmount === undefined ? currentAmount : undefined };
+    }));
+  }, [investmentResults]);
 
-  const handleAdjustInvestment = useCallback((stockId: string, newAmountString: string) => {
-    const newAmount = parseFloat(newAmountString);
+  const handleAdjustInvestment = useCallback((stockId: string, newAmountString: string): boolean => {
+    let newAmount = parseFloat(newAmountString);
 
     if (isNaN(newAmount) || newAmount < 0) {
       alert("Please enter a valid non-negative number for the invested amount.");
-      return;
+      return false;
     }
 
     // Find the stock being adjusted
-    const stockToAdjust = stocks.find(s => s.id === stockId);
-    if (!stockToAdjust) {
+    const stock = stocks.find(s => s.id === stockId);
+    if (!stock) {
       console.error("Stock not found for adjustment:", stockId);
       alert("Error: Stock details not found for this adjustment.");
-      return;
+      return false;
     }
+    // Amounts are in the base currency, so work with the stock's price in it
+    const { stocks: [stockToAdjust], issues: currencyIssues } = convertStocksToBase([stock], currencySettings);
+    if (currencyIssues.length > 0) {
+      alert(currencyIssues[0].message);
+      return false;
+    }
+    const money = (value: number) => formatMoney(value, baseCurrency);
+
+    // Settle the shares first under the share rounding mode: a whole-share plan stays whole, and
+    // orders respect the broker's share increment. The amount then follows from the shares.
+    const shares = roundToShareIncrement(
+      broker,
+      roundShares(newAmount / stockToAdjust.price, planMode?.shareMode === 'whole' ? 1 : 0, rounding.shares),
+      rounding.shares,
+    );
+    newAmount = roundMoney(shares * stockToAdjust.price, baseCurrency, rounding.cash);
+    if (newAmount > 0 && newAmount < broker.minOrderAmount) {
+      alert(`${broker.name} requires orders of at least ${money(broker.minOrderAmount)}.`);
+      return false;
+    }
+    const newFee = roundMoney(calculateOrderFee(broker, newAmount), baseCurrency, rounding.cash);
 
-    // Calculate new total invested and check budget
-    const currentInvestmentResult = investmentResults.find(r => r.stockId === stockId);
-    const currentInvestmentAmount = currentInvestmentResult?.investedAmount || 0;
-    const amountDifference = newAmount - currentInvestmentAmount;
-    const newTotalInvested = totalInvestedAmount + amountDifference;
+    // Calculate new totals and check the budget, including broker fees, in exact money arithmetic
+    const otherResults = investmentResults.filter(r => r.stockId !== stockId);
+    const newTotalInvested = sumMoney([...otherResults.map(r => r.investedAmount), newAmount], baseCurrency);
+    const newTotalFees = sumMoney([...otherResults.map(r => r.fee ?? 0), newFee], baseCurrency);
 
-    if (newTotalInvested > budget) {
-      alert(`Cannot invest $${newAmount.toFixed(2)}. This would exceed your total budget of $${budget.toFixed(2)} (Current total: $${totalInvestedAmount.toFixed(2)}).`);
-      return;
+    if (subtractMoney(roundMoney(budget, baseCurrency, 'down'), [newTotalInvested, newTotalFees], baseCurrency) < 0) {
+      alert(`Cannot invest ${money(newAmount)}. This would exceed your total budget of ${money(budget)} (Current total: ${money(totalInvestedAmount)}, fees: ${money(newTotalFees)}).`);
+      return false;
     }
 
     // Update investment results
     setInvestmentResults(prevResults => {
       const updatedResults = prevResults.map(result => {
         if (result.stockId === stockId) {
-          const fraction = newAmount / stockToAdjust.price;
-          const actualReturn = newAmount * (stockToAdjust.expectedReturn / 100);
+          const actualReturn = roundMoney(newAmount * (stockToAdjust.expectedReturn / 100), baseCurrency, rounding.cash);
           return {
             ...result,
-            fraction: fraction,
+            fraction: shares,
             investedAmount: newAmount,
             actualReturn: actualReturn,
+            fee: newFee,
           };
         }
         return result;
       });
 
       // Recalculate totals
-      const calculatedTotalInvested = updatedResults.reduce((sum, res) => sum + res.investedAmount, 0);
-      const calculatedTotalReturn = updatedResults.reduce((sum, res) => sum + res.actualReturn, 0);
+      const calculatedTotalInvested = sumMoney(updatedResults.map(res => res.investedAmount), baseCurrency);
+      const calculatedTotalReturn = sumMoney(updatedResults.map(res => res.actualReturn), baseCurrency);
 
       setTotalInvestedAmount(calculatedTotalInvested);
       setTotalActualReturn(calculatedTotalReturn);
 
       return updatedResults;
     });
-  }, [budget, stocks, investmentResults, totalInvestedAmount]);
+    return true;
+  }, [budget, stocks, investmentResults, totalInvestedAmount, planMode, broker, currencySettings, baseCurrency, rounding]);
+
+
+  /**
+   * Streams an AI answer into the response region, under an optional heading.
+   * Stopping keeps the partial answer and marks it as truncated.
+   */
+  const streamResponse = useCallback(async (
+    heading: string,
+    request: (options: GeminiStreamOptions) => Promise<string>,
+    fallbackErrorMessage: string,
+  ) => {
+    responseAbortRef.current?.abort();
+    const controller = new AbortController();
+    responseAbortRef.current = controller;
+    // A newer request replaces this one; its late updates must not overwrite the newer answer
+    const isCurrent = () => responseAbortRef.current === controller;
+    let partial = '';
+    setGeminiResponse(''); // Clear previous response
+    setAiError(null);
+    try {
+      const response = await request({
+        signal: controller.signal,
+        onChunk: (textSoFar) => {
+          partial = textSoFar;
+          if (isCurrent()) setGeminiResponse(`${heading}${textSoFar}`);
+        },
+      });
+      if (isCurrent()) setGeminiResponse(`${heading}${response}`);
+    } catch (error) {
+      if (!isCurrent()) return;
+      if (isAbortError(error)) {
+        setGeminiResponse(`${heading}${partial}${TRUNCATED_MARKER}`);
+        return;
+      }
+      console.error("Error during Gemini request:", error);
+      // Keep whatever arrived before the failure; the error is shown below it
+      setGeminiResponse(partial ? `${heading}${partial}${TRUNCATED_MARKER}` : '');
+      setAiError(toAiError(error, fallbackErrorMessage));
+    } finally {
+      if (responseAbortRef.current === controller) {
+        responseAbortRef.current = null;
+      }
+    }
+  }, []);
 
+  const isStreamingResponse = isAnalyzingMarket || isGettingPortfolioAdvice;
 
-  const handleGeminiQuery = useCallback(async () => {
-    if (geminiPrompt.trim() === '') {
-      alert('Please enter a question for Gemini.');
-      return;
-    }
+  // Checked once the response is complete, against the plan as it is now
+  const factCheck = useMemo(
+    () => isStreamingResponse || !geminiResponse ? null : factCheckResponse(geminiResponse, { budget, stocks, investmentResults, totalInvestedAmount, baseCurrency }),
+    [isStreamingResponse, geminiResponse, budget, stocks, investmentResults, totalInvestedAmount, baseCurrency]
+  );
+  const factCheckAnnotations = useMemo(() => factCheck ? toFactCheckAnnotations(factCheck.findings) : undefined, [factCheck]);
 
-    setIsQueryingGemini(true);
-    setGeminiResponse(''); // Clear previous response
+  const handleStopResponse = useCallback(() => {
+    responseAbortRef.current?.abort();
+  }, []);
+
+  const handleSendChatMessage = useCallback(async (text: string) => {
+    const userMessage: ChatMessage = { id: uuidv4(), role: 'user', text };
+    const replyId = uuidv4();
+    const history = [...chatMessages, userMessage];
+    const updateReply = (changes: Partial<ChatMessage>) => setChatMessages((prevMessages) =>
+      prevMessages.map((message) => message.id === replyId ? { ...message, ...changes } : message));
+
+    setChatMessages([...history, { id: replyId, role: 'model', text: '' }]);
+    setIsChatResponding(true);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    const proposedActions: ProposedAction[] = [];
+    const actionIssues: string[] = [];
     try {
-      const response = await getGeminiResponse(geminiPrompt);
-      setGeminiResponse(response);
+      // The portfolio context is rebuilt on every turn so follow-ups see the latest numbers
+      const reply = await getChatResponse(history, buildPortfolioContext(budget, stocks, investmentResults, baseCurrency), {
+        signal: controller.signal,
+        onChunk: (textSoFar) => updateReply({ text: textSoFar }),
+        onFunctionCall: (call) => {
+          // Proposals are only validated here; they are applied once the user confirms them
+          const action = parseAssistantAction(call, stocks, investmentResults);
+          if (typeof action === 'string') {
+            actionIssues.push(action);
+          } else {
+            proposedActions.push({ id: uuidv4(), action, description: describeAssistantAction(action, baseCurrency), status: 'pending' });
+          }
+        },
+      });
+      updateReply({
+        text: reply,
+        ...(proposedActions.length > 0 ? { proposedActions } : {}),
+        ...(actionIssues.length > 0 ? { actionIssues } : {}),
+      });
     } catch (error) {
-      console.error("Error during Gemini query:", error);
-      if (error instanceof Error) {
-        setGeminiResponse(error.message);
+      if (isAbortError(error)) {
+        updateReply({ truncated: true });
       } else {
-        setGeminiResponse("An error occurred while fetching the response. Please try again.");
+        console.error("Error during Gemini chat:", error);
+        updateReply({ error: toAiError(error, "An error occurred while fetching the response. Please try again.") });
       }
     } finally {
-      setIsQueryingGemini(false);
+      chatAbortRef.current = null;
+      setIsChatResponding(false);
+    }
+  }, [chatMessages, budget, stocks, investmentResults, baseCurrency]);
+
+  const handleStopChat = useCallback(() => {
+    chatAbortRef.current?.abort();
+  }, []);
+
+  const handleClearChat = useCallback(() => {
+    setChatMessages([]);
+  }, []);
+
+  const setProposalStatus = useCallback((messageId: string, proposalId: string, status: ProposedAction['status']) => {
+    setChatMessages((prevMessages) => prevMessages.map((message) => message.id !== messageId ? message : {
+      ...message,
+      proposedActions: message.proposedActions?.map((proposal) => proposal.id === proposalId ? { ...proposal, status } : proposal),
+    }));
+  }, []);
+
+  const handleApplyProposal = useCallback((messageId: string, proposal: ProposedAction) => {
+    const { action } = proposal;
+    // The plan may have changed since the proposal was made, so stock references are checked again
+    if ((action.type === 'remove_stock' || action.type === 'adjust_investment') && !stocks.some(stock => stock.id === action.stockId)) {
+      alert(`${action.stockName} is no longer in your stock list.`);
+      return;
+    }
+
+    switch (action.type) {
+      case 'add_stock': {
+        const { type: _type, ...stock } = action;
+        setStocks((prevStocks) => [...prevStocks, { id: uuidv4(), ...stock }]);
+        break;
+      }
+      case 'remove_stock':
+        handleRemoveStock(action.stockId);
+        break;
+      case 'adjust_investment':
+        if (!handleAdjustInvestment(action.stockId, String(action.amount))) return;
+        break;
+      case 'set_budget':
+        setBudget(action.budget);
+        break;
+      case 'run_calculation':
+        handleCalculateInvestment();
+        break;
     }
-  }, [geminiPrompt]);
+    setProposalStatus(messageId, proposal.id, 'applied');
+  }, [stocks, handleRemoveStock, handleAdjustInvestment, handleCalculateInvestment, setProposalStatus]);
+
+  const handleDismissProposal = useCallback((messageId: string, proposal: ProposedAction) => {
+    setProposalStatus(messageId, proposal.id, 'dismissed');
+  }, [setProposalStatus]);
 
   const handleGenerateIdeas = useCallback(async (description: string) => {
     setIsGeneratingIdeas(true);
+    setStockIdeas([]);
+    setStockIdeaIssues([]);
+    setAiError(null);
     try {
-      const response = await getStockIdeas(description);
-      setGeminiResponse(`**Stock Ideas for "${description}":**\n${response}`);
+      const { candidates, issues } = await getStockIdeas(description, baseCurrency);
+      setStockIdeas(candidates);
+      setStockIdeaIssues(issues);
     } catch (error) {
       console.error("Error generating stock ideas:", error);
-      if (error instanceof Error) {
-        setGeminiResponse(error.message);
-      } else {
-        setGeminiResponse("An error occurred while generating stock ideas. Please try again.");
-      }
+      setAiError(toAiError(error, "An error occurred while generating stock ideas. Please try again."));
     } finally {
       setIsGeneratingIdeas(false);
     }
+  }, [baseCurrency]);
+
+  const handleAddIdeas = useCallback((ideas: StockCandidate[]) => {
+    setStocks((prevStocks) => [
+      ...prevStocks,
+      ...ideas.map(({ rationale: _rationale, ...idea }) => ({ id: uuidv4(), ...idea })),
+    ]);
+    setStockIdeas((prevIdeas) => prevIdeas.filter((idea) => !ideas.includes(idea)));
+  }, []);
+
+  const handleDismissIdeas = useCallback(() => {
+    setStockIdeas([]);
+    setStockIdeaIssues([]);
   }, []);
 
   const handleAnalyzeMarket = useCallback(async () => {
@@ -216,21 +658,13 @@ const App: React.FC = () => {
     }
 
     setIsAnalyzingMarket(true);
-    setGeminiResponse(''); // Clear previous response
     try {
-      const response = await analyzeMarketData(stocks);
-      setGeminiResponse(`**Market Analysis for your selected stocks:**\n${response}`);
-    } catch (error) {
-      console.error("Error analyzing market data:", error);
-      if (error instanceof Error) {
-        setGeminiResponse(error.message);
-      } else {
-        setGeminiResponse("An error occurred while analyzing market data. Please try again.");
-      }
+      await streamResponse('**Market Analysis for your selected stocks:**\n', (options) => analyzeMarketData(stocks, baseCurrency, options),
+        "An error occurred while analyzing market data. Please try again.");
     } finally {
       setIsAnalyzingMarket(false);
     }
-  }, [stocks]);
+  }, [stocks, baseCurrency, streamResponse]);
 
   const handleGetPortfolioAdvice = useCallback(async () => {
     if (stocks.length === 0 || investmentResults.length === 0) {
@@ -239,21 +673,13 @@ const App: React.FC = () => {
     }
 
     setIsGettingPortfolioAdvice(true);
-    setGeminiResponse(''); // Clear previous response
     try {
-      const response = await getPortfolioAdvice(budget, stocks, investmentResults);
-      setGeminiResponse(`**Portfolio Advice:**\n${response}`);
-    } catch (error) {
-      console.error("Error getting portfolio advice:", error);
-      if (error instanceof Error) {
-        setGeminiResponse(error.message);
-      } else {
-        setGeminiResponse("An error occurred while getting portfolio advice. Please try again.");
-      }
+      await streamResponse('**Portfolio Advice:**\n', (options) => getPortfolioAdvice(budget, stocks, investmentResults, baseCurrency, options),
+        "An error occurred while getting portfolio advice. Please try again.");
     } finally {
       setIsGettingPortfolioAdvice(false);
     }
-  }, [budget, stocks, investmentResults]);
+  }, [budget, stocks, investmentResults, baseCurrency, streamResponse]);
 
 
   return (
@@ -266,18 +692,89 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-4xl mx-auto space-y-8">
+        <PortfolioSwitcher
+          portfolios={portfolioLibrary.portfolios}
+          activePortfolioId={portfolioLibrary.activePortfolioId}
+          onOpen={handleOpenPortfolio}
+          onCreate={handleCreatePortfolio}
+          onDuplicate={handleDuplicatePortfolio}
+          onRename={handleRenamePortfolio}
+          onDelete={handleDeletePortfolio}
+          onCopyShareLink={handleCopyShareLink}
+          storageError={storageError}
+        />
+
         <StockInputForm
           budget={budget}
           setBudget={setBudget}
           stocks={stocks}
           setStocks={setStocks}
+          currency={currencySettings}
           onCalculate={handleCalculateInvestment}
+          strategyId={strategyId}
+          onStrategyChange={setStrategyId}
+          shareMode={shareMode}
+          onShareModeChange={setShareMode}
+          rounding={rounding}
+          onRoundingChange={setRounding}
+          meanVariance={meanVariance}
+          onMeanVarianceChange={setMeanVariance}
           onGenerateIdeas={handleGenerateIdeas}
           isCalculating={isCalculating}
           isGeneratingIdeas={isGeneratingIdeas}
         />
 
-        <StockList stocks={stocks} onRemoveStock={handleRemoveStock} />
+        <StockIdeasList
+          ideas={stockIdeas}
+          issues={stockIdeaIssues}
+          onAddIdeas={handleAddIdeas}
+          onDismiss={handleDismissIdeas}
+          currency={baseCurrency}
+        />
+
+        <CsvImportPanel onImport={handleImportStocks} />
+
+        <HistoricalPricePanel
+          stocks={stocks}
+          priceHistory={priceHistory}
+          onPriceHistoryChange={setPriceHistory}
+          onUpdateStock={handleUpdateStock}
+          onAddStocks={handleImportStocks}
+          onCorrelationChange={handleCorrelationChange}
+          baseCurrency={baseCurrency}
+        />
+
+        <CurrencyPanel
+          stocks={stocks}
+          baseCurrency={baseCurrency}
+          onBaseCurrencyChange={handleBaseCurrencyChange}
+          fxRates={fxRates}
+          onFxRatesChange={setFxRates}
+        />
+
+        <BrokerProfileSelector
+          brokerProfileId={brokerProfileId}
+          onBrokerProfileChange={setBrokerProfileId}
+          customProfile={customBrokerProfile}
+          onCustomProfileChange={setCustomBrokerProfile}
+          currency={baseCurrency}
+        />
+
+        <StockList
+          stocks={stocks}
+          currency={currencySettings}
+          onRemoveStock={handleRemoveStock}
+          onUpdateStock={handleUpdateStock}
+          onToggleLock={handleToggleLock}
+        />
+
+        <CorrelationMatrixEditor
+          stocks={stocks}
+          correlations={correlations}
+          onCorrelationChange={handleCorrelationChange}
+        />
+
+        <AllocationIssues issues={allocationIssues} />
 
         <InvestmentResults
           initialBudget={budget}
@@ -286,33 +783,43 @@ const App: React.FC = () => {
           totalActualReturn={totalActualReturn}
           onAdjustInvestment={handleAdjustInvestment}
           allStocks={stocks} // Pass all stocks for lookup in adjustment
+          planMode={planMode}
+          correlations={correlations}
+          broker={broker}
+          currency={currencySettings}
+        />
+
+        <ProjectionPanel
+          investmentResults={investmentResults}
+          stocks={stocks}
+          initialCash={Math.max(0, subtractMoney(budget, [totalInvestedAmount, ...investmentResults.map(result => result.fee ?? 0)], baseCurrency))}
+          allocateContribution={handleAllocateContribution}
+          currency={baseCurrency}
+        />
+
+        <BacktestPanel
+          budget={budget}
+          stocks={stocks}
+          priceHistory={priceHistory}
+          shareMode={shareMode}
+          correlations={correlations}
+          meanVariance={meanVariance}
+          broker={broker}
+          currency={currencySettings}
+          rounding={rounding}
         />
 
         <div className="bg-gray-800 p-6 rounded-lg shadow-xl">
           <h2 className="text-2xl font-semibold mb-4 text-center text-blue-300">AI Assistant <span className="text-blue-400 text-lg">(Powered by Gemini)</span></h2>
-          <div className="flex flex-col md:flex-row gap-4 mb-4">
-            <input
-              type="text"
-              value={geminiPrompt}
-              onChange={(e) => setGeminiPrompt(e.target.value)}
-              placeholder="Ask Gemini about stocks, market trends, or investment strategies..."
-              className="flex-grow p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out bg-gray-700 text-gray-100 placeholder-gray-400"
-              disabled={isQueryingGemini}
-              aria-label="Ask Gemini for general investment questions"
-            />
-            <button
-              onClick={handleGeminiQuery}
-              disabled={geminiPrompt.trim() === '' || isQueryingGemini}
-              className={`px-6 py-3 font-semibold rounded-md transition duration-150 ease-in-out
-                ${geminiPrompt.trim() === '' || isQueryingGemini
-                  ? 'bg-gray-700 cursor-not-allowed text-gray-400'
-                  : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
-                }`}
-              aria-label={isQueryingGemini ? 'Asking Gemini...' : 'Ask Gemini'}
-            >
-              {isQueryingGemini ? 'Asking...' : 'Ask Gemini'}
-            </button>
-          </div>
+          <ChatPanel
+            messages={chatMessages}
+            isResponding={isChatResponding}
+            onSend={handleSendChatMessage}
+            onStop={handleStopChat}
+            onClear={handleClearChat}
+            onApplyProposal={handleApplyProposal}
+            onDismissProposal={handleDismissProposal}
+          />
           <div className="flex flex-wrap justify-end mt-4 gap-2">
             <button
               onClick={handleAnalyzeMarket}
@@ -338,13 +845,29 @@ const App: React.FC = () => {
             >
               {isGettingPortfolioAdvice ? 'Getting Advice...' : 'Get Portfolio Advice (AI)'}
             </button>
+            {isStreamingResponse && (
+              <button
+                onClick={handleStopResponse}
+                className="px-4 py-2 text-sm font-semibold rounded-md transition duration-150 ease-in-out bg-red-600 text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                aria-label="Stop the AI response"
+              >
+                Stop
+              </button>
+            )}
           </div>
           {geminiResponse && (
-            <div className="mt-6 p-4 bg-blue-900/30 rounded-md border border-blue-700 text-gray-200" role="region" aria-live="polite">
+            <div className="mt-6 p-4 bg-blue-900/30 rounded-md border border-blue-700 text-gray-200" role="region" aria-live="polite" aria-busy={isStreamingResponse}>
               <h3 className="font-semibold text-blue-300 mb-2">Gemini's Response:</h3>
-              <p className="text-gray-200 whitespace-pre-wrap leading-relaxed">{geminiResponse}</p>
+              <MarkdownView markdown={geminiResponse} annotations={factCheckAnnotations} />
+              {factCheck && <FactCheckNotice result={factCheck} />}
+            </div>
+          )}
+          {aiError && (
+            <div className="mt-6">
+              <AiErrorNotice error={aiError} />
             </div>
           )}
+          <UsagePanel usage={aiUsage} onReset={llmUsageTracker.reset} />
         </div>
       </main>
 
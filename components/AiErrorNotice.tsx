@@ -0,0 +1,28 @@
+import React from 'react';
+import { AiError, AiErrorCategory } from '../types';
+
+interface AiErrorNoticeProps {
+  error: AiError;
+  compact?: boolean; // Smaller layout for use inside chat bubbles
+}
+
+const CATEGORY_DETAILS: Record<AiErrorCategory, { title: string; hint: string }> = {
+  quota: { title: 'Usage limit reached', hint: 'Wait a minute before sending more AI requests.' },
+  auth: { title: 'Authentication problem', hint: 'Check the Gemini API key configured on the server.' },
+  safety: { title: 'Blocked by safety filters', hint: 'Rephrase the request and try again.' },
+  network: { title: 'Connection problem', hint: 'The request was retried automatically. Check your connection and try again.' },
+  unknown: { title: 'AI request failed', hint: 'Please try again later.' },
+};
+
+const AiErrorNotice: React.FC<AiErrorNoticeProps> = React.memo(({ error, compact = false }) => {
+  const { title, hint } = CATEGORY_DETAILS[error.category];
+  return (
+    <div className={`${compact ? 'p-2 text-xs' : 'p-4 text-sm'} bg-red-900/30 rounded-md border border-red-700 text-gray-200 whitespace-normal`} role="alert">
+      <p className="font-semibold text-red-300">{title}</p>
+      <p className="mt-1">{error.message}</p>
+      <p className="mt-1 text-xs text-gray-400">{hint}</p>
+    </div>
+  );
+});
+
+export default AiErrorNotice;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { AllocationIssue } from '../types';
+
+interface AllocationIssuesProps {
+  issues: AllocationIssue[];
+}
+
+const AllocationIssues: React.FC<AllocationIssuesProps> = React.memo(({ issues }) => {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  return (
+    <div className="space-y-4" role="region" aria-live="polite" aria-label="Allocation constraint issues">
+      {errors.length > 0 && (
+        <div className="p-4 bg-red-900/30 rounded-md border border-red-700 text-gray-200">
+          <h3 className="font-semibold text-red-300 mb-2">The constraints cannot all be satisfied</h3>
+          <ul className="list-disc list-inside space-y-1 text-sm">
+            {errors.map((issue, index) => <li key={`error-${index}`}>{issue.message}</li>)}
+          </ul>
+          <p className="mt-2 text-xs text-gray-400">Nothing was invested. Adjust the constraints in the stock list and recalculate.</p>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="p-4 bg-yellow-900/30 rounded-md border border-yellow-700 text-gray-200">
+          <h3 className="font-semibold text-yellow-300 mb-2">Allocation notes</h3>
+          <ul className="list-disc list-inside space-y-1 text-sm">
+            {warnings.map((issue, index) => <li key={`warning-${index}`}>{issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default AllocationIssues;
@@ -0,0 +1,266 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { Stock, PriceSeries, AllocationStrategyId, ShareMode, CorrelationMatrix, MeanVarianceSettings, BrokerProfile, CurrencySettings, RoundingPolicy } from '../types';
+import { ALLOCATION_STRATEGIES } from '../services/allocationService';
+import {
+  runBacktest,
+  getCommonDates,
+  matchStocksToHistory,
+  BacktestResult,
+  BacktestEstimates,
+  RebalanceFrequency,
+  REBALANCE_LABELS,
+  BACKTEST_ESTIMATE_LABELS,
+} from '../services/backtestService';
+import { formatMoney } from '../services/currency';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+
+interface BacktestPanelProps {
+  budget: number;
+  stocks: Stock[];
+  priceHistory: PriceSeries[];
+  shareMode: ShareMode;
+  correlations: CorrelationMatrix;
+  meanVariance: MeanVarianceSettings;
+  broker: BrokerProfile;
+  currency: CurrencySettings;
+  rounding: RoundingPolicy;
+}
+
+const STRATEGY_COLORS: Record<AllocationStrategyId, string> = {
+  'greedy': '#00B9F1',
+  'equal-weight': '#00C49F',
+  'return-weighted': '#FFBB28',
+  'inverse-price': '#FF8042',
+  'custom-weight': '#8884d8',
+  'mean-variance': '#FF6B6B',
+};
+
+const BacktestPanel: React.FC<BacktestPanelProps> = React.memo(({ budget, stocks, priceHistory, shareMode, correlations, meanVariance, broker, currency, rounding }) => {
+  const [strategyIds, setStrategyIds] = useState<AllocationStrategyId[]>(['greedy', 'equal-weight']);
+  const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+  const [rebalance, setRebalance] = useState<RebalanceFrequency>('none');
+  const [estimates, setEstimates] = useState<BacktestEstimates>('current');
+  const [riskFreeRate, setRiskFreeRate] = useState<string>(meanVariance.riskFreeRate.toString());
+  const [results, setResults] = useState<BacktestResult[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+
+  const commonDates = useMemo(() => getCommonDates(stocks, priceHistory), [stocks, priceHistory]);
+  const missingStocks = useMemo(() => matchStocksToHistory(stocks, priceHistory).missing, [stocks, priceHistory]);
+  const firstDate = commonDates[0] ?? '';
+  const lastDate = commonDates[commonDates.length - 1] ?? '';
+
+  const handleToggleStrategy = useCallback((id: AllocationStrategyId) => {
+    setStrategyIds(prevIds => prevIds.includes(id) ? prevIds.filter(prevId => prevId !== id) : [...prevIds, id]);
+  }, []);
+
+  const handleRunClick = useCallback(() => {
+    const rate = parseFloat(riskFreeRate);
+    if (strategyIds.length === 0) {
+      alert('Please choose at least one strategy to backtest.');
+      return;
+    }
+    if (budget <= 0) {
+      alert('Please set a positive budget to use as the starting capital.');
+      return;
+    }
+    if (isNaN(rate)) {
+      alert('Please enter a valid risk-free rate.');
+      return;
+    }
+    setIsRunning(true);
+    // Defer so the "Running..." state renders before the backtest blocks the main thread
+    setTimeout(() => {
+      const settings = {
+        initialCapital: budget,
+        startDate: startDate || firstDate,
+        endDate: endDate || lastDate,
+        rebalance,
+        estimates,
+        riskFreeRate: rate,
+      };
+      const context = { stocks, priceHistory, shareMode, correlations, meanVariance, broker, currency, rounding };
+      setResults(ALLOCATION_STRATEGIES.filter(strategy => strategyIds.includes(strategy.id)).map(strategy => runBacktest(strategy.id, settings, context)));
+      setIsRunning(false);
+    }, 0);
+  }, [budget, stocks, priceHistory, shareMode, correlations, meanVariance, broker, currency, rounding, strategyIds, startDate, endDate, firstDate, lastDate, rebalance, estimates, riskFreeRate]);
+
+  // One row per date with a value column per strategy
+  const chartData = useMemo(() => {
+    const rows = new Map<string, Record<string, number | string>>();
+    results.forEach(result => result.curve.forEach(point => {
+      const row = rows.get(point.date) ?? { date: point.date };
+      row[result.strategyId] = point.value;
+      rows.set(point.date, row);
+    }));
+    return [...rows.values()];
+  }, [results]);
+
+  if (priceHistory.length === 0 || stocks.length === 0) {
+    return null;
+  }
+
+  const formatCompact = (value: number) => formatMoney(value, currency.baseCurrency, 0);
+  const inputClassName = 'block w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100';
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-medium text-blue-300">
+          Backtest Strategies <span className="text-sm text-gray-400">(replay allocations over the imported price history)</span>
+        </summary>
+
+        {commonDates.length < 2 ? (
+          <p className="mt-4 text-sm text-gray-400">
+            Import price history for your stocks, with at least two dates in common, to run a backtest.
+          </p>
+        ) : (
+          <div className="mt-4 space-y-4">
+            {missingStocks.length > 0 && (
+              <p className="text-xs text-yellow-300">
+                Left out for lack of price history: {missingStocks.join(', ')}.
+              </p>
+            )}
+
+            <fieldset>
+              <legend className="text-xs font-medium text-gray-300 mb-2">Strategies</legend>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {ALLOCATION_STRATEGIES.map(strategy => (
+                  <label key={strategy.id} className="flex items-center gap-2 text-sm text-gray-200" title={strategy.description}>
+                    <input
+                      type="checkbox"
+                      checked={strategyIds.includes(strategy.id)}
+                      onChange={() => handleToggleStrategy(strategy.id)}
+                      className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                    />
+                    {strategy.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <label className="text-xs font-medium text-gray-300">
+                Start
+                <input type="date" value={startDate || firstDate} min={firstDate} max={lastDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+              </label>
+              <label className="text-xs font-medium text-gray-300">
+                End
+                <input type="date" value={endDate || lastDate} min={firstDate} max={lastDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+              </label>
+              <label className="text-xs font-medium text-gray-300">
+                Rebalancing
+                <select value={rebalance} onChange={(e) => setRebalance(e.target.value as RebalanceFrequency)} className={inputClassName}>
+                  {(Object.keys(REBALANCE_LABELS) as RebalanceFrequency[]).map(frequency => (
+                    <option key={frequency} value={frequency}>{REBALANCE_LABELS[frequency]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-300">
+                Return estimates
+                <select value={estimates} onChange={(e) => setEstimates(e.target.value as BacktestEstimates)} className={inputClassName}>
+                  {(Object.keys(BACKTEST_ESTIMATE_LABELS) as BacktestEstimates[]).map(source => (
+                    <option key={source} value={source}>{BACKTEST_ESTIMATE_LABELS[source]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-300">
+                Risk-free rate (%)
+                <input type="number" value={riskFreeRate} onChange={(e) => setRiskFreeRate(e.target.value)} step="0.1" className={inputClassName} />
+              </label>
+            </div>
+            <p className="text-xs text-gray-400">
+              Starts with your budget of {formatCompact(budget)} and uses the current share mode and broker fees.
+              {estimates === 'current' && ' Current stock inputs may reflect what happened later, which flatters the results; trailing estimates only use prices known at each rebalance.'}
+            </p>
+
+            <button
+              onClick={handleRunClick}
+              disabled={isRunning}
+              className={`w-full px-4 py-2 text-sm font-semibold rounded-md transition duration-150 ease-in-out
+                ${isRunning
+                  ? 'bg-gray-700 cursor-not-allowed text-gray-400'
+                  : 'bg-indigo-600 text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2'
+                }`}
+            >
+              {isRunning ? 'Running...' : 'Run Backtest'}
+            </button>
+
+            {results.length > 0 && (
+              <div className="space-y-4" aria-live="polite">
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                      <CartesianGrid stroke="#374151" />
+                      <XAxis dataKey="date" stroke="#9CA3AF" minTickGap={40} />
+                      <YAxis stroke="#9CA3AF" tickFormatter={formatCompact} width={80} domain={['auto', 'auto']} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }}
+                        itemStyle={{ color: '#E5E7EB' }}
+                        formatter={(value: number) => formatCompact(value)}
+                      />
+                      <Legend />
+                      {results.filter(result => !result.error).map(result => (
+                        <Line
+                          key={result.strategyId}
+                          type="monotone"
+                          dataKey={result.strategyId}
+                          name={result.label}
+                          stroke={STRATEGY_COLORS[result.strategyId]}
+                          dot={false}
+                          strokeWidth={2}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-700 text-sm text-gray-200">
+                    <thead className="bg-gray-700 text-xs uppercase tracking-wider text-gray-300">
+                      <tr>
+                        <th scope="col" className="px-3 py-2 text-left">Strategy</th>
+                        <th scope="col" className="px-3 py-2 text-right">Final Value</th>
+                        <th scope="col" className="px-3 py-2 text-right">CAGR (%)</th>
+                        <th scope="col" className="px-3 py-2 text-right">Volatility (%)</th>
+                        <th scope="col" className="px-3 py-2 text-right">Max Drawdown (%)</th>
+                        <th scope="col" className="px-3 py-2 text-right">Sharpe</th>
+                        <th scope="col" className="px-3 py-2 text-right">Rebalances</th>
+                        <th scope="col" className="px-3 py-2 text-right">Fees</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {results.map(result => (
+                        <tr key={result.strategyId}>
+                          <td className="px-3 py-2">
+                            <span className="inline-block w-3 h-3 mr-2 rounded-sm align-middle" style={{ backgroundColor: STRATEGY_COLORS[result.strategyId] }} />
+                            {result.label}
+                          </td>
+                          {result.error ? (
+                            <td colSpan={7} className="px-3 py-2 text-xs text-red-300">{result.error}</td>
+                          ) : (
+                            <>
+                              <td className="px-3 py-2 text-right">{formatMoney(result.finalValue, currency.baseCurrency)}</td>
+                              <td className={`px-3 py-2 text-right ${result.cagr < 0 ? 'text-red-400' : 'text-green-400'}`}>{result.cagr.toFixed(2)}</td>
+                              <td className="px-3 py-2 text-right">{result.volatility.toFixed(2)}</td>
+                              <td className="px-3 py-2 text-right">{result.maxDrawdown.toFixed(2)}</td>
+                              <td className="px-3 py-2 text-right">{result.sharpe === null ? '—' : result.sharpe.toFixed(2)}</td>
+                              <td className="px-3 py-2 text-right">{result.rebalances}</td>
+                              <td className="px-3 py-2 text-right">{formatMoney(result.fees, currency.baseCurrency)}</td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </details>
+    </div>
+  );
+});
+
+export default BacktestPanel;
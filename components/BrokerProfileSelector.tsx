@@ -0,0 +1,138 @@
+import React, { useState, useCallback } from 'react';
+import { BrokerProfile } from '../types';
+import { BROKER_PROFILES, CUSTOM_BROKER_PROFILE_ID, validateBrokerProfile } from '../services/brokerProfiles';
+import { formatMoney } from '../services/currency';
+
+interface BrokerProfileSelectorProps {
+  brokerProfileId: string;
+  onBrokerProfileChange: (id: string) => void;
+  customProfile: BrokerProfile;
+  onCustomProfileChange: (profile: BrokerProfile) => void;
+  currency: string; // Fees and minimum orders are in the base currency
+}
+
+type NumericProfileField = 'commissionPerOrder' | 'commissionPercent' | 'minOrderAmount' | 'shareIncrement';
+
+// Amount fields show the base currency after their label
+const NUMERIC_FIELDS: { field: NumericProfileField; label: string; step: string; isAmount?: boolean }[] = [
+  { field: 'commissionPerOrder', label: 'Fee per Order', step: '0.01', isAmount: true },
+  { field: 'commissionPercent', label: 'Fee (% of order)', step: '0.01' },
+  { field: 'minOrderAmount', label: 'Minimum Order', step: '0.01', isAmount: true },
+  { field: 'shareIncrement', label: 'Share Increment', step: 'any' },
+];
+
+/**
+ * Describes a profile's rules in one line.
+ * @param profile The broker profile.
+ * @param currency The currency of its fees and minimum order.
+ * @returns A short summary of fees, minimum order and share increment.
+ */
+const describeProfile = (profile: BrokerProfile, currency: string): string => {
+  const fees = profile.commissionPerOrder === 0 && profile.commissionPercent === 0
+    ? 'no commission'
+    : [
+      profile.commissionPerOrder > 0 ? `${formatMoney(profile.commissionPerOrder, currency)}/order` : '',
+      profile.commissionPercent > 0 ? `${profile.commissionPercent}% of order` : '',
+    ].filter(Boolean).join(' + ');
+  const increment = profile.shareIncrement >= 1
+    ? 'whole shares only'
+    : profile.shareIncrement > 0 ? `shares in steps of ${profile.shareIncrement}` : 'any share quantity';
+  return `${fees}; minimum order ${formatMoney(profile.minOrderAmount, currency)}; ${increment}.`;
+};
+
+const BrokerProfileSelector: React.FC<BrokerProfileSelectorProps> = React.memo(({
+  brokerProfileId,
+  onBrokerProfileChange,
+  customProfile,
+  onCustomProfileChange,
+  currency,
+}) => {
+  const [draft, setDraft] = useState<Record<NumericProfileField | 'name', string>>({
+    name: customProfile.name,
+    commissionPerOrder: customProfile.commissionPerOrder.toString(),
+    commissionPercent: customProfile.commissionPercent.toString(),
+    minOrderAmount: customProfile.minOrderAmount.toString(),
+    shareIncrement: customProfile.shareIncrement.toString(),
+  });
+
+  const handleProfileChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    onBrokerProfileChange(e.target.value);
+  }, [onBrokerProfileChange]);
+
+  const handleSaveCustomProfile = useCallback(() => {
+    const profile: BrokerProfile = {
+      id: CUSTOM_BROKER_PROFILE_ID,
+      name: draft.name.trim(),
+      commissionPerOrder: parseFloat(draft.commissionPerOrder),
+      commissionPercent: parseFloat(draft.commissionPercent),
+      minOrderAmount: parseFloat(draft.minOrderAmount),
+      shareIncrement: parseFloat(draft.shareIncrement),
+    };
+    const error = validateBrokerProfile(profile);
+    if (error) {
+      alert(error);
+      return;
+    }
+    onCustomProfileChange(profile);
+  }, [draft, onCustomProfileChange]);
+
+  const selectedProfile = brokerProfileId === CUSTOM_BROKER_PROFILE_ID
+    ? customProfile
+    : BROKER_PROFILES.find(profile => profile.id === brokerProfileId) ?? BROKER_PROFILES[0];
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <h2 className="text-xl font-medium mb-4 text-blue-300">Broker Profile</h2>
+      <select
+        value={brokerProfileId}
+        onChange={handleProfileChange}
+        className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+        aria-label="Broker profile"
+      >
+        {BROKER_PROFILES.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+        <option value={CUSTOM_BROKER_PROFILE_ID}>Custom: {customProfile.name}</option>
+      </select>
+      <p className="mt-2 text-sm text-gray-400">{describeProfile(selectedProfile, currency)}</p>
+
+      {brokerProfileId === CUSTOM_BROKER_PROFILE_ID && (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+            <label className="text-xs font-medium text-gray-300">
+              Profile Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft(prevDraft => ({ ...prevDraft, name: e.target.value }))}
+                className="w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+              />
+            </label>
+            {NUMERIC_FIELDS.map(({ field, label, step, isAmount }) => (
+              <label key={field} className="text-xs font-medium text-gray-300">
+                {isAmount ? `${label} (${currency})` : label}
+                <input
+                  type="number"
+                  value={draft[field]}
+                  onChange={(e) => setDraft(prevDraft => ({ ...prevDraft, [field]: e.target.value }))}
+                  min="0"
+                  step={step}
+                  className="w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mb-3">A share increment of 1 means whole shares only; 0 allows any quantity.</p>
+          <button
+            onClick={handleSaveCustomProfile}
+            className="px-4 py-2 bg-green-600 text-white text-sm font-semibold rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition duration-150 ease-in-out"
+          >
+            Save Custom Profile
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default BrokerProfileSelector;
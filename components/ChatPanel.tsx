@@ -0,0 +1,147 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { ChatMessage, ProposedAction } from '../types';
+import AiErrorNotice from './AiErrorNotice';
+import MarkdownView from './MarkdownView';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  isResponding: boolean;
+  onSend: (text: string) => void;
+  onStop: () => void;
+  onClear: () => void;
+  onApplyProposal: (messageId: string, proposal: ProposedAction) => void;
+  onDismissProposal: (messageId: string, proposal: ProposedAction) => void;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = React.memo(({ messages, isResponding, onSend, onStop, onClear, onApplyProposal, onDismissProposal }) => {
+  const [draft, setDraft] = useState<string>('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view while a reply streams in
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages]);
+
+  const handleSendClick = useCallback(() => {
+    if (draft.trim() === '' || isResponding) return;
+    onSend(draft.trim());
+    setDraft('');
+  }, [draft, isResponding, onSend]);
+
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends; Shift+Enter adds a line break
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSendClick();
+    }
+  }, [handleSendClick]);
+
+  return (
+    <div>
+      {messages.length > 0 && (
+        <div className="mb-4 max-h-96 overflow-y-auto space-y-3 pr-1" role="log" aria-live="polite" aria-busy={isResponding}>
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] p-3 rounded-lg text-sm leading-relaxed
+                ${message.role === 'user' ? 'bg-blue-700 text-white whitespace-pre-wrap' : 'bg-gray-700 text-gray-200'}`}>
+                {message.role === 'model' && message.text
+                  ? <MarkdownView markdown={message.text} />
+                  : message.text || (isResponding ? '…' : '')}
+                {message.error && <AiErrorNotice error={message.error} compact />}
+                {message.truncated && (
+                  <p className="mt-2 text-xs italic text-yellow-300">Response stopped before completion — this answer is truncated.</p>
+                )}
+                {message.proposedActions && message.proposedActions.length > 0 && (
+                  <ul className="mt-3 space-y-2 whitespace-normal" aria-label="Proposed changes">
+                    {message.proposedActions.map(proposal => (
+                      <li key={proposal.id} className="flex flex-wrap items-center justify-between gap-2 p-2 rounded-md bg-gray-800 border border-gray-600">
+                        <span className="text-gray-100">{proposal.description}</span>
+                        {proposal.status === 'pending' ? (
+                          <span className="flex gap-2">
+                            <button
+                              onClick={() => onApplyProposal(message.id, proposal)}
+                              className="px-3 py-1 bg-green-600 text-white rounded-md text-xs font-semibold hover:bg-green-700 transition"
+                              aria-label={`Apply: ${proposal.description}`}
+                            >
+                              Apply
+                            </button>
+                            <button
+                              onClick={() => onDismissProposal(message.id, proposal)}
+                              className="px-3 py-1 bg-gray-600 text-gray-200 rounded-md text-xs font-semibold hover:bg-gray-500 transition"
+                              aria-label={`Dismiss: ${proposal.description}`}
+                            >
+                              Dismiss
+                            </button>
+                          </span>
+                        ) : (
+                          <span className={`text-xs font-semibold ${proposal.status === 'applied' ? 'text-green-400' : 'text-gray-400'}`}>
+                            {proposal.status === 'applied' ? 'Applied' : 'Dismissed'}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {message.actionIssues && message.actionIssues.length > 0 && (
+                  <ul className="mt-2 text-xs text-yellow-200 list-disc list-inside space-y-1 whitespace-normal">
+                    {message.actionIssues.map((issue, index) => <li key={index}>Ignored an invalid change. {issue}</li>)}
+                  </ul>
+                )}
+              </div>
+            </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder={messages.length === 0
+            ? 'Ask Gemini about your portfolio, stocks, market trends, or investment strategies...'
+            : 'Ask a follow-up question...'}
+          className="flex-grow p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out bg-gray-700 text-gray-100 placeholder-gray-400"
+          aria-label="Chat with Gemini about your portfolio"
+        />
+        <div className="flex md:flex-col gap-2">
+          {isResponding ? (
+            <button
+              onClick={onStop}
+              className="px-6 py-3 font-semibold rounded-md transition duration-150 ease-in-out bg-red-600 text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+              aria-label="Stop the reply"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleSendClick}
+              disabled={draft.trim() === ''}
+              className={`px-6 py-3 font-semibold rounded-md transition duration-150 ease-in-out
+                ${draft.trim() === ''
+                  ? 'bg-gray-700 cursor-not-allowed text-gray-400'
+                  : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+                }`}
+            >
+              Send
+            </button>
+          )}
+          {messages.length > 0 && (
+            <button
+              onClick={onClear}
+              disabled={isResponding}
+              className="px-6 py-2 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 transition duration-150 ease-in-out"
+            >
+              New Chat
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-gray-400">Your current budget, stocks and allocation are shared with Gemini automatically.</p>
+    </div>
+  );
+});
+
+export default ChatPanel;
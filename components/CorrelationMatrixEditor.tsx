@@ -0,0 +1,94 @@
+import React, { useCallback } from 'react';
+import { Stock, CorrelationMatrix } from '../types';
+import { getCorrelation } from '../services/meanVarianceOptimizer';
+
+interface CorrelationMatrixEditorProps {
+  stocks: Stock[];
+  correlations: CorrelationMatrix;
+  onCorrelationChange: (idA: string, idB: string, value: number | undefined) => void;
+}
+
+const CorrelationMatrixEditor: React.FC<CorrelationMatrixEditorProps> = React.memo(({ stocks, correlations, onCorrelationChange }) => {
+  const handleChange = useCallback((idA: string, idB: string, rawValue: string) => {
+    if (rawValue.trim() === '') {
+      onCorrelationChange(idA, idB, undefined);
+      return;
+    }
+    const value = parseFloat(rawValue);
+    if (isNaN(value) || value < -1 || value > 1) {
+      alert('Correlation must be a number between -1 and 1.');
+      return;
+    }
+    onCorrelationChange(idA, idB, value);
+  }, [onCorrelationChange]);
+
+  if (stocks.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-medium text-blue-300">
+          Correlation Matrix <span className="text-sm text-gray-400">(optional, used by mean-variance optimization)</span>
+        </summary>
+        <p className="mt-2 mb-4 text-xs text-gray-400">
+          Enter correlations between -1 and 1 above the diagonal. Empty cells are treated as uncorrelated (0).
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700 text-sm">
+            <thead className="bg-gray-700">
+              <tr>
+                <th scope="col" className="px-3 py-2"><span className="sr-only">Stock</span></th>
+                {stocks.map(stock => (
+                  <th key={stock.id} scope="col" className="px-3 py-2 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                    {stock.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-gray-800 divide-y divide-gray-700">
+              {stocks.map((rowStock, rowIndex) => (
+                <tr key={rowStock.id}>
+                  <th scope="row" className="px-3 py-2 text-left text-xs font-semibold text-gray-300 whitespace-nowrap">
+                    {rowStock.name}
+                  </th>
+                  {stocks.map((colStock, colIndex) => {
+                    if (colIndex === rowIndex) {
+                      return <td key={colStock.id} className="px-3 py-2 text-gray-500">1.00</td>;
+                    }
+                    if (colIndex < rowIndex) {
+                      return (
+                        <td key={colStock.id} className="px-3 py-2 text-gray-500">
+                          {getCorrelation(correlations, rowStock.id, colStock.id).toFixed(2)}
+                        </td>
+                      );
+                    }
+                    const stored = correlations[rowStock.id]?.[colStock.id] ?? correlations[colStock.id]?.[rowStock.id];
+                    return (
+                      <td key={colStock.id} className="px-3 py-2">
+                        <input
+                          type="number"
+                          value={stored ?? ''}
+                          onChange={(e) => handleChange(rowStock.id, colStock.id, e.target.value)}
+                          min="-1"
+                          max="1"
+                          step="0.05"
+                          placeholder="0"
+                          className="w-20 p-1 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-500"
+                          aria-label={`Correlation between ${rowStock.name} and ${colStock.name}`}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+});
+
+export default CorrelationMatrixEditor;
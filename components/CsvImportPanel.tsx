@@ -0,0 +1,179 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { Stock } from '../types';
+import {
+  parseCsv,
+  guessColumnMapping,
+  importStocksFromCsv,
+  IMPORTABLE_STOCK_FIELDS,
+  ImportableStockField,
+  StockColumnMapping,
+} from '../services/csvService';
+
+interface CsvImportPanelProps {
+  onImport: (stocks: Stock[]) => void;
+}
+
+// Row errors listed before the rest are summarized as a count
+const MAX_LISTED_ERRORS = 20;
+
+const CsvImportPanel: React.FC<CsvImportPanelProps> = React.memo(({ onImport }) => {
+  const [rows, setRows] = useState<string[][]>([]);
+  const [fileName, setFileName] = useState<string>('');
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [mapping, setMapping] = useState<StockColumnMapping | null>(null);
+
+  const loadCsvText = useCallback((text: string, name: string) => {
+    const parsedRows = parseCsv(text);
+    setRows(parsedRows);
+    setFileName(name);
+    setMapping(guessColumnMapping(parsedRows[0] ?? []));
+  }, []);
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => loadCsvText(text, file.name))
+      .catch(error => {
+        console.error('Error reading CSV file:', error);
+        alert('The file could not be read.');
+      });
+    // Allow choosing the same file again after a reset
+    e.target.value = '';
+  }, [loadCsvText]);
+
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    loadCsvText(e.clipboardData.getData('text'), 'pasted data');
+  }, [loadCsvText]);
+
+  const handleMappingChange = useCallback((field: ImportableStockField, value: string) => {
+    setMapping(prevMapping => prevMapping && ({ ...prevMapping, [field]: value === '' ? null : parseInt(value, 10) }));
+  }, []);
+
+  const handleReset = useCallback(() => {
+    setRows([]);
+    setFileName('');
+    setMapping(null);
+  }, []);
+
+  const preview = useMemo(
+    () => mapping && rows.length > 0 ? importStocksFromCsv(rows, mapping, hasHeader) : null,
+    [rows, mapping, hasHeader],
+  );
+
+  const handleImportClick = useCallback(() => {
+    if (!preview || preview.stocks.length === 0) return;
+    onImport(preview.stocks);
+    handleReset();
+  }, [preview, onImport, handleReset]);
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnLabel = (index: number) => hasHeader && rows[0]?.[index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-medium text-blue-300">
+          Import Stocks from CSV <span className="text-sm text-gray-400">(name, price, expected return, …)</span>
+        </summary>
+
+        {rows.length === 0 ? (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="text-sm text-gray-300">
+              Choose a CSV file
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="block w-full mt-2 text-sm text-gray-300 file:mr-3 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+              />
+            </label>
+            <label className="text-sm text-gray-300">
+              or paste CSV text
+              <textarea
+                onPaste={handlePaste}
+                rows={3}
+                placeholder={'Name,Price,Expected Return\nACME,120.50,8'}
+                className="w-full mt-2 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              />
+            </label>
+          </div>
+        ) : (
+          <div className="mt-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <p className="text-sm text-gray-300">
+                {fileName}: <span className="font-semibold">{rows.length}</span> rows
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                />
+                First row is a header
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
+              {IMPORTABLE_STOCK_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="text-xs font-medium text-gray-300">
+                  {label}{required && <span className="text-red-400"> *</span>}
+                  <select
+                    value={mapping?.[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+                  >
+                    <option value="">— not imported —</option>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <option key={index} value={index}>{columnLabel(index)}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {preview && preview.errors.length > 0 && (
+              <div className="mb-4 p-3 bg-red-900/30 border border-red-700 rounded-md" aria-live="polite">
+                <p className="text-sm font-semibold text-red-300 mb-1">
+                  {preview.errors.length} {preview.errors.length === 1 ? 'row' : 'rows'} will be skipped:
+                </p>
+                <ul className="text-xs text-red-200 space-y-1 list-disc list-inside">
+                  {preview.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                    <li key={index}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</li>
+                  ))}
+                </ul>
+                {preview.errors.length > MAX_LISTED_ERRORS && (
+                  <p className="text-xs text-red-200 mt-1">…and {preview.errors.length - MAX_LISTED_ERRORS} more.</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleImportClick}
+                disabled={!preview || preview.stocks.length === 0}
+                className={`px-6 py-2 font-semibold rounded-md transition duration-150 ease-in-out
+                  ${!preview || preview.stocks.length === 0
+                    ? 'bg-gray-700 cursor-not-allowed text-gray-400'
+                    : 'bg-green-600 text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2'
+                  }`}
+              >
+                Import {preview?.stocks.length ?? 0} {preview?.stocks.length === 1 ? 'Stock' : 'Stocks'}
+              </button>
+              <button
+                onClick={handleReset}
+                className="px-6 py-2 bg-gray-600 text-gray-200 font-semibold rounded-md hover:bg-gray-500 transition duration-150 ease-in-out"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </details>
+    </div>
+  );
+});
+
+export default CsvImportPanel;
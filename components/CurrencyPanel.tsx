@@ -0,0 +1,208 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { Stock, FxRates } from '../types';
+import { findMissingRates, getCurrencyOptions, normalizeCurrencyCode, parseFxRatesFile } from '../services/currency';
+
+interface CurrencyPanelProps {
+  stocks: Stock[];
+  baseCurrency: string;
+  onBaseCurrencyChange: (currency: string) => void;
+  fxRates: FxRates;
+  onFxRatesChange: (fxRates: FxRates) => void;
+}
+
+const parseRate = (text: string): number | null => {
+  const rate = parseFloat(text);
+  return isNaN(rate) || rate <= 0 ? null : rate;
+};
+
+const CurrencyPanel: React.FC<CurrencyPanelProps> = React.memo(({ stocks, baseCurrency, onBaseCurrencyChange, fxRates, onFxRatesChange }) => {
+  // Rates being typed, keyed by currency, until the input loses focus
+  const [rateDrafts, setRateDrafts] = useState<Record<string, string>>({});
+  const [newCode, setNewCode] = useState<string>('');
+  const [newRate, setNewRate] = useState<string>('');
+
+  const settings = useMemo(() => ({ baseCurrency, fxRates }), [baseCurrency, fxRates]);
+  const currencyOptions = useMemo(() => getCurrencyOptions(settings, stocks), [settings, stocks]);
+  const missingRates = useMemo(() => findMissingRates(stocks, settings), [stocks, settings]);
+  const rateCodes = Object.keys(fxRates.rates).sort();
+  // An empty table takes the base currency as its own base
+  const tableBase = rateCodes.length > 0 ? fxRates.base : baseCurrency;
+
+  const handleRateBlur = useCallback((code: string) => {
+    const draft = rateDrafts[code];
+    if (draft === undefined) return;
+    const rate = parseRate(draft);
+    if (rate === null) {
+      alert(`Please enter a positive rate for ${code}.`);
+    } else {
+      onFxRatesChange({ ...fxRates, rates: { ...fxRates.rates, [code]: rate } });
+    }
+    setRateDrafts(({ [code]: _done, ...rest }) => rest);
+  }, [rateDrafts, fxRates, onFxRatesChange]);
+
+  const handleRemoveRate = useCallback((code: string) => {
+    const { [code]: _removed, ...rates } = fxRates.rates;
+    onFxRatesChange({ ...fxRates, rates });
+  }, [fxRates, onFxRatesChange]);
+
+  const handleAddRate = useCallback(() => {
+    const code = normalizeCurrencyCode(newCode);
+    const rate = parseRate(newRate);
+    if (!code || rate === null) {
+      alert('Please enter a three-letter currency code, e.g. EUR, and a positive rate.');
+      return;
+    }
+    if (code === tableBase) {
+      alert(`${code} is the base of the rate table; its rate is always 1.`);
+      return;
+    }
+    onFxRatesChange({ base: tableBase, rates: { ...fxRates.rates, [code]: rate }, ...(fxRates.asOf ? { asOf: fxRates.asOf } : {}) });
+    setNewCode('');
+    setNewRate('');
+  }, [newCode, newRate, tableBase, fxRates, onFxRatesChange]);
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const { fxRates: loaded, skipped, error } = parseFxRatesFile(text);
+        if (!loaded) {
+          alert(error);
+          return;
+        }
+        onFxRatesChange(loaded);
+        setRateDrafts({});
+        if (skipped.length > 0) {
+          alert(`Loaded ${Object.keys(loaded.rates).length} rates. Skipped entries that aren't a currency code with a positive rate: ${skipped.join(', ')}.`);
+        }
+      })
+      .catch(error => {
+        console.error('Error reading rates file:', error);
+        alert('The file could not be read.');
+      });
+    // Allow choosing the same file again after editing
+    e.target.value = '';
+  }, [onFxRatesChange]);
+
+  const inputClassName = 'p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400';
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-medium text-blue-300">
+          Currencies <span className="text-sm text-gray-400">(base {baseCurrency}, {rateCodes.length} exchange rates)</span>
+        </summary>
+
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="text-xs font-medium text-gray-300">
+              Base Currency
+              <select
+                value={baseCurrency}
+                onChange={(e) => onBaseCurrencyChange(e.target.value)}
+                className={`block w-full mt-1 ${inputClassName}`}
+              >
+                {currencyOptions.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+              <span className="block mt-1 font-normal text-gray-400">
+                The budget, limits, fees and results are in this currency. Changing it keeps each stock's own price currency and clears the current results.
+              </span>
+            </label>
+            <label className="text-xs font-medium text-gray-300">
+              Load a rates file (JSON)
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFileChange}
+                className="block w-full mt-1 text-sm text-gray-300 file:mr-3 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+              />
+              <span className="block mt-1 font-normal text-gray-400">
+                {'{ "base": "USD", "date": "2024-05-01", "rates": { "EUR": 0.92 } }'} — replaces the table below.
+              </span>
+            </label>
+          </div>
+
+          {missingRates.length > 0 && (
+            <p className="text-sm text-yellow-300" role="alert">
+              No exchange rate into {baseCurrency} for {missingRates.join(', ')}. Stocks priced in {missingRates.length === 1 ? 'this currency' : 'these currencies'} can't be allocated until you add one.
+            </p>
+          )}
+
+          <div>
+            <p className="text-xs font-medium text-gray-300 mb-2">
+              Exchange Rates <span className="font-normal text-gray-400">(units per 1 {tableBase}{fxRates.asOf ? `, as of ${fxRates.asOf}` : ''})</span>
+            </p>
+            {rateCodes.length === 0 ? (
+              <p className="text-sm text-gray-400 mb-3">No rates yet. Add the currencies your stocks are priced in.</p>
+            ) : (
+              <ul className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 mb-3">
+                {rateCodes.map(code => (
+                  <li key={code} className="flex items-center gap-2 text-sm text-gray-300">
+                    <span className="whitespace-nowrap">1 {tableBase} =</span>
+                    <input
+                      type="number"
+                      value={rateDrafts[code] ?? fxRates.rates[code].toString()}
+                      onChange={(e) => setRateDrafts(prevDrafts => ({ ...prevDrafts, [code]: e.target.value }))}
+                      onBlur={() => handleRateBlur(code)}
+                      min="0"
+                      step="any"
+                      className={`w-28 ${inputClassName}`}
+                      aria-label={`${code} per ${tableBase}`}
+                    />
+                    <span>{code}</span>
+                    <button
+                      onClick={() => handleRemoveRate(code)}
+                      className="text-red-500 hover:text-red-400 transition duration-150 ease-in-out font-semibold text-xs"
+                      aria-label={`Remove the ${code} rate`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+              <span className="whitespace-nowrap">1 {tableBase} =</span>
+              <input
+                type="number"
+                value={newRate}
+                onChange={(e) => setNewRate(e.target.value)}
+                min="0"
+                step="any"
+                placeholder="e.g., 0.92"
+                className={`w-28 ${inputClassName}`}
+                aria-label="New rate"
+              />
+              <input
+                type="text"
+                value={newCode}
+                onChange={(e) => setNewCode(e.target.value)}
+                list="currencyCodes"
+                placeholder={missingRates[0] ?? 'EUR'}
+                maxLength={3}
+                className={`w-20 uppercase ${inputClassName}`}
+                aria-label="New rate currency"
+              />
+              <datalist id="currencyCodes">
+                {currencyOptions.filter(code => code !== tableBase && !rateCodes.includes(code)).map(code => (
+                  <option key={code} value={code} />
+                ))}
+              </datalist>
+              <button
+                onClick={handleAddRate}
+                className="px-3 py-2 bg-green-600 text-white rounded-md text-xs font-semibold hover:bg-green-700 transition"
+              >
+                Add Rate
+              </button>
+            </div>
+          </div>
+        </div>
+      </details>
+    </div>
+  );
+});
+
+export default CurrencyPanel;
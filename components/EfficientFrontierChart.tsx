@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { InvestmentResult, Stock, CorrelationMatrix } from '../types';
+import { computeEfficientFrontier, portfolioStats, buildCovarianceMatrix } from '../services/meanVarianceOptimizer';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+
+interface EfficientFrontierChartProps {
+  stocks: Stock[];
+  correlations: CorrelationMatrix;
+  investmentResults: InvestmentResult[];
+}
+
+interface ChartPoint {
+  name: string;
+  volatility: number;
+  expectedReturn: number;
+}
+
+const EfficientFrontierChart: React.FC<EfficientFrontierChartProps> = React.memo(({ stocks, correlations, investmentResults }) => {
+  const frontier = useMemo<ChartPoint[]>(() =>
+    computeEfficientFrontier(stocks, correlations).map(point => ({
+      name: 'Efficient frontier',
+      volatility: point.volatility,
+      expectedReturn: point.expectedReturn,
+    })),
+  [stocks, correlations]);
+
+  const currentPoint = useMemo<ChartPoint | null>(() => {
+    const totalInvested = investmentResults.reduce((sum, res) => sum + res.investedAmount, 0);
+    if (totalInvested <= 0) return null;
+    const weights = stocks.map(stock =>
+      (investmentResults.find(res => res.stockId === stock.id)?.investedAmount ?? 0) / totalInvested
+    );
+    const stats = portfolioStats(weights, stocks.map(stock => stock.expectedReturn / 100), buildCovarianceMatrix(stocks, correlations));
+    return { name: 'Current allocation', volatility: stats.volatility, expectedReturn: stats.expectedReturn };
+  }, [stocks, correlations, investmentResults]);
+
+  const stockPoints = useMemo<ChartPoint[]>(() => {
+    const covariance = buildCovarianceMatrix(stocks, correlations);
+    return stocks.map((stock, i) => ({
+      name: stock.name,
+      volatility: Math.sqrt(covariance[i][i]) * 100,
+      expectedReturn: stock.expectedReturn,
+    }));
+  }, [stocks, correlations]);
+
+  if (stocks.length < 2 || frontier.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 pt-4 border-t border-gray-700">
+      <h3 className="text-xl font-medium mb-2 text-blue-300 text-center">Efficient Frontier</h3>
+      <p className="text-xs text-gray-400 text-center mb-4">
+        Annual expected return vs. volatility for long-only portfolios of your stocks. Stocks without a volatility use the default assumption.
+      </p>
+      <div className="h-64 sm:h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+            <CartesianGrid stroke="#374151" />
+            <XAxis
+              type="number"
+              dataKey="volatility"
+              name="Volatility"
+              unit="%"
+              stroke="#9CA3AF"
+              tickFormatter={(value: number) => value.toFixed(1)}
+              label={{ value: 'Volatility (%)', position: 'insideBottom', offset: -10, fill: '#9CA3AF' }}
+            />
+            <YAxis
+              type="number"
+              dataKey="expectedReturn"
+              name="Expected Return"
+              unit="%"
+              stroke="#9CA3AF"
+              tickFormatter={(value: number) => value.toFixed(1)}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }}
+              itemStyle={{ color: '#E5E7EB' }}
+              formatter={(value: number) => `${value.toFixed(2)}%`}
+            />
+            <Legend wrapperStyle={{ color: '#E5E7EB' }} verticalAlign="top" />
+            <Scatter name="Efficient frontier" data={frontier} fill="#00B9F1" line shape={() => null} />
+            <Scatter name="Individual stocks" data={stockPoints} fill="#A0A0A0" />
+            {currentPoint && <Scatter name="Current allocation" data={[currentPoint]} fill="#FFBB28" shape="star" />}
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+      {currentPoint && (
+        <p className="text-sm text-gray-300 text-center mt-2">
+          Current allocation: {currentPoint.expectedReturn.toFixed(2)}% expected return at {currentPoint.volatility.toFixed(2)}% volatility.
+        </p>
+      )}
+    </div>
+  );
+});
+
+export default EfficientFrontierChart;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { FactCheckResult } from '../services/factCheck';
+
+interface FactCheckNoticeProps {
+  result: FactCheckResult;
+}
+
+const FactCheckNotice: React.FC<FactCheckNoticeProps> = React.memo(({ result }) => {
+  const problems = result.findings.filter(finding => finding.status === 'mismatch' || finding.status === 'unknown-ticker');
+  if (result.findings.length === 0) return null;
+
+  return (
+    <div className={`mt-4 p-3 rounded-md border text-sm ${problems.length > 0 ? 'bg-red-900/20 border-red-700' : 'bg-gray-900/40 border-gray-700'}`}>
+      <p className="font-semibold text-gray-200">
+        Fact check: {result.verified} {result.verified === 1 ? 'figure matches' : 'figures match'} the plan
+        {result.mismatches > 0 && <span className="text-red-300">, {result.mismatches} {result.mismatches === 1 ? 'mismatch' : 'mismatches'}</span>}
+        {result.unknownTickers > 0 && <span className="text-orange-300">, {result.unknownTickers} unknown {result.unknownTickers === 1 ? 'ticker' : 'tickers'}</span>}
+        {result.unchecked > 0 && <span className="text-gray-400">, {result.unchecked} not checked</span>}
+      </p>
+      {problems.length > 0 && (
+        <ul className="mt-2 space-y-1 text-gray-300">
+          {problems.map(finding => (
+            <li key={`${finding.start}-${finding.status}`}>
+              <span className={`font-mono ${finding.status === 'mismatch' ? 'text-red-300' : 'text-orange-300'}`}>{finding.text}</span>: {finding.note}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-2 text-xs text-gray-400">Figures are matched automatically with the nearest stock or total they are quoted for. Hover a highlight for details.</p>
+    </div>
+  );
+});
+
+export default FactCheckNotice;
@@ -0,0 +1,277 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Stock, PriceSeries, ReturnEstimationMethod } from '../types';
+import { parseCsv, CsvRowError } from '../services/csvService';
+import {
+  importPriceHistory,
+  estimatePriceStats,
+  correlatePriceSeries,
+  isSeriesForStock,
+  LOOKBACK_WINDOWS,
+  RETURN_ESTIMATION_METHODS,
+} from '../services/priceHistory';
+import { formatMoney, getStockCurrency } from '../services/currency';
+
+interface HistoricalPricePanelProps {
+  stocks: Stock[];
+  priceHistory: PriceSeries[];
+  onPriceHistoryChange: (priceHistory: PriceSeries[]) => void;
+  onUpdateStock: (id: string, changes: Partial<Stock>) => void;
+  onAddStocks: (stocks: Stock[]) => void;
+  onCorrelationChange: (idA: string, idB: string, value: number | undefined) => void;
+  baseCurrency: string; // Closes are in the matching stock's currency, or this one
+}
+
+// Row errors listed before the rest are summarized as a count
+const MAX_LISTED_ERRORS = 20;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const HistoricalPricePanel: React.FC<HistoricalPricePanelProps> = React.memo(({
+  stocks,
+  priceHistory,
+  onPriceHistoryChange,
+  onUpdateStock,
+  onAddStocks,
+  onCorrelationChange,
+  baseCurrency,
+}) => {
+  const [method, setMethod] = useState<ReturnEstimationMethod>('geometric');
+  const [windowId, setWindowId] = useState<string>('all');
+  const [importErrors, setImportErrors] = useState<CsvRowError[]>([]);
+  const years = LOOKBACK_WINDOWS.find(window => window.id === windowId)?.years ?? null;
+  const methodLabel = RETURN_ESTIMATION_METHODS.find(option => option.id === method)?.label ?? method;
+
+  const loadCsvText = useCallback((text: string, name: string) => {
+    const { series, errors } = importPriceHistory(parseCsv(text), name.replace(/\.csv$/i, ''));
+    setImportErrors(errors);
+    if (series.length === 0) return;
+    // A re-imported series replaces the one with the same name
+    const importedNames = new Set(series.map(s => s.name.toLowerCase()));
+    onPriceHistoryChange([...priceHistory.filter(s => !importedNames.has(s.name.toLowerCase())), ...series]);
+  }, [priceHistory, onPriceHistoryChange]);
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => loadCsvText(text, file.name))
+      .catch(error => {
+        console.error('Error reading price history file:', error);
+        alert('The file could not be read.');
+      });
+    e.target.value = '';
+  }, [loadCsvText]);
+
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    loadCsvText(e.clipboardData.getData('text'), 'Pasted prices');
+  }, [loadCsvText]);
+
+  const rows = useMemo(() => priceHistory.map(series => ({
+    series,
+    stats: estimatePriceStats(series, method, years),
+    stock: stocks.find(stock => isSeriesForStock(series, stock.name)),
+  })), [priceHistory, stocks, method, years]);
+
+  // Correlations between stocks that have a price history, keyed by stock id
+  const correlationPairs = useMemo(() => {
+    const matched = rows.filter(row => row.stock);
+    const pairs: { idA: string; idB: string; value: number }[] = [];
+    matched.forEach((a, i) => matched.slice(i + 1).forEach(b => {
+      const value = correlatePriceSeries(a.series, b.series, years);
+      if (value !== null) pairs.push({ idA: a.stock!.id, idB: b.stock!.id, value: round2(value) });
+    }));
+    return pairs;
+  }, [rows, years]);
+
+  const handleApplyCorrelations = useCallback(() => {
+    correlationPairs.forEach(({ idA, idB, value }) => onCorrelationChange(idA, idB, value));
+  }, [correlationPairs, onCorrelationChange]);
+
+  const handleRemoveSeries = useCallback((name: string) => {
+    onPriceHistoryChange(priceHistory.filter(series => series.name !== name));
+  }, [priceHistory, onPriceHistoryChange]);
+
+  const buttonClassName = 'px-3 py-1 text-xs font-semibold rounded-md transition duration-150 ease-in-out';
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-medium text-blue-300">
+          Historical Prices <span className="text-sm text-gray-400">(derive expected return, volatility and correlations)</span>
+        </summary>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="text-sm text-gray-300">
+            Choose a CSV of closing prices
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="block w-full mt-2 text-sm text-gray-300 file:mr-3 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700"
+            />
+          </label>
+          <label className="text-sm text-gray-300">
+            or paste CSV text
+            <textarea
+              onPaste={handlePaste}
+              rows={3}
+              placeholder={'Date,ACME,GLOBEX\n2024-01-31,120.50,48.10\n2024-02-29,123.10,47.30'}
+              className="w-full mt-2 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+            />
+          </label>
+        </div>
+        <p className="mt-2 text-xs text-gray-400">
+          Daily, weekly or monthly closes: one column per stock, rows of date, symbol and close, or a single stock's quotes named after the file.
+          Series are matched to stocks by name.
+        </p>
+
+        {importErrors.length > 0 && (
+          <div className="mt-4 p-3 bg-red-900/30 border border-red-700 rounded-md" aria-live="polite">
+            <p className="text-sm font-semibold text-red-300 mb-1">
+              {importErrors.length} {importErrors.length === 1 ? 'problem' : 'problems'} in the last import:
+            </p>
+            <ul className="text-xs text-red-200 space-y-1 list-disc list-inside">
+              {importErrors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+                <li key={index}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</li>
+              ))}
+            </ul>
+            {importErrors.length > MAX_LISTED_ERRORS && (
+              <p className="text-xs text-red-200 mt-1">…and {importErrors.length - MAX_LISTED_ERRORS} more.</p>
+            )}
+          </div>
+        )}
+
+        {priceHistory.length > 0 && (
+          <div className="mt-6">
+            <div className="flex flex-wrap gap-4 mb-4">
+              <label className="text-xs font-medium text-gray-300">
+                Return method
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as ReturnEstimationMethod)}
+                  className="block mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+                >
+                  {RETURN_ESTIMATION_METHODS.map(option => (
+                    <option key={option.id} value={option.id} title={option.description}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-300">
+                Look-back window
+                <select
+                  value={windowId}
+                  onChange={(e) => setWindowId(e.target.value)}
+                  className="block mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+                >
+                  {LOOKBACK_WINDOWS.map(window => (
+                    <option key={window.id} value={window.id}>{window.label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-700 text-sm text-gray-200">
+                <thead className="bg-gray-700 text-xs uppercase tracking-wider text-gray-300">
+                  <tr>
+                    <th scope="col" className="px-3 py-2 text-left">Series</th>
+                    <th scope="col" className="px-3 py-2 text-left">Window</th>
+                    <th scope="col" className="px-3 py-2 text-right">Return (%)</th>
+                    <th scope="col" className="px-3 py-2 text-right">Volatility (%)</th>
+                    <th scope="col" className="px-3 py-2 text-right">Max Drawdown (%)</th>
+                    <th scope="col" className="px-3 py-2 text-right">Last Close</th>
+                    <th scope="col" className="px-3 py-2 text-right"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {rows.map(({ series, stats, stock }) => {
+                    // Stocks can't have a negative expected return, so losses are entered as 0%
+                    const expectedReturn = stats ? round2(Math.max(0, stats.annualReturn)) : 0;
+                    return (
+                      <tr key={series.name}>
+                        <td className="px-3 py-2">
+                          <span className="font-medium">{series.name}</span>
+                          <span className="block text-xs text-gray-400">{stock ? `Matches ${stock.name}` : 'No matching stock'}</span>
+                        </td>
+                        {stats ? (
+                          <>
+                            <td className="px-3 py-2 text-xs text-gray-300">
+                              {stats.start} → {stats.end}
+                              <span className="block text-gray-400">{stats.returnCount} {stats.frequency} returns, {methodLabel}</span>
+                            </td>
+                            <td className={`px-3 py-2 text-right ${stats.annualReturn < 0 ? 'text-red-400' : ''}`}>{stats.annualReturn.toFixed(2)}</td>
+                            <td className="px-3 py-2 text-right">{stats.volatility.toFixed(2)}</td>
+                            <td className="px-3 py-2 text-right">{stats.maxDrawdown.toFixed(2)}</td>
+                            <td className="px-3 py-2 text-right">{formatMoney(stats.lastClose, stock ? getStockCurrency(stock, baseCurrency) : baseCurrency)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={5} className="px-3 py-2 text-xs text-gray-400">Fewer than three prices in this window.</td>
+                        )}
+                        <td className="px-3 py-2 text-right whitespace-nowrap space-x-2">
+                          {stats && (stock ? (
+                            <button
+                              onClick={() => onUpdateStock(stock.id, { expectedReturn, volatility: round2(stats.volatility) })}
+                              className={`${buttonClassName} bg-blue-600 text-white hover:bg-blue-700`}
+                              title={`Set ${stock.name}'s expected return to ${expectedReturn}% and volatility to ${round2(stats.volatility)}%`}
+                            >
+                              Apply
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => onAddStocks([{ id: uuidv4(), name: series.name, price: stats.lastClose, expectedReturn, volatility: round2(stats.volatility) }])}
+                              className={`${buttonClassName} bg-green-600 text-white hover:bg-green-700`}
+                              title={`Add ${series.name} at its last close with these estimates`}
+                            >
+                              Add as Stock
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => handleRemoveSeries(series.name)}
+                            className={`${buttonClassName} bg-gray-600 text-gray-200 hover:bg-gray-500`}
+                            aria-label={`Remove the price history for ${series.name}`}
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {rows.some(({ stats }) => stats && stats.annualReturn < 0) && (
+              <p className="mt-2 text-xs text-gray-400">Negative historical returns are entered as 0%, the lowest expected return a stock can have.</p>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+              <p className="text-xs text-gray-400">
+                {correlationPairs.length > 0
+                  ? `${correlationPairs.length} stock ${correlationPairs.length === 1 ? 'pair has' : 'pairs have'} overlapping history for correlations.`
+                  : 'Correlations need at least two matched stocks with overlapping dates.'}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleApplyCorrelations}
+                  disabled={correlationPairs.length === 0}
+                  className={`${buttonClassName} bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  Apply Correlations
+                </button>
+                <button
+                  onClick={() => onPriceHistoryChange([])}
+                  className={`${buttonClassName} bg-gray-600 text-gray-200 hover:bg-gray-500`}
+                >
+                  Clear All
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </details>
+    </div>
+  );
+});
+
+export default HistoricalPricePanel;
@@ -1,5 +1,12 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { InvestmentResult, Stock } from '../types';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { InvestmentResult, Stock, AllocationPlan, CorrelationMatrix, BrokerProfile, CurrencySettings } from '../types';
+import { getAllocationStrategy, SHARE_MODE_LABELS } from '../services/allocationService';
+import EfficientFrontierChart from './EfficientFrontierChart';
+import SimulationPanel from './SimulationPanel';
+import RebalancePanel from './RebalancePanel';
+import { exportResultsToCsv, exportResultsToJson, downloadTextFile } from '../services/exportService';
+import { convertStocksToBase, formatMoney } from '../services/currency';
+import { subtractMoney, sumMoney } from '../services/money';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
 
 interface InvestmentResultsProps {
@@ -9,6 +16,10 @@ interface InvestmentResultsProps {
   totalActualReturn: number;
   onAdjustInvestment: (stockId: string, newAmount: string) => void;
   allStocks: Stock[]; // Pass all stocks to look up price/return for adjustments
+  planMode: Pick<AllocationPlan, 'strategyId' | 'shareMode'> | null; // How the displayed plan was produced
+  correlations: CorrelationMatrix;
+  broker: BrokerProfile;
+  currency: CurrencySettings; // Every amount in the results is in the base currency
 }
 
 const COLORS = ['#00B9F1', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#A0A0A0', '#FF6B6B', '#1ABC9C']; // Updated colors
@@ -20,16 +31,18 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
   totalActualReturn,
   onAdjustInvestment,
   allStocks,
+  planMode,
+  correlations,
+  broker,
+  currency,
 }) => {
   const [editingStockId, setEditingStockId] = useState<string | null>(null);
   const [editAmount, setEditAmount] = useState<string>('');
   const inputRef = useRef<HTMLInputElement>(null);
-
-  if (investmentResults.length === 0 && initialBudget === 0) {
-    return null; // Don't render if no calculations have been made and budget is zero
-  }
-
-  const remainingBudget = initialBudget - totalInvestedAmount;
+  // Rebalancing trades shares at their prices in the base currency
+  const baseStocks = useMemo(() => convertStocksToBase(allStocks, currency).stocks, [allStocks, currency]);
+  const { baseCurrency } = currency;
+  const money = (value: number) => formatMoney(value, baseCurrency);
 
   const handleAdjustClick = useCallback((stockId: string, currentAmount: number) => {
     setEditingStockId(stockId);
@@ -52,6 +65,15 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
     setEditAmount('');
   }, []);
 
+  const handleExportClick = useCallback((format: 'csv' | 'json') => {
+    const input = { budget: initialBudget, results: investmentResults, stocks: allStocks, planMode, broker, currency };
+    if (format === 'csv') {
+      downloadTextFile('investment-results.csv', exportResultsToCsv(input), 'text/csv');
+    } else {
+      downloadTextFile('investment-results.json', exportResultsToJson(input), 'application/json');
+    }
+  }, [initialBudget, investmentResults, allStocks, planMode, broker, currency]);
+
   const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>, stockId: string) => {
     if (event.key === 'Enter') {
       handleSaveClick(stockId);
@@ -60,6 +82,13 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
     }
   }, [handleSaveClick, handleCancelClick]);
 
+  // Every hook must run before this point, so the hook count doesn't change between renders
+  if (investmentResults.length === 0 && initialBudget === 0) {
+    return null; // Don't render if no calculations have been made and budget is zero
+  }
+
+  const totalFees = sumMoney(investmentResults.map(result => result.fee ?? 0), baseCurrency);
+  const remainingBudget = subtractMoney(initialBudget, [totalInvestedAmount, totalFees], baseCurrency);
 
   const pieChartData = investmentResults
     .filter(result => result.investedAmount > 0) // Only show stocks actually invested in for the pie chart
@@ -79,20 +108,45 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 text-center">
             <div className="p-4 bg-blue-900/30 rounded-lg shadow-sm">
               <p className="text-sm font-medium text-gray-400">Initial Budget</p>
-              <p className="text-2xl font-bold text-blue-300">${initialBudget.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-blue-300">{money(initialBudget)}</p>
             </div>
             <div className="p-4 bg-green-900/30 rounded-lg shadow-sm">
               <p className="text-sm font-medium text-gray-400">Total Invested</p>
-              <p className="text-2xl font-bold text-green-300">${totalInvestedAmount.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-green-300">{money(totalInvestedAmount)}</p>
             </div>
             <div className="p-4 bg-yellow-900/30 rounded-lg shadow-sm">
               <p className="text-sm font-medium text-gray-400">Remaining Budget</p>
-              <p className="text-2xl font-bold text-yellow-300">${remainingBudget.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-yellow-300">{money(remainingBudget)}</p>
             </div>
           </div>
 
           <div className="mb-6">
-            <h3 className="text-xl font-medium mb-4 text-blue-300">Allocations</h3>
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+              <h3 className="text-xl font-medium text-blue-300">Allocations</h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleExportClick('csv')}
+                  className="px-3 py-1 bg-gray-600 text-gray-200 rounded-md text-xs font-semibold hover:bg-gray-500 transition"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => handleExportClick('json')}
+                  className="px-3 py-1 bg-gray-600 text-gray-200 rounded-md text-xs font-semibold hover:bg-gray-500 transition"
+                >
+                  Export JSON
+                </button>
+              </div>
+              {planMode && (
+                <p className="w-full text-sm text-gray-400">
+                  Plan: <span className="font-semibold text-gray-200">{getAllocationStrategy(planMode.strategyId).label}</span>
+                  {' · '}
+                  <span className="font-semibold text-gray-200">{SHARE_MODE_LABELS[planMode.shareMode]}</span>
+                  {' · '}
+                  <span className="font-semibold text-gray-200">{broker.name}</span>
+                </p>
+              )}
+            </div>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-700">
                 <thead className="bg-gray-700">
@@ -101,13 +155,19 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
                       Stock Name
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
-                      Fraction
+                      {planMode?.shareMode === 'whole' ? 'Shares' : 'Fraction'}
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                      Invested Amount ({baseCurrency})
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
-                      Invested Amount ($)
+                      Actual Return ({baseCurrency})
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
-                      Actual Return ($)
+                      Fee ({baseCurrency})
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                      Net Return ({baseCurrency})
                     </th>
                     <th scope="col" className="relative px-6 py-3">
                       <span className="sr-only">Actions</span>
@@ -123,7 +183,7 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
                           {result.stockName}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                          {result.fraction.toFixed(4)}
+                          {planMode?.shareMode === 'whole' ? result.fraction.toFixed(0) : result.fraction.toFixed(4)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                           {editingStockId === result.stockId ? (
@@ -156,7 +216,7 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
                             </div>
                           ) : (
                             <div className="flex items-center justify-between">
-                              <span>${result.investedAmount.toFixed(2)}</span>
+                              <span>{money(result.investedAmount)}</span>
                               <button
                                 onClick={() => handleAdjustClick(result.stockId, result.investedAmount)}
                                 className="ml-2 px-3 py-1 bg-blue-500 text-white rounded-md text-xs font-semibold hover:bg-blue-600 transition"
@@ -168,7 +228,13 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
                           )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                          ${result.actualReturn.toFixed(2)}
+                          {money(result.actualReturn)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {money(result.fee ?? 0)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                          {money(result.actualReturn - (result.fee ?? 0))}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           {/* Actions can be added here if needed, but adjusting is inline */}
@@ -182,39 +248,60 @@ const InvestmentResults: React.FC<InvestmentResultsProps> = React.memo(({
 
           <div className="mt-8 pt-4 border-t border-gray-700 text-center">
             <h3 className="text-xl font-medium mb-3 text-blue-300">Summary</h3>
-            <div className="p-4 bg-green-900/30 rounded-lg shadow-sm inline-block min-w-[250px]">
-              <p className="text-sm font-medium text-gray-400">Total Expected Return from Investment</p>
-              <p className="text-3xl font-extrabold text-green-300">${totalActualReturn.toFixed(2)}</p>
+            <div className="flex flex-wrap justify-center gap-4">
+              <div className="p-4 bg-green-900/30 rounded-lg shadow-sm inline-block min-w-[250px]">
+                <p className="text-sm font-medium text-gray-400">Total Expected Return from Investment</p>
+                <p className="text-3xl font-extrabold text-green-300">{money(totalActualReturn)}</p>
+              </div>
+              {totalFees > 0 && (
+                <div className="p-4 bg-orange-900/30 rounded-lg shadow-sm inline-block min-w-[250px]">
+                  <p className="text-sm font-medium text-gray-400">Net Return after {money(totalFees)} in Fees</p>
+                  <p className="text-3xl font-extrabold text-orange-300">{money(totalActualReturn - totalFees)}</p>
+                </div>
+              )}
             </div>
           </div>
 
+          <RebalancePanel
+            stocks={baseStocks}
+            investmentResults={investmentResults}
+            broker={broker}
+            wholeShares={planMode?.shareMode === 'whole'}
+            currency={baseCurrency}
+          />
+
           {pieChartData.length > 0 && (
-            <div className="mt-8 pt-4 border-t border-gray-700">
-              <h3 className="text-xl font-medium mb-4 text-blue-300 text-center">Investment Distribution</h3>
-              <div className="h-64 sm:h-80 md:h-96"> {/* Responsive height for the chart */}
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={pieChartData}
-                      cx="50%"
-                      cy="50%"
-                      labelLine={false}
-                      outerRadius="80%"
-                      fill="#8884d8"
-                      dataKey="value"
-                      label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
-                    >
-                      {pieChartData.map((_entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }} itemStyle={{ color: '#E5E7EB' }} formatter={(value: number) => `$${value.toFixed(2)}`}/>
-                    <Legend wrapperStyle={{ color: '#E5E7EB' }}/>
-                  </PieChart>
-                </ResponsiveContainer>
+            <div className="mt-8 pt-4 border-t border-gray-700 grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div>
+                <h3 className="text-xl font-medium mb-4 text-blue-300 text-center">Investment Distribution</h3>
+                <div className="h-64 sm:h-80 md:h-96"> {/* Responsive height for the chart */}
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={pieChartData}
+                        cx="50%"
+                        cy="50%"
+                        labelLine={false}
+                        outerRadius="80%"
+                        fill="#8884d8"
+                        dataKey="value"
+                        label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
+                      >
+                        {pieChartData.map((_entry, index) => (
+                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }} itemStyle={{ color: '#E5E7EB' }} formatter={(value: number) => money(value)}/>
+                      <Legend wrapperStyle={{ color: '#E5E7EB' }}/>
+                    </PieChart>
+                  </ResponsiveContainer>
+                </div>
               </div>
+              <SimulationPanel investmentResults={investmentResults} stocks={allStocks} correlations={correlations} currency={baseCurrency} />
             </div>
           )}
+
+          <EfficientFrontierChart stocks={allStocks} correlations={correlations} investmentResults={investmentResults} />
         </>
       )}
     </div>
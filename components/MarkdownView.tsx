@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, MarkdownBlock, MarkdownInline, MarkdownAnnotation, TABLE_CELL_SEPARATOR } from '../services/markdown';
+
+interface MarkdownViewProps {
+  markdown: string;
+  className?: string;
+  annotations?: MarkdownAnnotation[]; // Ranges of the plain text (see toPlainText) to highlight
+}
+
+const HEADING_CLASSES = [
+  'text-xl font-bold text-blue-200',
+  'text-lg font-bold text-blue-200',
+  'text-base font-semibold text-blue-200',
+  'text-base font-semibold text-gray-100',
+  'text-sm font-semibold text-gray-100',
+  'text-sm font-semibold text-gray-300',
+];
+
+const ANNOTATION_CLASSES: Record<MarkdownAnnotation['tone'], string> = {
+  error: 'bg-red-900/60 text-red-100 underline decoration-red-400 decoration-wavy',
+  warning: 'bg-orange-900/60 text-orange-100 underline decoration-orange-400 decoration-dotted',
+  success: 'bg-transparent text-inherit underline decoration-green-500/60',
+};
+
+// Tracks the position in the plain text while rendering, so annotations land on the right text
+interface RenderState {
+  offset: number;
+  annotations: MarkdownAnnotation[];
+}
+
+const renderText = (text: string, state: RenderState): React.ReactNode => {
+  const start = state.offset;
+  const end = start + text.length;
+  state.offset = end;
+  const overlapping = state.annotations.filter(annotation => annotation.start < end && annotation.end > start);
+  if (overlapping.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let position = start;
+  for (const annotation of overlapping) {
+    const from = Math.max(annotation.start, position);
+    const to = Math.min(annotation.end, end);
+    if (from >= to) continue;
+    if (from > position) parts.push(text.slice(position - start, from - start));
+    parts.push(
+      <mark key={from} title={annotation.note} className={`rounded px-0.5 ${ANNOTATION_CLASSES[annotation.tone]}`}>
+        {text.slice(from - start, to - start)}
+      </mark>
+    );
+    position = to;
+  }
+  if (position < end) parts.push(text.slice(position - start));
+  return parts;
+};
+
+// Ends a heading, paragraph, table row or code block in the plain text
+const endLine = (state: RenderState) => {
+  state.offset += 1;
+};
+
+const renderInline = (nodes: MarkdownInline[], state: RenderState): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={index}>{renderText(node.text, state)}</React.Fragment>;
+    case 'code':
+      return <code key={index} className="px-1 py-0.5 rounded bg-gray-900 text-pink-300 text-[0.9em] font-mono">{renderText(node.text, state)}</code>;
+    case 'strong':
+      return <strong key={index} className="font-semibold text-gray-100">{renderInline(node.children, state)}</strong>;
+    case 'emphasis':
+      return <em key={index}>{renderInline(node.children, state)}</em>;
+    case 'strike':
+      return <del key={index}>{renderInline(node.children, state)}</del>;
+    case 'link':
+      return (
+        <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-400 underline hover:text-blue-300">
+          {renderInline(node.children, state)}
+        </a>
+      );
+  }
+});
+
+const renderLine = (nodes: MarkdownInline[], state: RenderState): React.ReactNode[] => {
+  const rendered = renderInline(nodes, state);
+  endLine(state);
+  return rendered;
+};
+
+const renderRow = (row: MarkdownInline[][], state: RenderState): React.ReactNode[][] => {
+  const cells = row.map((cell, column) => {
+    if (column > 0) state.offset += TABLE_CELL_SEPARATOR.length;
+    return renderInline(cell, state);
+  });
+  endLine(state);
+  return cells;
+};
+
+const renderBlocks = (blocks: MarkdownBlock[], state: RenderState, tight: boolean = false): React.ReactNode[] => blocks.map((block, index) => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+      return <Heading key={index} className={`${HEADING_CLASSES[block.level - 1]} mt-4 mb-2 first:mt-0`}>{renderLine(block.children, state)}</Heading>;
+    }
+    case 'paragraph':
+      // Paragraphs inside tight list items sit flush with the bullet
+      return tight
+        ? <React.Fragment key={index}>{renderLine(block.children, state)}</React.Fragment>
+        : <p key={index} className="my-2 leading-relaxed">{renderLine(block.children, state)}</p>;
+    case 'code': {
+      const code = renderText(block.text, state);
+      endLine(state);
+      return (
+        <pre key={index} className="my-3 p-3 rounded-md bg-gray-900 border border-gray-700 overflow-x-auto text-sm">
+          <code className="font-mono text-gray-200" data-language={block.language || undefined}>{code}</code>
+        </pre>
+      );
+    }
+    case 'list': {
+      const items = block.items.map((item, itemIndex) => (
+        <li key={itemIndex} className="leading-relaxed">
+          {renderBlocks(item, state, item.length === 1 && item[0].type === 'paragraph')}
+        </li>
+      ));
+      return block.ordered
+        ? <ol key={index} start={block.start} className="my-2 ml-6 list-decimal space-y-1">{items}</ol>
+        : <ul key={index} className="my-2 ml-6 list-disc space-y-1">{items}</ul>;
+    }
+    case 'table': {
+      const header = renderRow(block.header, state);
+      const rows = block.rows.map(row => renderRow(row, state));
+      return (
+        <div key={index} className="my-3 overflow-x-auto">
+          <table className="min-w-full text-sm border border-gray-700">
+            <thead className="bg-gray-700">
+              <tr>
+                {header.map((cell, column) => (
+                  <th key={column} scope="col" className="px-3 py-2 font-semibold text-gray-100" style={{ textAlign: block.align[column] ?? 'left' }}>
+                    {cell}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, column) => (
+                    <td key={column} className="px-3 py-2" style={{ textAlign: block.align[column] ?? 'left' }}>{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+    case 'blockquote':
+      return <blockquote key={index} className="my-3 pl-4 border-l-4 border-gray-600 text-gray-300">{renderBlocks(block.children, state)}</blockquote>;
+    case 'rule':
+      return <hr key={index} className="my-4 border-gray-600" />;
+  }
+});
+
+const NO_ANNOTATIONS: MarkdownAnnotation[] = [];
+
+const MarkdownView: React.FC<MarkdownViewProps> = React.memo(({ markdown, className = '', annotations = NO_ANNOTATIONS }) => {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+  const sortedAnnotations = useMemo(() => [...annotations].sort((a, b) => a.start - b.start), [annotations]);
+  return <div className={`text-gray-200 break-words ${className}`}>{renderBlocks(blocks, { offset: 0, annotations: sortedAnnotations })}</div>;
+});
+
+export default MarkdownView;
@@ -0,0 +1,130 @@
+import React, { useState, useCallback } from 'react';
+import { SavedPortfolio } from '../types';
+
+interface PortfolioSwitcherProps {
+  portfolios: SavedPortfolio[];
+  activePortfolioId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onCopyShareLink: () => Promise<void>;
+  storageError: string | null;
+}
+
+const PortfolioSwitcher: React.FC<PortfolioSwitcherProps> = React.memo(({
+  portfolios,
+  activePortfolioId,
+  onOpen,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onCopyShareLink,
+  storageError,
+}) => {
+  const [shareLinkStatus, setShareLinkStatus] = useState<'idle' | 'copying' | 'copied'>('idle');
+  const activePortfolio = portfolios.find(portfolio => portfolio.id === activePortfolioId);
+
+  const askForName = (message: string, defaultName: string): string | null => {
+    const name = window.prompt(message, defaultName);
+    if (name === null) return null;
+    if (name.trim() === '') {
+      alert('Please enter a portfolio name.');
+      return null;
+    }
+    return name.trim();
+  };
+
+  const handleOpenChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    onOpen(e.target.value);
+  }, [onOpen]);
+
+  const handleCreateClick = useCallback(() => {
+    const name = askForName('Name for the new portfolio:', `Portfolio ${portfolios.length + 1}`);
+    if (name) onCreate(name);
+  }, [portfolios.length, onCreate]);
+
+  const handleDuplicateClick = useCallback(() => {
+    if (!activePortfolio) return;
+    const name = askForName('Name for the copy:', `${activePortfolio.name} (copy)`);
+    if (name) onDuplicate(name);
+  }, [activePortfolio, onDuplicate]);
+
+  const handleRenameClick = useCallback(() => {
+    if (!activePortfolio) return;
+    const name = askForName('Rename portfolio:', activePortfolio.name);
+    if (name) onRename(name);
+  }, [activePortfolio, onRename]);
+
+  const handleDeleteClick = useCallback(() => {
+    if (!activePortfolio) return;
+    if (window.confirm(`Delete "${activePortfolio.name}"? This cannot be undone.`)) {
+      onDelete();
+    }
+  }, [activePortfolio, onDelete]);
+
+  const handleCopyShareLinkClick = useCallback(async () => {
+    setShareLinkStatus('copying');
+    try {
+      await onCopyShareLink();
+      setShareLinkStatus('copied');
+      setTimeout(() => setShareLinkStatus('idle'), 2000);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('The share link could not be created.');
+      setShareLinkStatus('idle');
+    }
+  }, [onCopyShareLink]);
+
+  const buttonClassName = 'px-3 py-2 text-sm font-semibold rounded-md transition duration-150 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2';
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg shadow-xl">
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <label htmlFor="portfolioSelect" className="text-sm font-medium text-gray-300 whitespace-nowrap">Portfolio</label>
+        <select
+          id="portfolioSelect"
+          value={activePortfolioId ?? ''}
+          onChange={handleOpenChange}
+          className="flex-grow p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+        >
+          {portfolios.map(portfolio => (
+            <option key={portfolio.id} value={portfolio.id}>{portfolio.name}</option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleCreateClick} className={`${buttonClassName} bg-green-600 text-white hover:bg-green-700 focus:ring-green-500`}>
+            New
+          </button>
+          <button onClick={handleDuplicateClick} disabled={!activePortfolio} className={`${buttonClassName} bg-blue-600 text-white hover:bg-blue-700 focus:ring-blue-500`}>
+            Duplicate
+          </button>
+          <button onClick={handleRenameClick} disabled={!activePortfolio} className={`${buttonClassName} bg-gray-600 text-gray-100 hover:bg-gray-500 focus:ring-gray-400`}>
+            Rename
+          </button>
+          <button onClick={handleDeleteClick} disabled={!activePortfolio} className={`${buttonClassName} bg-red-600 text-white hover:bg-red-700 focus:ring-red-500`}>
+            Delete
+          </button>
+          <button
+            onClick={handleCopyShareLinkClick}
+            disabled={shareLinkStatus === 'copying'}
+            className={`${buttonClassName} bg-indigo-600 text-white hover:bg-indigo-700 focus:ring-indigo-500`}
+            aria-live="polite"
+          >
+            {shareLinkStatus === 'copied' ? 'Link Copied!' : 'Copy Share Link'}
+          </button>
+        </div>
+      </div>
+      {activePortfolio && !storageError && (
+        <p className="mt-2 text-xs text-gray-400">Changes are saved automatically · last updated {new Date(activePortfolio.updatedAt).toLocaleString()}</p>
+      )}
+      {storageError && (
+        <p className="mt-2 text-sm text-yellow-300" role="alert">{storageError}</p>
+      )}
+    </div>
+  );
+});
+
+export default PortfolioSwitcher;
@@ -0,0 +1,164 @@
+import React, { useState, useCallback } from 'react';
+import { InvestmentResult, Stock } from '../types';
+import {
+  projectGrowth,
+  DEFAULT_PROJECTION_SETTINGS,
+  ProjectionSettings,
+  ProjectionYear,
+  ContributionFrequency,
+} from '../services/projectionService';
+import { formatMoney } from '../services/currency';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+
+interface ProjectionPanelProps {
+  investmentResults: InvestmentResult[];
+  stocks: Stock[];
+  initialCash: number;
+  allocateContribution: (amount: number) => InvestmentResult[];
+  currency: string; // The base currency of every amount
+}
+
+const ProjectionPanel: React.FC<ProjectionPanelProps> = React.memo(({ investmentResults, stocks, initialCash, allocateContribution, currency }) => {
+  const [settings, setSettings] = useState<ProjectionSettings>(DEFAULT_PROJECTION_SETTINGS);
+  const [projection, setProjection] = useState<ProjectionYear[]>([]);
+  const [isProjecting, setIsProjecting] = useState<boolean>(false);
+
+  const handleNumberChange = useCallback((field: Exclude<keyof ProjectionSettings, 'contributionFrequency'>, value: string) => {
+    const parsed = parseFloat(value);
+    setSettings(prevSettings => ({ ...prevSettings, [field]: isNaN(parsed) ? 0 : parsed }));
+  }, []);
+
+  const handleFrequencyChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSettings(prevSettings => ({ ...prevSettings, contributionFrequency: e.target.value as ContributionFrequency }));
+  }, []);
+
+  const handleProjectClick = useCallback(() => {
+    if (settings.years < 1 || settings.years > 100) {
+      alert('Please enter a projection horizon between 1 and 100 years.');
+      return;
+    }
+    if (settings.contributionAmount < 0 || settings.annualWithdrawal < 0) {
+      alert('Contributions and withdrawals cannot be negative.');
+      return;
+    }
+    setIsProjecting(true);
+    // Defer so the "Projecting..." state renders before the projection blocks the main thread
+    setTimeout(() => {
+      setProjection(projectGrowth(investmentResults, stocks, initialCash, settings, allocateContribution));
+      setIsProjecting(false);
+    }, 0);
+  }, [investmentResults, stocks, initialCash, settings, allocateContribution]);
+
+  if (investmentResults.every(result => result.investedAmount <= 0)) {
+    return null;
+  }
+
+  const money = (value: number) => formatMoney(value, currency);
+  const inputClassName = 'w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100';
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <h2 className="text-2xl font-semibold mb-6 text-center text-blue-300">Growth Projection</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+        <label className="text-xs font-medium text-gray-300">
+          Years
+          <input type="number" value={settings.years} min="1" max="100" step="1"
+            onChange={(e) => handleNumberChange('years', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="text-xs font-medium text-gray-300">
+          Contribution ({currency})
+          <input type="number" value={settings.contributionAmount} min="0" step="any"
+            onChange={(e) => handleNumberChange('contributionAmount', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="text-xs font-medium text-gray-300">
+          Frequency
+          <select value={settings.contributionFrequency} onChange={handleFrequencyChange} className={inputClassName}>
+            <option value="monthly">Monthly</option>
+            <option value="annual">Annual</option>
+            <option value="none">No contributions</option>
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-300">
+          Annual Withdrawal ({currency})
+          <input type="number" value={settings.annualWithdrawal} min="0" step="any"
+            onChange={(e) => handleNumberChange('annualWithdrawal', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="text-xs font-medium text-gray-300">
+          Inflation (%)
+          <input type="number" value={settings.inflationRate} step="any"
+            onChange={(e) => handleNumberChange('inflationRate', e.target.value)} className={inputClassName} />
+        </label>
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        Contributions are allocated with the currently selected strategy and share mode. Position locks and maximum dollar amounts apply to the initial plan only.
+      </p>
+
+      <div className="flex justify-center">
+        <button
+          onClick={handleProjectClick}
+          disabled={isProjecting}
+          className={`w-full md:w-1/2 px-6 py-3 font-semibold rounded-md transition duration-150 ease-in-out
+            ${isProjecting
+              ? 'bg-gray-700 cursor-not-allowed text-gray-400'
+              : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+            }`}
+        >
+          {isProjecting ? 'Projecting...' : 'Project Growth'}
+        </button>
+      </div>
+
+      {projection.length > 0 && (
+        <>
+          <div className="h-64 sm:h-80 mt-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={projection} margin={{ top: 5, right: 20, bottom: 5, left: 20 }}>
+                <CartesianGrid stroke="#374151" />
+                <XAxis dataKey="year" stroke="#9CA3AF" tickFormatter={(value: number) => `Y${value}`} />
+                <YAxis stroke="#9CA3AF" tickFormatter={(value: number) => formatMoney(value, currency, 0)} width={90} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }}
+                  itemStyle={{ color: '#E5E7EB' }}
+                  formatter={(value: number) => money(value)}
+                  labelFormatter={(label) => `Year ${label}`}
+                />
+                <Legend wrapperStyle={{ color: '#E5E7EB' }} />
+                <Line type="monotone" dataKey="nominalValue" name="Nominal value" stroke="#00B9F1" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="realValue" name={`Real value (today's ${currency})`} stroke="#00C49F" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="totalContributed" name="Total contributed" stroke="#FFBB28" strokeDasharray="5 5" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto mt-6">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead className="bg-gray-700">
+                <tr>
+                  {['Year', `Contributions (${currency})`, `Withdrawals (${currency})`, `Total Contributed (${currency})`, `Nominal Value (${currency})`, `Real Value (${currency})`].map(heading => (
+                    <th key={heading} scope="col" className="px-4 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-gray-800 divide-y divide-gray-700">
+                {projection.map(row => (
+                  <tr key={row.year} className="hover:bg-gray-700">
+                    <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-200">{row.year}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{money(row.contributions)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{money(row.withdrawals)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{money(row.totalContributed)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{money(row.nominalValue)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-300">{money(row.realValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+export default ProjectionPanel;
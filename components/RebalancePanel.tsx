@@ -0,0 +1,149 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { BrokerProfile, InvestmentResult, Stock } from '../types';
+import { planRebalance, hasHoldings, DEFAULT_REBALANCE_SETTINGS, RebalanceSettings } from '../services/rebalanceService';
+import { formatMoney } from '../services/currency';
+
+interface RebalancePanelProps {
+  stocks: Stock[]; // Priced in the base currency
+  investmentResults: InvestmentResult[];
+  broker: BrokerProfile;
+  wholeShares: boolean;
+  currency: string; // The base currency
+}
+
+const formatShares = (shares: number) => parseFloat(shares.toFixed(6)).toString();
+
+const RebalancePanel: React.FC<RebalancePanelProps> = React.memo(({ stocks, investmentResults, broker, wholeShares, currency }) => {
+  const [settings, setSettings] = useState<RebalanceSettings>(DEFAULT_REBALANCE_SETTINGS);
+
+  const handleNumberChange = useCallback((field: 'newCash' | 'tolerance', value: string) => {
+    const parsed = parseFloat(value);
+    setSettings(prevSettings => ({ ...prevSettings, [field]: isNaN(parsed) || parsed < 0 ? 0 : parsed }));
+  }, []);
+
+  const handleBuyOnlyChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setSettings(prevSettings => ({ ...prevSettings, buyOnly: e.target.checked }));
+  }, []);
+
+  const plan = useMemo(
+    () => planRebalance(stocks, investmentResults, settings, broker, wholeShares),
+    [stocks, investmentResults, settings, broker, wholeShares],
+  );
+
+  if (!hasHoldings(stocks)) {
+    return null;
+  }
+
+  const inputClassName = 'w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100';
+  const headingClassName = 'px-4 py-2 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider';
+  const cellClassName = 'px-4 py-2 whitespace-nowrap text-sm text-gray-300';
+
+  return (
+    <div className="mt-8 pt-4 border-t border-gray-700">
+      <h3 className="text-xl font-medium mb-4 text-blue-300 text-center">Rebalance Current Holdings</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 items-end">
+        <label className="text-xs font-medium text-gray-300">
+          New Cash ({currency})
+          <input type="number" value={settings.newCash} min="0" step="any"
+            onChange={(e) => handleNumberChange('newCash', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="text-xs font-medium text-gray-300">
+          Tolerance Band (± % points)
+          <input type="number" value={settings.tolerance} min="0" step="any"
+            onChange={(e) => handleNumberChange('tolerance', e.target.value)} className={inputClassName}
+            disabled={settings.buyOnly} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300 pb-2">
+          <input
+            type="checkbox"
+            checked={settings.buyOnly}
+            onChange={handleBuyOnlyChange}
+            className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+          />
+          Buy only, no sells (invest new cash)
+        </label>
+      </div>
+      <p className="text-xs text-gray-400 mb-4">
+        Targets follow the weights of the allocation above, applied to your holdings plus new cash.
+        {settings.buyOnly
+          ? ' New cash goes to underweight positions first; the tolerance band does not apply.'
+          : ' Positions within the tolerance band of their target weight are left untouched.'}
+      </p>
+
+      {plan.warning && <p className="text-sm text-yellow-300 mb-4" aria-live="polite">{plan.warning}</p>}
+
+      <h4 className="text-lg font-medium mb-2 text-gray-200">Trades</h4>
+      {plan.trades.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-4">No trades needed.</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-700">
+              <tr>
+                {['Action', 'Stock', 'Shares', `Amount (${currency})`, `Fee (${currency})`].map(heading => (
+                  <th key={heading} scope="col" className={headingClassName}>{heading}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-gray-800 divide-y divide-gray-700">
+              {plan.trades.map(trade => (
+                <tr key={`${trade.action}-${trade.stockId}`} className="hover:bg-gray-700">
+                  <td className={`px-4 py-2 whitespace-nowrap text-sm font-semibold ${trade.action === 'buy' ? 'text-green-300' : 'text-red-300'}`}>
+                    {trade.action === 'buy' ? 'Buy' : 'Sell'}
+                  </td>
+                  <td className={cellClassName}>{trade.stockName}</td>
+                  <td className={cellClassName}>{formatShares(trade.shares)}</td>
+                  <td className={cellClassName}>{formatMoney(trade.amount, currency)}</td>
+                  <td className={cellClassName}>{formatMoney(trade.fee, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h4 className="text-lg font-medium mb-2 text-gray-200">Before and After</h4>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-700">
+          <thead className="bg-gray-700">
+            <tr>
+              {['Stock', 'Shares Before', `Value Before (${currency})`, 'Weight Before', 'Target Weight', 'Shares After', `Value After (${currency})`, 'Weight After'].map(heading => (
+                <th key={heading} scope="col" className={headingClassName}>{heading}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-gray-800 divide-y divide-gray-700">
+            {plan.positions.map(position => (
+              <tr key={position.stockId} className="hover:bg-gray-700">
+                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-200">{position.stockName}</td>
+                <td className={cellClassName}>{formatShares(position.beforeShares)}</td>
+                <td className={cellClassName}>{formatMoney(position.beforeValue, currency)}</td>
+                <td className={`px-4 py-2 whitespace-nowrap text-sm ${position.withinTolerance ? 'text-gray-300' : 'text-yellow-300'}`}>
+                  {position.beforeWeight.toFixed(1)}%
+                </td>
+                <td className={cellClassName}>{position.targetWeight.toFixed(1)}%</td>
+                <td className={cellClassName}>{formatShares(position.afterShares)}</td>
+                <td className={cellClassName}>{formatMoney(position.afterValue, currency)}</td>
+                <td className={cellClassName}>{position.afterWeight.toFixed(1)}%</td>
+              </tr>
+            ))}
+            <tr className="bg-gray-700/50">
+              <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-200">Cash</td>
+              <td className={cellClassName} />
+              <td className={cellClassName}>{formatMoney(plan.cashBefore, currency)}</td>
+              <td className={cellClassName} colSpan={3} />
+              <td className={cellClassName}>{formatMoney(plan.cashAfter, currency)}</td>
+              <td className={cellClassName} />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {plan.totalFees > 0 && (
+        <p className="mt-2 text-sm text-gray-400">Trading fees: <span className="font-semibold text-gray-200">{formatMoney(plan.totalFees, currency)}</span></p>
+      )}
+    </div>
+  );
+});
+
+export default RebalancePanel;
@@ -0,0 +1,246 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { InvestmentResult, Stock, CorrelationMatrix } from '../types';
+import {
+  runMonteCarloSimulation,
+  DEFAULT_SIMULATION_SETTINGS,
+  MAX_SIMULATION_PATHS,
+  SimulationSettings,
+  SimulationSummary,
+  ReturnAssumption,
+} from '../services/simulationService';
+import { DEFAULT_VOLATILITY } from '../services/meanVarianceOptimizer';
+import { formatMoney } from '../services/currency';
+import { ComposedChart, Area, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from 'recharts';
+
+interface SimulationPanelProps {
+  investmentResults: InvestmentResult[];
+  stocks: Stock[];
+  correlations: CorrelationMatrix;
+  currency: string; // The base currency of the invested amounts
+}
+
+type AssumptionDraft = Record<string, { expectedReturn: string; volatility: string }>;
+
+const SimulationPanel: React.FC<SimulationPanelProps> = React.memo(({ investmentResults, stocks, correlations, currency }) => {
+  const [settings, setSettings] = useState<SimulationSettings>(DEFAULT_SIMULATION_SETTINGS);
+  const [assumptionDraft, setAssumptionDraft] = useState<AssumptionDraft>({});
+  const [summary, setSummary] = useState<SimulationSummary | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const formatCompact = useCallback((value: number) => formatMoney(value, currency, 0), [currency]);
+
+  const investedStocks = useMemo(() =>
+    stocks.filter(stock => investmentResults.some(result => result.stockId === stock.id && result.investedAmount > 0)),
+  [stocks, investmentResults]);
+
+  // Assumptions default to each stock's own expected return and volatility unless overridden here
+  const assumptions = useMemo<ReturnAssumption[]>(() => investedStocks.map(stock => {
+    const draft = assumptionDraft[stock.id];
+    const expectedReturn = parseFloat(draft?.expectedReturn ?? '');
+    const volatility = parseFloat(draft?.volatility ?? '');
+    return {
+      stockId: stock.id,
+      expectedReturn: isNaN(expectedReturn) ? stock.expectedReturn : expectedReturn,
+      volatility: isNaN(volatility) || volatility < 0 ? (stock.volatility ?? DEFAULT_VOLATILITY) : volatility,
+    };
+  }), [investedStocks, assumptionDraft]);
+
+  const handleAssumptionChange = useCallback((stockId: string, field: 'expectedReturn' | 'volatility', value: string) => {
+    setAssumptionDraft(prevDraft => ({
+      ...prevDraft,
+      [stockId]: { expectedReturn: '', volatility: '', ...prevDraft[stockId], [field]: value },
+    }));
+  }, []);
+
+  const handleSettingChange = useCallback((field: keyof SimulationSettings, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    setSettings(prevSettings => ({ ...prevSettings, [field]: parsed }));
+  }, []);
+
+  const handleRunClick = useCallback(() => {
+    if (settings.paths < 1 || settings.horizonYears <= 0) {
+      alert('Please enter at least one path and a positive horizon.');
+      return;
+    }
+    setIsRunning(true);
+    // Defer so the "Running..." state renders before the simulation blocks the main thread
+    setTimeout(() => {
+      setSummary(runMonteCarloSimulation(investmentResults, assumptions, correlations, settings));
+      setIsRunning(false);
+    }, 0);
+  }, [investmentResults, assumptions, correlations, settings]);
+
+  const fanChartData = useMemo(() => summary?.bands.map(band => ({
+    year: band.year,
+    outer: [band.p5, band.p95],
+    inner: [band.p25, band.p75],
+    median: band.p50,
+  })) ?? [], [summary]);
+
+  const histogramData = useMemo(() => summary?.histogram.map(bin => ({
+    label: formatCompact((bin.from + bin.to) / 2),
+    count: bin.count,
+  })) ?? [], [summary, formatCompact]);
+
+  if (investedStocks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3 className="text-xl font-medium mb-4 text-blue-300 text-center">Monte Carlo Outcomes</h3>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <label className="text-xs text-gray-400">
+          Paths
+          <input
+            type="number"
+            value={settings.paths}
+            onChange={(e) => handleSettingChange('paths', e.target.value)}
+            min="1"
+            max={MAX_SIMULATION_PATHS}
+            step="100"
+            className="w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Horizon (years)
+          <input
+            type="number"
+            value={settings.horizonYears}
+            onChange={(e) => handleSettingChange('horizonYears', e.target.value)}
+            min="1"
+            step="1"
+            className="w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Seed
+          <input
+            type="number"
+            value={settings.seed}
+            onChange={(e) => handleSettingChange('seed', e.target.value)}
+            step="1"
+            className="w-full mt-1 p-2 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+          />
+        </label>
+      </div>
+
+      <details className="mb-3">
+        <summary className="cursor-pointer text-sm text-gray-300">Return assumptions</summary>
+        <table className="mt-2 min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-400">
+              <th className="text-left font-semibold py-1">Stock</th>
+              <th className="text-left font-semibold py-1">Return (%)</th>
+              <th className="text-left font-semibold py-1">Volatility (%)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {investedStocks.map(stock => {
+              const assumption = assumptions.find(a => a.stockId === stock.id)!;
+              return (
+                <tr key={stock.id}>
+                  <td className="py-1 text-gray-200">{stock.name}</td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      value={assumptionDraft[stock.id]?.expectedReturn ?? ''}
+                      onChange={(e) => handleAssumptionChange(stock.id, 'expectedReturn', e.target.value)}
+                      placeholder={assumption.expectedReturn.toString()}
+                      step="any"
+                      className="w-20 p-1 border border-gray-600 rounded-md text-sm bg-gray-700 text-gray-100 placeholder-gray-400"
+                      aria-label={`Simulated expected return for ${stock.name}`}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      value={assumptionDraft[stock.id]?.volatility ?? ''}
+                      onChange={(e) => handleAssumptionChange(stock.id, 'volatility', e.target.value)}
+                      placeholder={assumption.volatility.toString()}
+                      min="0"
+                      step="any"
+                      className="w-20 p-1 border border-gray-600 rounded-md text-sm bg-gray-700 text-gray-100 placeholder-gray-400"
+                      aria-label={`Simulated volatility for ${stock.name}`}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </details>
+
+      <button
+        onClick={handleRunClick}
+        disabled={isRunning}
+        className={`w-full px-4 py-2 text-sm font-semibold rounded-md transition duration-150 ease-in-out
+          ${isRunning
+            ? 'bg-gray-700 cursor-not-allowed text-gray-400'
+            : 'bg-indigo-600 text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2'
+          }`}
+      >
+        {isRunning ? 'Running...' : 'Run Simulation'}
+      </button>
+
+      {summary && (
+        <div className="mt-4 space-y-4" aria-live="polite">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 bg-red-900/30 rounded-lg">
+              <p className="text-xs text-gray-400">Probability of Loss</p>
+              <p className="text-lg font-bold text-red-300">{(summary.probabilityOfLoss * 100).toFixed(1)}%</p>
+            </div>
+            <div className="p-2 bg-green-900/30 rounded-lg">
+              <p className="text-xs text-gray-400">Median Final Value</p>
+              <p className="text-lg font-bold text-green-300">{formatCompact(summary.medianFinalValue)}</p>
+            </div>
+            <div className="p-2 bg-blue-900/30 rounded-lg">
+              <p className="text-xs text-gray-400">Mean Final Value</p>
+              <p className="text-lg font-bold text-blue-300">{formatCompact(summary.meanFinalValue)}</p>
+            </div>
+          </div>
+          {summary.warning && <p className="text-xs text-yellow-300">{summary.warning}</p>}
+
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={fanChartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                <CartesianGrid stroke="#374151" />
+                <XAxis dataKey="year" stroke="#9CA3AF" tickFormatter={(value: number) => `Y${value}`} />
+                <YAxis stroke="#9CA3AF" tickFormatter={formatCompact} width={70} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }}
+                  itemStyle={{ color: '#E5E7EB' }}
+                  formatter={(value: number | number[]) => Array.isArray(value)
+                    ? `${formatCompact(value[0])} – ${formatCompact(value[1])}`
+                    : formatCompact(value)}
+                />
+                <Area type="monotone" dataKey="outer" name="5th–95th percentile" stroke="none" fill="#00B9F1" fillOpacity={0.2} />
+                <Area type="monotone" dataKey="inner" name="25th–75th percentile" stroke="none" fill="#00B9F1" fillOpacity={0.4} />
+                <Line type="monotone" dataKey="median" name="Median" stroke="#FFBB28" dot={false} strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={histogramData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                <CartesianGrid stroke="#374151" />
+                <XAxis dataKey="label" stroke="#9CA3AF" interval="preserveStartEnd" minTickGap={30} />
+                <YAxis stroke="#9CA3AF" allowDecimals={false} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#374151', border: 'none', borderRadius: '4px' }}
+                  itemStyle={{ color: '#E5E7EB' }}
+                  formatter={(value: number) => `${value} paths`}
+                />
+                <Bar dataKey="count" name="Final value" fill="#00C49F" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SimulationPanel;
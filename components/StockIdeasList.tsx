@@ -0,0 +1,113 @@
+import React, { useState, useCallback } from 'react';
+import { StockCandidate } from '../types';
+import { formatMoney } from '../services/currency';
+
+interface StockIdeasListProps {
+  ideas: StockCandidate[];
+  issues: string[];
+  onAddIdeas: (ideas: StockCandidate[]) => void;
+  onDismiss: () => void;
+  currency: string; // Ideas are priced in the base currency
+}
+
+const StockIdeasList: React.FC<StockIdeasListProps> = React.memo(({ ideas, issues, onAddIdeas, onDismiss, currency }) => {
+  // Indexes of the selected ideas
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const handleToggle = useCallback((index: number) => {
+    setSelected(prevSelected => {
+      const nextSelected = new Set(prevSelected);
+      if (nextSelected.has(index)) {
+        nextSelected.delete(index);
+      } else {
+        nextSelected.add(index);
+      }
+      return nextSelected;
+    });
+  }, []);
+
+  const handleAddSelectedClick = useCallback(() => {
+    onAddIdeas(ideas.filter((_idea, index) => selected.has(index)));
+    setSelected(new Set());
+  }, [ideas, selected, onAddIdeas]);
+
+  const handleAddOneClick = useCallback((idea: StockCandidate) => {
+    onAddIdeas([idea]);
+    setSelected(new Set());
+  }, [onAddIdeas]);
+
+  if (ideas.length === 0 && issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-medium text-blue-300">Stock Ideas</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAddSelectedClick}
+            disabled={selected.size === 0}
+            className={`px-4 py-2 text-sm font-semibold rounded-md transition duration-150 ease-in-out
+              ${selected.size === 0
+                ? 'bg-gray-700 cursor-not-allowed text-gray-400'
+                : 'bg-green-600 text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2'
+              }`}
+          >
+            Add Selected ({selected.size})
+          </button>
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 text-sm font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 transition duration-150 ease-in-out"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-900/30 border border-yellow-700 rounded-md" aria-live="polite">
+          <p className="text-sm font-semibold text-yellow-300 mb-1">Some ideas failed validation and were left out:</p>
+          <ul className="text-xs text-yellow-200 list-disc list-inside space-y-1">
+            {issues.map((issue, index) => <li key={index}>{issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {ideas.map((idea, index) => (
+          <div
+            key={`${idea.name}-${index}`}
+            className={`p-4 rounded-lg border transition duration-150 ease-in-out ${selected.has(index) ? 'border-blue-500 bg-blue-900/30' : 'border-gray-700 bg-gray-900/40'}`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(index)}
+                  onChange={() => handleToggle(index)}
+                  className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500"
+                />
+                <span className="font-semibold text-gray-100">{idea.name}</span>
+              </label>
+              <button
+                onClick={() => handleAddOneClick(idea)}
+                className="px-3 py-1 bg-blue-500 text-white rounded-md text-xs font-semibold hover:bg-blue-600 transition"
+                aria-label={`Add ${idea.name} to your stocks`}
+              >
+                Add
+              </button>
+            </div>
+            <p className="mt-2 text-sm text-gray-300">
+              {formatMoney(idea.price, currency)} · {idea.expectedReturn.toFixed(2)}% return
+              {idea.volatility !== undefined && ` · ${idea.volatility.toFixed(1)}% volatility`}
+            </p>
+            {idea.rationale && <p className="mt-1 text-xs text-gray-400">{idea.rationale}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export default StockIdeasList;
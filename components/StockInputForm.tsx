@@ -1,13 +1,26 @@
 import React, { useState, useCallback } from 'react';
-import { Stock } from '../types';
+import { Stock, AllocationStrategyId, ShareMode, MeanVarianceSettings, MeanVarianceObjective, CurrencySettings, RoundingMode, RoundingPolicy } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { ALLOCATION_STRATEGIES, getAllocationStrategy, MEAN_VARIANCE_OBJECTIVE_LABELS } from '../services/allocationService';
+import { parseOptionalStockFields } from '../services/stockFields';
+import { getCurrencyOptions } from '../services/currency';
+import { ROUNDING_MODE_LABELS } from '../services/money';
 
 interface StockInputFormProps {
   budget: number;
   setBudget: (budget: number) => void;
   stocks: Stock[];
   setStocks: (stocks: Stock[]) => void;
+  currency: CurrencySettings;
   onCalculate: () => void;
+  strategyId: AllocationStrategyId;
+  onStrategyChange: (strategyId: AllocationStrategyId) => void;
+  shareMode: ShareMode;
+  onShareModeChange: (shareMode: ShareMode) => void;
+  rounding: RoundingPolicy;
+  onRoundingChange: (rounding: RoundingPolicy) => void;
+  meanVariance: MeanVarianceSettings;
+  onMeanVarianceChange: (settings: MeanVarianceSettings) => void;
   onGenerateIdeas: (description: string) => void;
   isCalculating: boolean;
   isGeneratingIdeas: boolean;
@@ -18,43 +31,103 @@ const StockInputForm: React.FC<StockInputFormProps> = React.memo(({
   setBudget,
   stocks,
   setStocks,
+  currency,
   onCalculate,
+  strategyId,
+  onStrategyChange,
+  shareMode,
+  onShareModeChange,
+  rounding,
+  onRoundingChange,
+  meanVariance,
+  onMeanVarianceChange,
   onGenerateIdeas,
   isCalculating,
   isGeneratingIdeas,
 }) => {
   const [newStockName, setNewStockName] = useState<string>('');
   const [newStockPrice, setNewStockPrice] = useState<string>('');
+  // Empty for the base currency, so the stock follows a later change of base currency
+  const [newStockCurrency, setNewStockCurrency] = useState<string>('');
   const [newStockReturn, setNewStockReturn] = useState<string>('');
+  const [newStockTargetWeight, setNewStockTargetWeight] = useState<string>('');
+  const [newStockVolatility, setNewStockVolatility] = useState<string>('');
+  const [newStockMinWeight, setNewStockMinWeight] = useState<string>('');
+  const [newStockMaxWeight, setNewStockMaxWeight] = useState<string>('');
+  const [newStockMaxAmount, setNewStockMaxAmount] = useState<string>('');
+  const [newStockCurrentShares, setNewStockCurrentShares] = useState<string>('');
   const [ideaDescription, setIdeaDescription] = useState<string>('');
 
   const handleAddStock = useCallback(() => {
     const price = parseFloat(newStockPrice);
     const expectedReturn = parseFloat(newStockReturn);
+    const { values: optionalFields, error: optionalFieldError } = parseOptionalStockFields({
+      targetWeight: newStockTargetWeight,
+      volatility: newStockVolatility,
+      minWeight: newStockMinWeight,
+      maxWeight: newStockMaxWeight,
+      maxAmount: newStockMaxAmount,
+      currentShares: newStockCurrentShares,
+    });
 
     if (newStockName.trim() === '' || isNaN(price) || price <= 0 || isNaN(expectedReturn) || expectedReturn < 0) {
       alert('Please enter a valid stock name, positive price, and non-negative return.');
       return;
     }
 
+    if (optionalFieldError) {
+      alert(optionalFieldError);
+      return;
+    }
+
     const newStock: Stock = {
       id: uuidv4(),
       name: newStockName.trim(),
       price: price,
       expectedReturn: expectedReturn,
+      ...(newStockCurrency && newStockCurrency !== currency.baseCurrency ? { currency: newStockCurrency } : {}),
+      ...optionalFields,
     };
 
     setStocks([...stocks, newStock]);
     setNewStockName('');
     setNewStockPrice('');
+    setNewStockCurrency('');
     setNewStockReturn('');
-  }, [newStockName, newStockPrice, newStockReturn, stocks, setStocks]);
+    setNewStockTargetWeight('');
+    setNewStockVolatility('');
+    setNewStockMinWeight('');
+    setNewStockMaxWeight('');
+    setNewStockMaxAmount('');
+    setNewStockCurrentShares('');
+  }, [newStockName, newStockPrice, newStockCurrency, currency.baseCurrency, newStockReturn, newStockTargetWeight, newStockVolatility, newStockMinWeight, newStockMaxWeight, newStockMaxAmount, newStockCurrentShares, stocks, setStocks]);
 
   const handleBudgetChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
     setBudget(isNaN(value) ? 0 : value);
   }, [setBudget]);
 
+  const handleStrategyChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    onStrategyChange(e.target.value as AllocationStrategyId);
+  }, [onStrategyChange]);
+
+  const handleMeanVarianceObjectiveChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    onMeanVarianceChange({ ...meanVariance, objective: e.target.value as MeanVarianceObjective });
+  }, [meanVariance, onMeanVarianceChange]);
+
+  const handleMeanVarianceNumberChange = useCallback((field: 'targetReturn' | 'riskFreeRate', value: string) => {
+    const parsed = parseFloat(value);
+    onMeanVarianceChange({ ...meanVariance, [field]: isNaN(parsed) ? 0 : parsed });
+  }, [meanVariance, onMeanVarianceChange]);
+
+  const handleShareModeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    onShareModeChange(e.target.checked ? 'whole' : 'fractional');
+  }, [onShareModeChange]);
+
+  const handleRoundingChange = useCallback((field: keyof RoundingPolicy, value: string) => {
+    onRoundingChange({ ...rounding, [field]: value as RoundingMode });
+  }, [rounding, onRoundingChange]);
+
   const handleIdeaDescriptionChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setIdeaDescription(e.target.value);
   }, []);
@@ -73,7 +146,7 @@ const StockInputForm: React.FC<StockInputFormProps> = React.memo(({
 
       <div className="mb-6">
         <label htmlFor="budget" className="block text-sm font-medium text-gray-300 mb-2">
-          Total Investment Budget ($)
+          Total Investment Budget ({currency.baseCurrency})
         </label>
         <input
           type="number"
@@ -89,7 +162,7 @@ const StockInputForm: React.FC<StockInputFormProps> = React.memo(({
 
       <div className="mb-6">
         <h3 className="text-xl font-medium mb-4 text-blue-300">Add New Stock</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
           <div>
             <label htmlFor="stockName" className="block text-xs font-medium text-gray-300 mb-1">
               Stock Name
@@ -105,18 +178,31 @@ const StockInputForm: React.FC<StockInputFormProps> = React.memo(({
           </div>
           <div>
             <label htmlFor="stockPrice" className="block text-xs font-medium text-gray-300 mb-1">
-              Price per Share ($)
+              Price per Share
             </label>
-            <input
-              type="number"
-              id="stockPrice"
-              value={newStockPrice}
-              onChange={(e) => setNewStockPrice(e.target.value)}
-              min="0.01"
-              step="any"
-              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
-              placeholder="e.g., 150.75"
-            />
+            <div className="flex gap-1">
+              <input
+                type="number"
+                id="stockPrice"
+                value={newStockPrice}
+                onChange={(e) => setNewStockPrice(e.target.value)}
+                min="0.01"
+                step="any"
+                className="w-full min-w-0 p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+                placeholder="e.g., 150.75"
+              />
+              <select
+                value={newStockCurrency}
+                onChange={(e) => setNewStockCurrency(e.target.value)}
+                className="p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 text-sm"
+                aria-label="Price currency"
+              >
+                <option value="">{currency.baseCurrency}</option>
+                {getCurrencyOptions(currency).filter(code => code !== currency.baseCurrency).map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
           </div>
           <div>
             <label htmlFor="stockReturn" className="block text-xs font-medium text-gray-300 mb-1">
@@ -133,6 +219,102 @@ const StockInputForm: React.FC<StockInputFormProps> = React.memo(({
               placeholder="e.g., 10.5"
             />
           </div>
+          <div>
+            <label htmlFor="stockVolatility" className="block text-xs font-medium text-gray-300 mb-1">
+              Volatility (%) <span className="text-gray-500">optional</span>
+            </label>
+            <input
+              type="number"
+              id="stockVolatility"
+              value={newStockVolatility}
+              onChange={(e) => setNewStockVolatility(e.target.value)}
+              min="0"
+              step="any"
+              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              placeholder="e.g., 22"
+            />
+          </div>
+          <div>
+            <label htmlFor="stockTargetWeight" className="block text-xs font-medium text-gray-300 mb-1">
+              Target Weight (%) <span className="text-gray-500">optional</span>
+            </label>
+            <input
+              type="number"
+              id="stockTargetWeight"
+              value={newStockTargetWeight}
+              onChange={(e) => setNewStockTargetWeight(e.target.value)}
+              min="0"
+              max="100"
+              step="any"
+              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              placeholder="e.g., 25"
+            />
+          </div>
+        </div>
+        <p className="text-xs font-medium text-gray-400 mb-2">Position Constraints and Holdings <span className="text-gray-500">(optional)</span></p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label htmlFor="stockMinWeight" className="block text-xs font-medium text-gray-300 mb-1">
+              Min Weight (%)
+            </label>
+            <input
+              type="number"
+              id="stockMinWeight"
+              value={newStockMinWeight}
+              onChange={(e) => setNewStockMinWeight(e.target.value)}
+              min="0"
+              max="100"
+              step="any"
+              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              placeholder="e.g., 5"
+            />
+          </div>
+          <div>
+            <label htmlFor="stockMaxWeight" className="block text-xs font-medium text-gray-300 mb-1">
+              Max Weight (%)
+            </label>
+            <input
+              type="number"
+              id="stockMaxWeight"
+              value={newStockMaxWeight}
+              onChange={(e) => setNewStockMaxWeight(e.target.value)}
+              min="0"
+              max="100"
+              step="any"
+              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              placeholder="e.g., 40"
+            />
+          </div>
+          <div>
+            <label htmlFor="stockMaxAmount" className="block text-xs font-medium text-gray-300 mb-1">
+              Max Amount ({currency.baseCurrency})
+            </label>
+            <input
+              type="number"
+              id="stockMaxAmount"
+              value={newStockMaxAmount}
+              onChange={(e) => setNewStockMaxAmount(e.target.value)}
+              min="0"
+              step="any"
+              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              placeholder="e.g., 2500"
+            />
+          </div>
+          <div>
+            <label htmlFor="stockCurrentShares" className="block text-xs font-medium text-gray-300 mb-1">
+              Shares Held
+            </label>
+            <input
+              type="number"
+              id="stockCurrentShares"
+              value={newStockCurrentShares}
+              onChange={(e) => setNewStockCurrentShares(e.target.value)}
+              min="0"
+              step="any"
+              className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+              placeholder="e.g., 12"
+            />
+          </div>
         </div>
         <button
           onClick={handleAddStock}
@@ -142,11 +324,129 @@ const StockInputForm: React.FC<StockInputFormProps> = React.memo(({
         </button>
       </div>
 
-      <div className="flex justify-center mt-8 pt-4 border-t border-gray-700">
+      <div className="flex flex-col md:flex-row items-stretch justify-center gap-4 mt-8 pt-4 border-t border-gray-700">
+        <div className="w-full md:w-1/3">
+          <label htmlFor="allocationStrategy" className="block text-xs font-medium text-gray-300 mb-1">
+            Allocation Strategy
+          </label>
+          <select
+            id="allocationStrategy"
+            value={strategyId}
+            onChange={handleStrategyChange}
+            disabled={isCalculating}
+            className="w-full p-3 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+            aria-describedby="allocationStrategyDescription"
+          >
+            {ALLOCATION_STRATEGIES.map(strategy => (
+              <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+            ))}
+          </select>
+          <p id="allocationStrategyDescription" className="mt-1 text-xs text-gray-400">
+            {getAllocationStrategy(strategyId).description}
+          </p>
+          {strategyId === 'mean-variance' && (
+            <div className="mt-3 space-y-2">
+              <div>
+                <label htmlFor="meanVarianceObjective" className="block text-xs font-medium text-gray-300 mb-1">
+                  Optimization Objective
+                </label>
+                <select
+                  id="meanVarianceObjective"
+                  value={meanVariance.objective}
+                  onChange={handleMeanVarianceObjectiveChange}
+                  disabled={isCalculating}
+                  className="w-full p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 text-sm"
+                >
+                  {(Object.keys(MEAN_VARIANCE_OBJECTIVE_LABELS) as MeanVarianceObjective[]).map(objective => (
+                    <option key={objective} value={objective}>{MEAN_VARIANCE_OBJECTIVE_LABELS[objective]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor="meanVarianceTargetReturn" className="block text-xs font-medium text-gray-300 mb-1">
+                    Target Return (%)
+                  </label>
+                  <input
+                    type="number"
+                    id="meanVarianceTargetReturn"
+                    value={meanVariance.targetReturn}
+                    onChange={(e) => handleMeanVarianceNumberChange('targetReturn', e.target.value)}
+                    disabled={isCalculating || meanVariance.objective !== 'target-return'}
+                    step="any"
+                    className="w-full p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 text-sm disabled:text-gray-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="meanVarianceRiskFree" className="block text-xs font-medium text-gray-300 mb-1">
+                    Risk-Free Rate (%)
+                  </label>
+                  <input
+                    type="number"
+                    id="meanVarianceRiskFree"
+                    value={meanVariance.riskFreeRate}
+                    onChange={(e) => handleMeanVarianceNumberChange('riskFreeRate', e.target.value)}
+                    disabled={isCalculating}
+                    step="any"
+                    className="w-full p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <label htmlFor="wholeSharesOnly" className="mt-3 flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              id="wholeSharesOnly"
+              checked={shareMode === 'whole'}
+              onChange={handleShareModeChange}
+              disabled={isCalculating}
+              className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            Whole shares only <span className="text-xs text-gray-500">(broker without fractional shares)</span>
+          </label>
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="shareRounding" className="block text-xs font-medium text-gray-300 mb-1">
+                Share Rounding
+              </label>
+              <select
+                id="shareRounding"
+                value={rounding.shares}
+                onChange={(e) => handleRoundingChange('shares', e.target.value)}
+                disabled={isCalculating}
+                className="w-full p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 text-sm"
+              >
+                {(Object.keys(ROUNDING_MODE_LABELS) as RoundingMode[]).map(mode => (
+                  <option key={mode} value={mode}>{ROUNDING_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="cashRounding" className="block text-xs font-medium text-gray-300 mb-1">
+                Cash Rounding
+              </label>
+              <select
+                id="cashRounding"
+                value={rounding.cash}
+                onChange={(e) => handleRoundingChange('cash', e.target.value)}
+                disabled={isCalculating}
+                className="w-full p-2 border border-gray-600 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 text-sm"
+              >
+                {(Object.keys(ROUNDING_MODE_LABELS) as RoundingMode[]).map(mode => (
+                  <option key={mode} value={mode}>{ROUNDING_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-gray-400">
+            Amounts are settled to the smallest unit of {currency.baseCurrency}. If rounding up would overspend the budget, the plan rounds down instead.
+          </p>
+        </div>
         <button
           onClick={onCalculate}
           disabled={stocks.length === 0 || budget <= 0 || isCalculating}
-          className={`w-full md:w-2/3 px-8 py-4 text-lg font-semibold rounded-md transition duration-300 ease-in-out
+          className={`w-full md:w-2/3 md:self-start md:mt-5 px-8 py-4 text-lg font-semibold rounded-md transition duration-300 ease-in-out
             ${stocks.length === 0 || budget <= 0 || isCalculating
               ? 'bg-gray-700 cursor-not-allowed text-gray-400'
               : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
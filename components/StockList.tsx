@@ -1,16 +1,77 @@
-import React, { useCallback } from 'react';
-import { Stock } from '../types';
+import React, { useState, useCallback } from 'react';
+import { Stock, CurrencySettings } from '../types';
+import { hasPositionConstraints } from '../services/positionConstraints';
+import { OptionalStockField, EMPTY_OPTIONAL_FIELDS, parseOptionalStockFields } from '../services/stockFields';
+import { formatMoney, getStockCurrency, getFxRate, getCurrencyOptions } from '../services/currency';
 
 interface StockListProps {
   stocks: Stock[];
+  currency: CurrencySettings;
   onRemoveStock: (id: string) => void;
+  onUpdateStock: (id: string, changes: Partial<Stock>) => void;
+  onToggleLock: (id: string) => void;
 }
 
-const StockList: React.FC<StockListProps> = React.memo(({ stocks, onRemoveStock }) => {
+/**
+ * Summarizes a stock's position constraints for display.
+ * @param stock The stock to describe.
+ * @param baseCurrency The currency of the locked and maximum amounts.
+ * @returns A short, human-readable list of its limits, or a dash when there are none.
+ */
+const describeConstraints = (stock: Stock, baseCurrency: string): string => {
+  if (!hasPositionConstraints(stock)) return '—';
+  const parts: string[] = [];
+  if (stock.lockedAmount !== undefined) parts.push(`locked at ${formatMoney(stock.lockedAmount, baseCurrency)}`);
+  if (stock.minWeight !== undefined) parts.push(`min ${stock.minWeight}%`);
+  if (stock.maxWeight !== undefined) parts.push(`max ${stock.maxWeight}%`);
+  if (stock.maxAmount !== undefined) parts.push(`≤ ${formatMoney(stock.maxAmount, baseCurrency)}`);
+  return parts.join(' · ');
+};
+
+const StockList: React.FC<StockListProps> = React.memo(({ stocks, currency, onRemoveStock, onUpdateStock, onToggleLock }) => {
+  const [editingStockId, setEditingStockId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Record<OptionalStockField, string>>(EMPTY_OPTIONAL_FIELDS);
+  const [draftCurrency, setDraftCurrency] = useState<string>(currency.baseCurrency);
+  const { baseCurrency } = currency;
+
   const handleRemoveClick = useCallback((id: string) => {
     onRemoveStock(id);
   }, [onRemoveStock]);
 
+  const handleEditClick = useCallback((stock: Stock) => {
+    setEditingStockId(stock.id);
+    setDraft({
+      targetWeight: stock.targetWeight?.toString() ?? '',
+      volatility: stock.volatility?.toString() ?? '',
+      minWeight: stock.minWeight?.toString() ?? '',
+      maxWeight: stock.maxWeight?.toString() ?? '',
+      maxAmount: stock.maxAmount?.toString() ?? '',
+      currentShares: stock.currentShares?.toString() ?? '',
+    });
+    setDraftCurrency(getStockCurrency(stock, baseCurrency));
+  }, [baseCurrency]);
+
+  const handleCancelClick = useCallback(() => {
+    setEditingStockId(null);
+    setDraft(EMPTY_OPTIONAL_FIELDS);
+  }, []);
+
+  const handleSaveClick = useCallback((id: string) => {
+    const { values, error } = parseOptionalStockFields(draft);
+    if (error) {
+      alert(error);
+      return;
+    }
+    // Prices in the base currency don't record it, so they follow a change of base currency
+    onUpdateStock(id, { ...values, currency: draftCurrency === baseCurrency ? undefined : draftCurrency });
+    setEditingStockId(null);
+    setDraft(EMPTY_OPTIONAL_FIELDS);
+  }, [draft, draftCurrency, baseCurrency, onUpdateStock]);
+
+  const handleDraftChange = useCallback((field: OptionalStockField, value: string) => {
+    setDraft(prevDraft => ({ ...prevDraft, [field]: value }));
+  }, []);
+
   if (stocks.length === 0) {
     return (
       <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6 text-center text-gray-400">
@@ -19,6 +80,21 @@ const StockList: React.FC<StockListProps> = React.memo(({ stocks, onRemoveStock
     );
   }
 
+  const draftInput = (field: OptionalStockField, label: string, stockName: string) => (
+    <label className="flex items-center gap-1 text-xs text-gray-400">
+      {label}
+      <input
+        type="number"
+        value={draft[field]}
+        onChange={(e) => handleDraftChange(field, e.target.value)}
+        min="0"
+        step="any"
+        className="w-20 p-1 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100 placeholder-gray-400"
+        aria-label={`${label} for ${stockName}`}
+      />
+    </label>
+  );
+
   return (
     <div className="bg-gray-800 p-6 rounded-lg shadow-xl mb-6">
       <h2 className="text-2xl font-semibold mb-6 text-center text-blue-300">Available Stocks</h2>
@@ -30,7 +106,7 @@ const StockList: React.FC<StockListProps> = React.memo(({ stocks, onRemoveStock
                 Name
               </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
-                Price ($)
+                Price
               </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                 Expected Return (%)
@@ -38,27 +114,117 @@ const StockList: React.FC<StockListProps> = React.memo(({ stocks, onRemoveStock
               <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
                 Return/Price Ratio
               </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                Volatility (%)
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                Target Weight (%)
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                Constraints
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-gray-300 uppercase tracking-wider">
+                Shares Held
+              </th>
               <th scope="col" className="relative px-6 py-3">
-                <span className="sr-only">Remove</span>
+                <span className="sr-only">Actions</span>
               </th>
             </tr>
           </thead>
           <tbody className="bg-gray-800 divide-y divide-gray-700">
-            {stocks.map((stock) => (
+            {stocks.map((stock) => {
+              const stockCurrency = getStockCurrency(stock, baseCurrency);
+              const rate = getFxRate(currency.fxRates, stockCurrency, baseCurrency);
+              return (
               <tr key={stock.id} className="hover:bg-gray-700">
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-200">
                   {stock.name}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                  ${stock.price.toFixed(2)}
+                  {formatMoney(stock.price, stockCurrency)}
+                  {stockCurrency !== baseCurrency && (
+                    <span className={`block text-xs ${rate === undefined ? 'text-yellow-300' : 'text-gray-400'}`}>
+                      {rate === undefined ? `No ${stockCurrency}/${baseCurrency} rate` : `≈ ${formatMoney(stock.price * rate, baseCurrency)}`}
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
                   {stock.expectedReturn.toFixed(2)}%
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                  {(stock.expectedReturn / stock.price).toFixed(4)}
+                  {rate === undefined ? '—' : (stock.expectedReturn / (stock.price * rate)).toFixed(4)}
                 </td>
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                {editingStockId === stock.id ? (
+                  <td colSpan={4} className="px-6 py-4 text-sm text-gray-300">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <label className="flex items-center gap-1 text-xs text-gray-400">
+                        Currency
+                        <select
+                          value={draftCurrency}
+                          onChange={(e) => setDraftCurrency(e.target.value)}
+                          className="p-1 border border-gray-600 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 bg-gray-700 text-gray-100"
+                          aria-label={`Price currency for ${stock.name}`}
+                        >
+                          {getCurrencyOptions(currency, [stock]).map(code => (
+                            <option key={code} value={code}>{code}</option>
+                          ))}
+                        </select>
+                      </label>
+                      {draftInput('volatility', 'Vol %', stock.name)}
+                      {draftInput('targetWeight', 'Target %', stock.name)}
+                      {draftInput('minWeight', 'Min %', stock.name)}
+                      {draftInput('maxWeight', 'Max %', stock.name)}
+                      {draftInput('maxAmount', `Max ${baseCurrency}`, stock.name)}
+                      {draftInput('currentShares', 'Held', stock.name)}
+                      <button
+                        onClick={() => handleSaveClick(stock.id)}
+                        className="px-3 py-1 bg-green-600 text-white rounded-md text-xs font-semibold hover:bg-green-700 transition"
+                        aria-label={`Save changes for ${stock.name}`}
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={handleCancelClick}
+                        className="px-3 py-1 bg-gray-600 text-gray-200 rounded-md text-xs font-semibold hover:bg-gray-500 transition"
+                        aria-label="Cancel editing"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </td>
+                ) : (
+                  <>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {stock.volatility !== undefined ? `${stock.volatility.toFixed(2)}%` : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {stock.targetWeight !== undefined ? `${stock.targetWeight.toFixed(2)}%` : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {describeConstraints(stock, baseCurrency)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {stock.currentShares !== undefined ? stock.currentShares.toString() : '—'}
+                    </td>
+                  </>
+                )}
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                  {editingStockId !== stock.id && (
+                    <button
+                      onClick={() => handleEditClick(stock)}
+                      className="text-blue-400 hover:text-blue-300 transition duration-150 ease-in-out font-semibold text-sm"
+                      aria-label={`Edit currency, volatility, weights, limits and holdings for ${stock.name}`}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onToggleLock(stock.id)}
+                    className="text-yellow-400 hover:text-yellow-300 transition duration-150 ease-in-out font-semibold text-sm"
+                    aria-label={stock.lockedAmount !== undefined ? `Unlock ${stock.name}` : `Lock ${stock.name} at its current amount`}
+                  >
+                    {stock.lockedAmount !== undefined ? 'Unlock' : 'Lock'}
+                  </button>
                   <button
                     onClick={() => handleRemoveClick(stock.id)}
                     className="text-red-500 hover:text-red-400 transition duration-150 ease-in-out font-semibold text-sm"
@@ -67,7 +233,8 @@ const StockList: React.FC<StockListProps> = React.memo(({ stocks, onRemoveStock
                   </button>
                 </td>
               </tr>
-            ))}
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -75,4 +242,4 @@ const StockList: React.FC<StockListProps> = React.memo(({ stocks, onRemoveStock
   );
 });
 
-export default StockList;
\ No newline at end of file
+export default StockList;
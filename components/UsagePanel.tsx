@@ -0,0 +1,72 @@
+import React from 'react';
+import { ModelUsage } from '../services/llmUsage';
+
+interface UsagePanelProps {
+  usage: ModelUsage[];
+  onReset: () => void;
+}
+
+const UsagePanel: React.FC<UsagePanelProps> = React.memo(({ usage, onReset }) => {
+  const totals = usage.reduce((sum, model) => ({
+    requests: sum.requests + model.requests,
+    cachedRequests: sum.cachedRequests + model.cachedRequests,
+    failedRequests: sum.failedRequests + model.failedRequests,
+    promptTokens: sum.promptTokens + model.promptTokens,
+    outputTokens: sum.outputTokens + model.outputTokens,
+    totalTokens: sum.totalTokens + model.totalTokens,
+  }), { requests: 0, cachedRequests: 0, failedRequests: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 });
+
+  return (
+    <details className="mt-6 bg-gray-900/40 rounded-md border border-gray-700">
+      <summary className="cursor-pointer px-4 py-2 text-sm font-semibold text-gray-300">
+        AI Usage This Session ({totals.requests} requests, {totals.totalTokens.toLocaleString()} tokens)
+      </summary>
+      <div className="px-4 pb-4">
+        {usage.length === 0 ? (
+          <p className="text-sm text-gray-400">No AI requests yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-gray-200">
+              <thead>
+                <tr className="text-xs uppercase tracking-wider text-gray-400">
+                  <th scope="col" className="py-2 pr-4 text-left">Model</th>
+                  <th scope="col" className="py-2 px-2 text-right">Requests</th>
+                  <th scope="col" className="py-2 px-2 text-right">Cached</th>
+                  <th scope="col" className="py-2 px-2 text-right">Failed</th>
+                  <th scope="col" className="py-2 px-2 text-right">Prompt Tokens</th>
+                  <th scope="col" className="py-2 px-2 text-right">Output Tokens</th>
+                  <th scope="col" className="py-2 pl-2 text-right">Total Tokens</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {[...usage, { model: 'Total', ...totals }].map(row => (
+                  <tr key={row.model} className={row.model === 'Total' ? 'font-semibold' : ''}>
+                    <td className="py-2 pr-4">{row.model}</td>
+                    <td className="py-2 px-2 text-right">{row.requests}</td>
+                    <td className="py-2 px-2 text-right">{row.cachedRequests}</td>
+                    <td className="py-2 px-2 text-right">{row.failedRequests}</td>
+                    <td className="py-2 px-2 text-right">{row.promptTokens.toLocaleString()}</td>
+                    <td className="py-2 px-2 text-right">{row.outputTokens.toLocaleString()}</td>
+                    <td className="py-2 pl-2 text-right">{row.totalTokens.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex items-center justify-between mt-3 gap-2">
+          <p className="text-xs text-gray-400">Cached answers are reused for identical requests and use no tokens.</p>
+          <button
+            onClick={onReset}
+            disabled={usage.length === 0}
+            className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-600 text-gray-200 hover:bg-gray-500 transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+});
+
+export default UsagePanel;
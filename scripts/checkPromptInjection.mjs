@@ -0,0 +1,23 @@
+// Runs the prompt-injection regression corpus (services/promptInjectionCorpus.ts) against the
+// mock model. Vite compiles the TypeScript, so no extra tooling is needed.
+import { createServer } from 'vite';
+
+const server = await createServer({
+  configFile: false,
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+});
+
+try {
+  const { checkPromptInjectionCorpus, PROMPT_INJECTION_CORPUS } = await server.ssrLoadModule('/services/promptInjectionCorpus.ts');
+  const failures = await checkPromptInjectionCorpus();
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`✗ ${failure}`));
+    process.exitCode = 1;
+  } else {
+    console.log(`✓ ${PROMPT_INJECTION_CORPUS.length} adversarial inputs stayed inside the data block of every prompt.`);
+  }
+} finally {
+  await server.close();
+}
@@ -0,0 +1,193 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { LlmProvider, LlmUsage, toAiError, LlmError } from '../services/llmProvider';
+import { AI_PROXY_PATH, AiProxyEvent, AiProxyJsonResponse, validateAiProxyRequest } from '../services/aiProxyProtocol';
+
+export interface AiProxyOptions {
+  apiKey: string | undefined;
+  maxRequestsPerWindow?: number; // Requests each client may make per rate-limit window
+  rateLimitWindowMs?: number;
+  maxBodyBytes?: number;         // Larger request bodies are rejected before being parsed
+  provider?: LlmProvider;        // Overrides the Gemini provider, e.g. to run the proxy against the mock
+}
+
+const DEFAULT_MAX_REQUESTS_PER_WINDOW = 20;
+const DEFAULT_RATE_LIMIT_WINDOW_MS = 60_000;
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+class ProxyError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Counts requests per client in fixed windows.
+ * @param maxRequests Requests allowed per window.
+ * @param windowMs Window length.
+ * @returns A check that records a request and returns how long to wait when it is over the limit (0 when allowed).
+ */
+const createRateLimiter = (maxRequests: number, windowMs: number) => {
+  const windows = new Map<string, { start: number; count: number }>();
+  return (clientId: string, now: number = Date.now()): number => {
+    // Drop expired windows so the map doesn't grow with every client ever seen
+    windows.forEach((window, id) => {
+      if (now - window.start >= windowMs) windows.delete(id);
+    });
+    const window = windows.get(clientId) ?? { start: now, count: 0 };
+    window.count++;
+    windows.set(clientId, window);
+    return window.count > maxRequests ? window.start + windowMs - now : 0;
+  };
+};
+
+/**
+ * Reads a request body, enforcing the size limit while it streams in. An oversized body is
+ * drained and discarded rather than cut off, so the 413 response can still reach the client;
+ * the handler closes the connection once it is written.
+ * @param req The request.
+ * @param maxBytes The size limit.
+ * @returns The body text.
+ */
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => new Promise((resolve, reject) => {
+  const rejectTooLarge = () => {
+    req.removeAllListeners('data');
+    req.resume();
+    reject(new ProxyError(413, `Requests are limited to ${maxBytes} bytes.`));
+  };
+  if (Number(req.headers['content-length']) > maxBytes) {
+    rejectTooLarge();
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      rejectTooLarge();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: AiProxyJsonResponse, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const FALLBACK_ERROR_MESSAGE = 'Failed to get a response from Gemini.';
+
+// The error fields sent to the browser, so it can show the category and decide whether to retry
+const toErrorFields = (error: unknown) => {
+  const { category, message } = toAiError(error, FALLBACK_ERROR_MESSAGE);
+  return { message, category, retryable: error instanceof LlmError && error.retryable };
+};
+
+/**
+ * Creates the request handler for the AI proxy. It holds the Gemini API key, so the browser
+ * only ever talks to this endpoint and never sees credentials.
+ * @param options The API key plus rate and size limits.
+ * @returns A handler for POST requests to the proxy path.
+ */
+export const createAiProxyHandler = (options: AiProxyOptions) => {
+  const provider = options.provider ?? createGeminiProvider(options.apiKey);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const checkRateLimit = createRateLimiter(
+    options.maxRequestsPerWindow ?? DEFAULT_MAX_REQUESTS_PER_WINDOW,
+    options.rateLimitWindowMs ?? DEFAULT_RATE_LIMIT_WINDOW_MS,
+  );
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Only POST requests are supported.' }, { Allow: 'POST' });
+      return;
+    }
+    if (!options.provider && !options.apiKey) {
+      sendJson(res, 503, { error: 'The AI proxy has no Gemini API key configured. Set GEMINI_API_KEY on the server.', category: 'auth' });
+      return;
+    }
+    const retryAfterMs = checkRateLimit(req.socket.remoteAddress ?? 'unknown');
+    if (retryAfterMs > 0) {
+      const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+      sendJson(res, 429, { error: `Too many AI requests. Please wait ${retryAfterSeconds} seconds and try again.`, category: 'quota' }, { 'Retry-After': String(retryAfterSeconds) });
+      return;
+    }
+
+    let proxyRequest;
+    try {
+      const body = await readBody(req, maxBodyBytes);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        throw new ProxyError(400, 'The request body is not valid JSON.');
+      }
+      proxyRequest = validateAiProxyRequest(parsed);
+      if (typeof proxyRequest === 'string') throw new ProxyError(400, proxyRequest);
+    } catch (error) {
+      const status = error instanceof ProxyError ? error.status : 400;
+      // Don't keep draining an oversized upload on this connection after answering it
+      sendJson(res, status, { error: error instanceof Error ? error.message : 'The request could not be read.' }, status === 413 ? { Connection: 'close' } : {});
+      return;
+    }
+
+    if (proxyRequest.kind === 'json') {
+      try {
+        let usage: LlmUsage | undefined;
+        const text = await provider.generateJson(proxyRequest.request, proxyRequest.responseSchema, { onUsage: (reported) => { usage = reported; } });
+        sendJson(res, 200, { text, usage });
+      } catch (error) {
+        const { message, ...fields } = toErrorFields(error);
+        sendJson(res, 502, { error: message, ...fields });
+      }
+      return;
+    }
+
+    // Stop generating when the browser disconnects, e.g. after the user presses Stop
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const writeEvent = (event: AiProxyEvent) => {
+      if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+    };
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    try {
+      let usage: LlmUsage | undefined;
+      const text = await provider.generateText(proxyRequest.request, {
+        signal: controller.signal,
+        onChunk: (textSoFar) => writeEvent({ type: 'chunk', text: textSoFar }),
+        onFunctionCall: (call) => writeEvent({ type: 'functionCall', call }),
+        onUsage: (reported) => { usage = reported; },
+      });
+      writeEvent({ type: 'done', text, usage });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        writeEvent({ type: 'error', ...toErrorFields(error) });
+      }
+    }
+    res.end();
+  };
+};
+
+/**
+ * Mounts the AI proxy on the Vite dev and preview servers.
+ * @param options The API key plus rate and size limits.
+ * @returns The Vite plugin.
+ */
+export const aiProxyPlugin = (options: AiProxyOptions): Plugin => {
+  const handler = createAiProxyHandler(options);
+  return {
+    name: 'ai-proxy',
+    configureServer(server) {
+      server.middlewares.use(AI_PROXY_PATH, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(AI_PROXY_PATH, handler);
+    },
+  };
+};
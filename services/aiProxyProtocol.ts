@@ -0,0 +1,67 @@
+import { Schema } from '@google/genai';
+import { AiErrorCategory } from '../types';
+import { LlmFunctionCall, LlmModel, LlmRequest, LlmUsage } from './llmProvider';
+
+// Shared by the proxy server and the browser client so both sides agree on the wire format
+export const AI_PROXY_PATH = '/api/ai';
+
+const ALLOWED_MODELS: LlmModel[] = ['gemini-2.5-flash', 'gemini-2.5-pro'];
+const MAX_MESSAGES = 100;
+
+/**
+ * The three prompt types the proxy forwards: a single text prompt and a chat conversation
+ * (both streamed back), and a JSON-mode prompt constrained to a response schema.
+ */
+export type AiProxyRequest =
+  | { kind: 'text'; request: LlmRequest & { contents: string } }
+  | { kind: 'chat'; request: LlmRequest }
+  | { kind: 'json'; request: LlmRequest & { contents: string }; responseSchema: Schema };
+
+// Streamed responses are newline-delimited JSON, one event per line
+export type AiProxyEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'functionCall'; call: LlmFunctionCall }
+  | { type: 'done'; text: string; usage?: LlmUsage }
+  | { type: 'error'; message: string; category: AiErrorCategory; retryable: boolean };
+
+export interface AiProxyJsonResponse {
+  text?: string;
+  usage?: LlmUsage;
+  error?: string;
+  category?: AiErrorCategory;
+  retryable?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a request body received by the proxy. Only known models and well-formed prompts are
+ * forwarded, so the proxy can't be used to reach other Gemini endpoints.
+ * @param raw The parsed request body.
+ * @returns The request, or a message explaining why it was rejected.
+ */
+export const validateAiProxyRequest = (raw: unknown): AiProxyRequest | string => {
+  if (!isRecord(raw) || !isRecord(raw.request)) return 'The request body is missing a request.';
+  const { kind, request } = raw;
+  if (!ALLOWED_MODELS.includes(request.model as LlmModel)) return 'The requested model is not available through this proxy.';
+  if (request.systemInstruction !== undefined && typeof request.systemInstruction !== 'string') return 'The system instruction must be text.';
+  if (request.tools !== undefined && (!Array.isArray(request.tools) || !request.tools.every(isRecord))) return 'Tools must be a list of function declarations.';
+
+  switch (kind) {
+    case 'text':
+    case 'json':
+      if (typeof request.contents !== 'string' || request.contents.trim() === '') return 'The prompt must be non-empty text.';
+      if (kind === 'json' && !isRecord(raw.responseSchema)) return 'A JSON request needs a response schema.';
+      return raw as AiProxyRequest;
+    case 'chat':
+      if (!Array.isArray(request.contents) || request.contents.length === 0 || request.contents.length > MAX_MESSAGES) {
+        return `A chat must contain between 1 and ${MAX_MESSAGES} messages.`;
+      }
+      if (!request.contents.every(message => isRecord(message) && (message.role === 'user' || message.role === 'model') && typeof message.text === 'string')) {
+        return 'Every chat message needs a user or model role and text.';
+      }
+      return raw as AiProxyRequest;
+    default:
+      return 'Unknown request kind.';
+  }
+};
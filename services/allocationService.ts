@@ -0,0 +1,514 @@
+import {
+  Stock,
+  InvestmentResult,
+  AllocationPlan,
+  AllocationStrategyId,
+  ShareMode,
+  AllocationIssue,
+  CorrelationMatrix,
+  MeanVarianceSettings,
+  MeanVarianceObjective,
+  BrokerProfile,
+  CurrencySettings,
+  RoundingPolicy,
+} from '../types';
+import { solveWholeShareKnapsack } from './wholeShareOptimizer';
+import { checkPositionConstraints, getShareBounds, PositionBounds } from './positionConstraints';
+import { optimizeMeanVariance, DEFAULT_VOLATILITY } from './meanVarianceOptimizer';
+import { applyBrokerRules, requiresWholeShares } from './brokerProfiles';
+import { convertStocksToBase, formatMoney, DEFAULT_BASE_CURRENCY } from './currency';
+import { roundMoney, roundShares, subtractMoney, sumMoney, DEFAULT_ROUNDING_POLICY } from './money';
+
+export interface AllocationInput {
+  budget: number;
+  stocks: Stock[];
+  shareMode?: ShareMode; // Defaults to 'fractional'
+  correlations?: CorrelationMatrix; // Used by the mean-variance strategy; defaults to uncorrelated
+  meanVariance?: MeanVarianceSettings; // Defaults to DEFAULT_MEAN_VARIANCE_SETTINGS
+  broker?: BrokerProfile; // Fees, minimum order and share increment to honour; omit for a cost-free market
+  currency?: CurrencySettings; // Converts prices into the budget's currency; omit when every stock is priced in it
+  rounding?: RoundingPolicy; // Defaults to DEFAULT_ROUNDING_POLICY
+}
+
+export interface ResultTotals {
+  totalInvestedAmount: number;
+  totalActualReturn: number;
+  totalFees: number;
+  remainingCash: number; // The budget less the invested amount and fees, exactly
+}
+
+export const DEFAULT_MEAN_VARIANCE_SETTINGS: MeanVarianceSettings = {
+  objective: 'max-sharpe',
+  targetReturn: 10,
+  riskFreeRate: 4,
+};
+
+export const MEAN_VARIANCE_OBJECTIVE_LABELS: Record<MeanVarianceObjective, string> = {
+  'min-variance': 'Minimum Variance',
+  'max-sharpe': 'Maximum Sharpe Ratio',
+  'target-return': 'Target Return',
+};
+
+export interface AllocationStrategy {
+  id: AllocationStrategyId;
+  label: string;
+  description: string;
+  allocate: (input: AllocationInput) => AllocationPlan;
+}
+
+/**
+ * Builds an empty (zero-investment) result row for a stock.
+ * @param stock The stock to build the row for.
+ * @returns An InvestmentResult with nothing invested.
+ */
+const emptyResult = (stock: Stock): InvestmentResult => ({
+  stockId: stock.id,
+  stockName: stock.name,
+  fraction: 0,
+  investedAmount: 0,
+  actualReturn: 0,
+});
+
+/**
+ * Builds a result row for a stock holding the given number of shares.
+ * @param stock The stock being bought.
+ * @param shares The (possibly fractional) number of shares.
+ * @returns The InvestmentResult for that position.
+ */
+const resultForShares = (stock: Stock, shares: number): InvestmentResult => {
+  const investedAmount = shares * stock.price;
+  return {
+    ...emptyResult(stock),
+    fraction: shares,
+    investedAmount,
+    actualReturn: investedAmount * (stock.expectedReturn / 100),
+  };
+};
+
+/**
+ * Adds up a result table in exact money arithmetic, so the invested amount, fees and remaining
+ * cash always add up to the budget to the cent.
+ * @param budget The budget.
+ * @param results The result rows, with amounts settled to the currency's minor unit.
+ * @param currency The currency of the budget and amounts.
+ * @returns The totals.
+ */
+export const summarizeResults = (budget: number, results: InvestmentResult[], currency: string): ResultTotals => {
+  const totalInvestedAmount = sumMoney(results.map(result => result.investedAmount), currency);
+  const totalFees = sumMoney(results.map(result => result.fee ?? 0), currency);
+  return {
+    totalInvestedAmount,
+    totalActualReturn: sumMoney(results.map(result => result.actualReturn), currency),
+    totalFees,
+    remainingCash: subtractMoney(budget, [totalInvestedAmount, totalFees], currency),
+  };
+};
+
+/**
+ * Settles result rows under a rounding policy: share quantities onto the finest share grid
+ * (whole shares and broker increments are already on it), then amounts, returns and fees onto
+ * the currency's minor unit.
+ * @param input The allocation input, for prices and the currency.
+ * @param results The unrounded result rows.
+ * @param policy How to round shares and cash.
+ * @returns The settled rows.
+ */
+const settleResults = (input: AllocationInput, results: InvestmentResult[], policy: RoundingPolicy): InvestmentResult[] => {
+  const currency = input.currency?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  const stocksById = new Map(input.stocks.map(stock => [stock.id, stock]));
+  return results.map(result => {
+    const stock = stocksById.get(result.stockId);
+    const fraction = stock ? roundShares(result.fraction, 0, policy.shares) : 0;
+    const investedAmount = stock ? roundMoney(fraction * stock.price, currency, policy.cash) : 0;
+    return {
+      ...result,
+      fraction,
+      investedAmount,
+      actualReturn: stock ? roundMoney(investedAmount * (stock.expectedReturn / 100), currency, policy.cash) : 0,
+      ...(result.fee !== undefined ? { fee: roundMoney(result.fee, currency, policy.cash) } : {}),
+    };
+  });
+};
+
+/**
+ * Wraps a list of results into an AllocationPlan with computed totals. Amounts are settled under
+ * the input's rounding policy; if rounding up would spend more than the budget, everything is
+ * rounded down instead, which always fits when the unrounded plan does.
+ * @param strategyId The strategy that produced the results.
+ * @param input The allocation input the results were computed from.
+ * @param results One result per stock, in the same order as the input stocks.
+ * @param issues Constraint errors or warnings raised while building the plan.
+ * @returns The plan including total invested amount, total expected return, fees and leftover cash.
+ */
+const buildPlan = (
+  strategyId: AllocationStrategyId,
+  input: AllocationInput,
+  results: InvestmentResult[],
+  issues: AllocationIssue[] = [],
+): AllocationPlan => {
+  const currency = input.currency?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  let settled = settleResults(input, results, input.rounding ?? DEFAULT_ROUNDING_POLICY);
+  let totals = summarizeResults(input.budget, settled, currency);
+  if (totals.remainingCash < 0) {
+    settled = settleResults(input, results, { shares: 'down', cash: 'down' });
+    totals = summarizeResults(input.budget, settled, currency);
+  }
+  return {
+    strategyId,
+    shareMode: input.shareMode ?? 'fractional',
+    results: settled,
+    ...totals,
+    issues,
+  };
+};
+
+/**
+ * Share-count limits for every stock in the input, in input order.
+ * @param input The allocation input.
+ * @returns The per-stock share bounds derived from position constraints.
+ */
+const boundsFor = (input: AllocationInput): PositionBounds[] =>
+  input.stocks.map(stock => getShareBounds(stock, input.budget, input.shareMode));
+
+/**
+ * Turns constrained amounts into result rows. In whole-share mode each amount is rounded to
+ * whole shares under the share rounding mode (kept within the share bounds) and the rest stays
+ * in cash. When rounding up overspends the budget, the shares rounded up furthest are given
+ * back one at a time until it fits.
+ * @param input The allocation input.
+ * @param bounds The per-stock share bounds.
+ * @param amounts The amount per stock, in input order.
+ * @returns One result per stock.
+ */
+const resultsFromAmounts = (input: AllocationInput, bounds: PositionBounds[], amounts: number[]): InvestmentResult[] => {
+  const targetShares = input.stocks.map((stock, index) => amounts[index] / stock.price);
+  if (input.shareMode !== 'whole') {
+    return input.stocks.map((stock, index) => resultForShares(stock, targetShares[index]));
+  }
+
+  const mode = (input.rounding ?? DEFAULT_ROUNDING_POLICY).shares;
+  const shares = targetShares.map((target, index) =>
+    Math.min(bounds[index].maxShares, Math.max(bounds[index].minShares, roundShares(target, 1, mode))));
+  const cost = () => shares.reduce((sum, count, index) => sum + count * input.stocks[index].price, 0);
+  while (cost() > input.budget + 1e-9) {
+    let furthest = -1;
+    shares.forEach((count, index) => {
+      if (count > bounds[index].minShares && count > targetShares[index]
+        && (furthest === -1 || count - targetShares[index] > shares[furthest] - targetShares[furthest])) {
+        furthest = index;
+      }
+    });
+    if (furthest === -1) break;
+    shares[furthest] -= 1;
+  }
+  return input.stocks.map((stock, index) => resultForShares(stock, shares[index]));
+};
+
+/**
+ * Spreads a total over positions in proportion to their targets while keeping every position
+ * inside its [min, max] dollar range. Finds the scale factor λ such that
+ * Σ clamp(λ·target, min, max) equals the total (or gets as close as the limits allow).
+ * @param targets Unconstrained target dollar amounts.
+ * @param mins Minimum dollar amount per position.
+ * @param maxes Maximum dollar amount per position.
+ * @param total The dollar total to distribute.
+ * @returns The constrained dollar amount per position.
+ */
+const fitToBounds = (targets: number[], mins: number[], maxes: number[], total: number): number[] => {
+  const amountsAt = (scale: number) => targets.map((target, i) => Math.min(maxes[i], Math.max(mins[i], scale * target)));
+  const sumAt = (scale: number) => amountsAt(scale).reduce((sum, amount) => sum + amount, 0);
+
+  if (sumAt(0) >= total) return amountsAt(0);
+
+  let high = 1;
+  for (let i = 0; i < 60 && sumAt(high) < total; i++) high *= 2;
+  if (sumAt(high) <= total) return amountsAt(high);
+
+  let low = 0;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (sumAt(mid) < total) low = mid; else high = mid;
+  }
+  return amountsAt(high);
+};
+
+/**
+ * Greedy allocation: ranks stocks by return-to-price ratio, buys as many full shares of the
+ * best-ranked stock as the budget allows and moves the remainder on to the next one.
+ * Minimum positions are funded first; a stock that hits its maximum is filled exactly to it.
+ */
+const allocateGreedy = (input: AllocationInput): AllocationPlan => {
+  const { budget, stocks } = input;
+  const bounds = boundsFor(input);
+  const boundsById = new Map(stocks.map((stock, index) => [stock.id, bounds[index]]));
+  const resultsMap = new Map<string, InvestmentResult>();
+
+  // Initialize all stocks at their minimum position to ensure they are present
+  stocks.forEach((stock, index) => resultsMap.set(stock.id, resultForShares(stock, bounds[index].minShares)));
+  let currentBudget = budget - Array.from(resultsMap.values()).reduce((sum, res) => sum + res.investedAmount, 0);
+
+  // Sort stocks by return-to-price ratio in descending order
+  const sortedStocks = [...stocks].sort((a, b) =>
+    (b.expectedReturn / b.price) - (a.expectedReturn / a.price)
+  );
+
+  for (const stock of sortedStocks) {
+    if (currentBudget <= 0) break;
+
+    const { minShares, maxShares } = boundsById.get(stock.id)!;
+    const headroom = (maxShares - minShares) * stock.price;
+    if (headroom <= 0) continue;
+
+    let additionalShares = 0;
+
+    if (headroom <= currentBudget) {
+      // The position limit binds before the budget does: fill it exactly
+      additionalShares = maxShares - minShares;
+    } else if (currentBudget >= stock.price) {
+      // Buy as many full shares as possible
+      additionalShares = Math.floor(currentBudget / stock.price);
+    } else {
+      // Buy a fraction of the stock
+      additionalShares = currentBudget / stock.price;
+    }
+
+    const result = resultForShares(stock, minShares + additionalShares);
+    resultsMap.set(stock.id, result); // Fraction represents number of shares
+    currentBudget -= additionalShares * stock.price;
+  }
+
+  return buildPlan('greedy', input, stocks.map(stock => resultsMap.get(stock.id)!));
+};
+
+/**
+ * Whole-share counterpart of the greedy strategy: instead of ranking stocks, solves the integer
+ * knapsack exactly so the chosen share counts maximize total expected return within the budget.
+ * Minimum positions are bought up front and maximums bound the knapsack.
+ */
+const allocateWholeShareOptimal = (input: AllocationInput): AllocationPlan => {
+  const bounds = boundsFor(input);
+  const minimumCost = input.stocks.reduce((sum, stock, i) => sum + bounds[i].minShares * stock.price, 0);
+  const { shares } = solveWholeShareKnapsack(input.budget - minimumCost, input.stocks.map((stock, i) => ({
+    price: stock.price,
+    valuePerShare: stock.price * (stock.expectedReturn / 100),
+    maxShares: bounds[i].maxShares - bounds[i].minShares,
+  })));
+  // The solver works on a cent grid; drop the least rewarding shares if float error still overspends
+  const cost = () => input.stocks.reduce((sum, stock, i) => sum + (bounds[i].minShares + shares[i]) * stock.price, 0);
+  while (cost() > input.budget + 1e-9) {
+    const held = shares.map((count, i) => count > 0 ? i : -1).filter(i => i >= 0);
+    if (held.length === 0) break;
+    const least = held.reduce((a, b) => input.stocks[b].expectedReturn < input.stocks[a].expectedReturn ? b : a);
+    shares[least] -= 1;
+  }
+  return buildPlan('greedy', input, input.stocks.map((stock, i) => resultForShares(stock, bounds[i].minShares + shares[i])));
+};
+
+/**
+ * Creates a strategy that splits the budget according to per-stock weights.
+ * Weights are normalized to sum to 1 unless `allowCash` is set, in which case a total below 1
+ * leaves the remainder uninvested (totals above 1 are still scaled down).
+ * Targets are fitted into each stock's position limits, redistributing what a limit cuts off
+ * across the remaining stocks. In whole-share mode each amount is rounded down to whole shares
+ * and the rest stays in cash.
+ * @param id Strategy identifier.
+ * @param label Human-readable name shown in the selector.
+ * @param description Short explanation shown next to the selector.
+ * @param weigh Returns a non-negative raw weight for each stock.
+ * @param allowCash Whether raw weights are treated as absolute fractions of the budget.
+ * @returns The weight-based allocation strategy.
+ */
+const createWeightedStrategy = (
+  id: AllocationStrategyId,
+  label: string,
+  description: string,
+  weigh: (stock: Stock, stocks: Stock[]) => number,
+  allowCash = false,
+): AllocationStrategy => ({
+  id,
+  label,
+  description,
+  allocate: (input) => {
+    const { budget, stocks } = input;
+    const rawWeights = stocks.map(stock => Math.max(0, weigh(stock, stocks)));
+    const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+    const scale = totalWeight === 0 ? 0 : (allowCash ? 1 / Math.max(1, totalWeight) : 1 / totalWeight);
+
+    const bounds = boundsFor(input);
+    const targets = rawWeights.map(weight => budget * weight * scale);
+    const amounts = fitToBounds(
+      targets,
+      stocks.map((stock, i) => bounds[i].minShares * stock.price),
+      stocks.map((stock, i) => bounds[i].maxShares * stock.price),
+      Math.min(budget, targets.reduce((sum, target) => sum + target, 0)),
+    );
+
+    return buildPlan(id, input, resultsFromAmounts(input, bounds, amounts));
+  },
+});
+
+/**
+ * Markowitz allocation: weights come from a mean-variance optimization using each stock's expected
+ * return, volatility and the correlation matrix, within the position constraints.
+ */
+const allocateMeanVariance = (input: AllocationInput): AllocationPlan => {
+  const { budget, stocks } = input;
+  const settings = input.meanVariance ?? DEFAULT_MEAN_VARIANCE_SETTINGS;
+  const bounds = boundsFor(input);
+  const issues: AllocationIssue[] = [];
+
+  const missingVolatility = stocks.filter(stock => stock.volatility === undefined);
+  if (missingVolatility.length > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `No volatility entered for ${missingVolatility.map(stock => stock.name).join(', ')}; assuming ${DEFAULT_VOLATILITY}% per year.`,
+    });
+  }
+
+  const { weights, warning } = optimizeMeanVariance(settings.objective, stocks, input.correlations ?? {}, {
+    targetReturn: settings.targetReturn,
+    riskFreeRate: settings.riskFreeRate,
+    lower: stocks.map((stock, i) => bounds[i].minShares * stock.price / budget),
+    upper: stocks.map((stock, i) => bounds[i].maxShares * stock.price / budget),
+  });
+  if (warning) {
+    issues.push({ severity: 'warning', message: warning });
+  }
+
+  return buildPlan('mean-variance', input, resultsFromAmounts(input, bounds, weights.map(w => w * budget)), issues);
+};
+
+export const SHARE_MODE_LABELS: Record<ShareMode, string> = {
+  fractional: 'Fractional shares',
+  whole: 'Whole shares only',
+};
+
+export const ALLOCATION_STRATEGIES: AllocationStrategy[] = [
+  {
+    id: 'greedy',
+    label: 'Greedy (Return/Price)',
+    description: 'Fills the best return-to-price stocks first, buying whole shares before moving on. In whole-share mode the maximum expected return is solved exactly.',
+    allocate: (input) => input.shareMode === 'whole' ? allocateWholeShareOptimal(input) : allocateGreedy(input),
+  },
+  createWeightedStrategy(
+    'equal-weight',
+    'Equal Weight',
+    'Splits the budget evenly across all stocks.',
+    () => 1,
+  ),
+  createWeightedStrategy(
+    'return-weighted',
+    'Return Weighted',
+    'Allocates in proportion to each stock\'s expected return.',
+    (stock, stocks) => stocks.every(s => s.expectedReturn === 0) ? 1 : stock.expectedReturn,
+  ),
+  createWeightedStrategy(
+    'inverse-price',
+    'Inverse Price',
+    'Allocates more to lower-priced stocks, in proportion to 1 / price.',
+    (stock) => 1 / stock.price,
+  ),
+  createWeightedStrategy(
+    'custom-weight',
+    'Custom Target Weights',
+    'Uses the target weight (%) entered per stock; any unassigned share of the budget stays in cash.',
+    (stock) => (stock.targetWeight ?? 0) / 100,
+    true,
+  ),
+  {
+    id: 'mean-variance',
+    label: 'Mean-Variance (Markowitz)',
+    description: 'Optimizes the risk/return trade-off using each stock\'s volatility and the correlation matrix.',
+    allocate: allocateMeanVariance,
+  },
+];
+
+/**
+ * Looks up an allocation strategy by id.
+ * @param id The strategy identifier.
+ * @returns The matching strategy, falling back to the greedy strategy.
+ */
+export const getAllocationStrategy = (id: AllocationStrategyId): AllocationStrategy =>
+  ALLOCATION_STRATEGIES.find(strategy => strategy.id === id) ?? ALLOCATION_STRATEGIES[0];
+
+/**
+ * Runs a strategy under a broker's rules. Orders are rounded down to the share increment,
+ * orders below the minimum are dropped, and fees are charged per order. Because fees come out
+ * of the same budget, the amount handed to the strategy is reduced until orders plus fees fit.
+ */
+const allocateWithBroker = (strategy: AllocationStrategy, input: AllocationInput, broker: BrokerProfile): AllocationPlan => {
+  const stocksById = new Map(input.stocks.map(stock => [stock.id, stock]));
+  const sharesMode = (input.rounding ?? DEFAULT_ROUNDING_POLICY).shares;
+  let investable = input.budget;
+
+  for (let attempt = 0; attempt < 25 && investable > 0; attempt++) {
+    const rawPlan = strategy.allocate({ ...input, budget: investable });
+    const results = rawPlan.results.map(result => {
+      const stock = stocksById.get(result.stockId)!;
+      return applyBrokerRules(broker, result, stock.price, stock.expectedReturn, sharesMode);
+    });
+    const plan = buildPlan(rawPlan.strategyId, input, results, rawPlan.issues);
+    if (plan.remainingCash >= 0) {
+      return plan;
+    }
+    // Shrink by the overshoot plus a cent so flat per-order fees cannot stall progress
+    investable += plan.remainingCash - 0.01;
+  }
+
+  return buildPlan(strategy.id, input, input.stocks.map(emptyResult), [{
+    severity: 'warning',
+    message: `The budget of ${formatMoney(input.budget, input.currency?.baseCurrency ?? DEFAULT_BASE_CURRENCY)} is too small to place any order with ${broker.name} once fees and minimum order sizes are taken into account.`,
+  }]);
+};
+
+/**
+ * Allocates a budget across stocks using the chosen strategy.
+ * Every input stock is represented in the results, even when nothing is invested in it.
+ * When the position constraints are infeasible, nothing is invested and the plan's issues
+ * explain why. A broker that only trades whole shares forces whole-share mode.
+ * Prices in other currencies are converted into the budget's currency first, so every amount
+ * in the plan is in that currency; a stock without an exchange rate makes the plan infeasible.
+ * The invested amount plus fees never exceeds the budget: a plan that would is replaced by an
+ * empty one with an error.
+ * @param strategyId The strategy to use.
+ * @param input The budget, the stock universe and optional broker profile and currency settings.
+ * @returns The allocation plan with per-stock results, totals and constraint issues.
+ */
+export const allocatePortfolio = (strategyId: AllocationStrategyId, input: AllocationInput): AllocationPlan => {
+  const { stocks, issues: currencyIssues } = input.currency
+    ? convertStocksToBase(input.stocks, input.currency)
+    : { stocks: input.stocks, issues: [] };
+  const effectiveInput: AllocationInput = {
+    ...input,
+    // A fraction of a cent can't be spent, and leaving it out keeps the totals exact
+    budget: roundMoney(input.budget, input.currency?.baseCurrency ?? DEFAULT_BASE_CURRENCY, 'down'),
+    stocks,
+    ...(input.broker && requiresWholeShares(input.broker) ? { shareMode: 'whole' } : {}),
+  };
+
+  if (effectiveInput.budget <= 0 || effectiveInput.stocks.length === 0) {
+    return buildPlan(strategyId, effectiveInput, effectiveInput.stocks.map(emptyResult));
+  }
+  if (currencyIssues.length > 0) {
+    return buildPlan(strategyId, effectiveInput, effectiveInput.stocks.map(emptyResult), currencyIssues);
+  }
+
+  const issues = checkPositionConstraints(effectiveInput.budget, effectiveInput.stocks, effectiveInput.shareMode, input.currency?.baseCurrency);
+  if (issues.some(issue => issue.severity === 'error')) {
+    return buildPlan(strategyId, effectiveInput, effectiveInput.stocks.map(emptyResult), issues);
+  }
+
+  const strategy = getAllocationStrategy(strategyId);
+  const plan = effectiveInput.broker
+    ? allocateWithBroker(strategy, effectiveInput, effectiveInput.broker)
+    : strategy.allocate(effectiveInput);
+  // Settling rounds down whenever rounding up would overspend, so this is a last line of defence:
+  // a plan that overdraws the budget is reported rather than returned
+  if (plan.remainingCash < 0) {
+    return buildPlan(strategyId, effectiveInput, effectiveInput.stocks.map(emptyResult), [...issues, {
+      severity: 'error',
+      message: `The plan came out ${formatMoney(-plan.remainingCash, effectiveInput.currency?.baseCurrency ?? DEFAULT_BASE_CURRENCY)} over the budget after rounding, so nothing was invested. Try rounding shares down.`,
+    }]);
+  }
+  return { ...plan, issues: [...issues, ...plan.issues] };
+};
@@ -0,0 +1,156 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { AssistantAction, ChatMessage, InvestmentResult, Stock } from '../types';
+import { LlmFunctionCall } from './llmProvider';
+import { formatMoney } from './currency';
+
+const STOCK_REFERENCE_DESCRIPTION = 'The stock name, or its number in the current stock list';
+
+// Operations the chat assistant may propose. Nothing is applied until the user confirms it.
+export const ASSISTANT_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'add_stock',
+    description: 'Add a stock to the list of stocks considered for the allocation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Stock name or ticker' },
+        price: { type: Type.NUMBER, description: 'Share price in the base currency' },
+        expectedReturn: { type: Type.NUMBER, description: 'Expected annual return in percent; zero or more' },
+        volatility: { type: Type.NUMBER, description: 'Annualized volatility in percent' },
+      },
+      required: ['name', 'price', 'expectedReturn'],
+    },
+  },
+  {
+    name: 'remove_stock',
+    description: 'Remove a stock from the list and recalculate the allocation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { stock: { type: Type.STRING, description: STOCK_REFERENCE_DESCRIPTION } },
+      required: ['stock'],
+    },
+  },
+  {
+    name: 'adjust_investment',
+    description: 'Change the amount invested in one stock of the current allocation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        stock: { type: Type.STRING, description: STOCK_REFERENCE_DESCRIPTION },
+        amount: { type: Type.NUMBER, description: 'New invested amount in the base currency' },
+      },
+      required: ['stock', 'amount'],
+    },
+  },
+  {
+    name: 'set_budget',
+    description: 'Change the total investment budget. Run the calculation afterwards to use it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { budget: { type: Type.NUMBER, description: 'New budget in the base currency' } },
+      required: ['budget'],
+    },
+  },
+  {
+    name: 'run_calculation',
+    description: 'Recalculate the allocation with the current budget, stocks and strategy.',
+  },
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Finds the stock a function call refers to, by name (ignoring case) or list position.
+ * @param reference The stock argument from the call.
+ * @param stocks The current stocks.
+ * @returns The stock, or undefined when nothing matches.
+ */
+const resolveStock = (reference: unknown, stocks: Stock[]): Stock | undefined => {
+  const text = String(reference ?? '').trim();
+  const byName = stocks.find(stock => stock.name.toLowerCase() === text.toLowerCase());
+  if (byName || !/^\d+$/.test(text)) return byName;
+  return stocks[parseInt(text, 10) - 1];
+};
+
+/**
+ * Validates a function call from the model against the current plan.
+ * @param call The proposed call.
+ * @param stocks The current stocks.
+ * @param investmentResults The current allocation.
+ * @returns The action to confirm, or a message explaining why the call was rejected.
+ */
+export const parseAssistantAction = (call: LlmFunctionCall, stocks: Stock[], investmentResults: InvestmentResult[]): AssistantAction | string => {
+  const { args } = call;
+  switch (call.name) {
+    case 'add_stock': {
+      const name = typeof args.name === 'string' ? args.name.trim() : '';
+      if (name === '') return 'Add stock: missing a name.';
+      if (!isFiniteNumber(args.price) || args.price <= 0) return `Add ${name}: price must be a positive number.`;
+      if (!isFiniteNumber(args.expectedReturn) || args.expectedReturn < 0) return `Add ${name}: expected return must be a non-negative number.`;
+      if (args.volatility !== undefined && (!isFiniteNumber(args.volatility) || args.volatility < 0)) {
+        return `Add ${name}: volatility must be a non-negative number when given.`;
+      }
+      return {
+        type: 'add_stock',
+        name,
+        price: args.price,
+        expectedReturn: args.expectedReturn,
+        ...(args.volatility !== undefined ? { volatility: args.volatility as number } : {}),
+      };
+    }
+    case 'remove_stock': {
+      const stock = resolveStock(args.stock, stocks);
+      if (!stock) return `Remove stock: "${String(args.stock ?? '')}" is not in your stock list.`;
+      return { type: 'remove_stock', stockId: stock.id, stockName: stock.name };
+    }
+    case 'adjust_investment': {
+      const stock = resolveStock(args.stock, stocks);
+      if (!stock) return `Adjust investment: "${String(args.stock ?? '')}" is not in your stock list.`;
+      if (!isFiniteNumber(args.amount) || args.amount < 0) return `Adjust ${stock.name}: amount must be a non-negative number.`;
+      if (!investmentResults.some(result => result.stockId === stock.id)) {
+        return `Adjust ${stock.name}: calculate an allocation first.`;
+      }
+      return { type: 'adjust_investment', stockId: stock.id, stockName: stock.name, amount: args.amount };
+    }
+    case 'set_budget':
+      if (!isFiniteNumber(args.budget) || args.budget <= 0) return 'Set budget: budget must be a positive number.';
+      return { type: 'set_budget', budget: args.budget };
+    case 'run_calculation':
+      return { type: 'run_calculation' };
+    default:
+      return `Unknown operation "${call.name}".`;
+  }
+};
+
+/**
+ * Describes an action for the confirmation prompt.
+ * @param action The action.
+ * @param currency The base currency the action's amounts are in.
+ * @returns A one-line description.
+ */
+export const describeAssistantAction = (action: AssistantAction, currency: string): string => {
+  switch (action.type) {
+    case 'add_stock':
+      return `Add ${action.name} at ${formatMoney(action.price, currency)} with a ${action.expectedReturn.toFixed(2)}% expected return`
+        + (action.volatility !== undefined ? ` and ${action.volatility.toFixed(2)}% volatility` : '');
+    case 'remove_stock':
+      return `Remove ${action.stockName}`;
+    case 'adjust_investment':
+      return `Invest ${formatMoney(action.amount, currency)} in ${action.stockName}`;
+    case 'set_budget':
+      return `Change the budget to ${formatMoney(action.budget, currency)}`;
+    case 'run_calculation':
+      return 'Recalculate the allocation';
+  }
+};
+
+/**
+ * The text a chat message is sent back to the model as. Model replies note what happened to
+ * their proposals, so the model doesn't assume an unconfirmed change was made.
+ * @param message The chat message.
+ * @returns The message text for the conversation history.
+ */
+export const formatChatMessageForHistory = (message: ChatMessage): string => {
+  const outcomes = (message.proposedActions ?? []).map(proposal => `[Proposed: ${proposal.description} (${proposal.status})]`);
+  return [message.text, ...outcomes].filter(line => line !== '').join('\n');
+};
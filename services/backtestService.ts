@@ -0,0 +1,238 @@
+import { Stock, PriceSeries, AllocationStrategyId, ShareMode, CorrelationMatrix, MeanVarianceSettings, BrokerProfile, CurrencySettings, RoundingPolicy } from '../types';
+import { allocatePortfolio, getAllocationStrategy } from './allocationService';
+import { detectFrequency, estimatePriceStats, findPriceSeries, maxDrawdown, toPeriodReturns, PERIODS_PER_YEAR } from './priceHistory';
+import { getFxRate, getStockCurrency } from './currency';
+
+export type RebalanceFrequency = 'none' | 'monthly' | 'quarterly' | 'annually';
+
+// Where the expected returns and volatilities handed to the strategy come from
+export type BacktestEstimates = 'current' | 'trailing';
+
+export interface BacktestSettings {
+  initialCapital: number; // In the base currency
+  startDate: string; // ISO dates; the test runs on the dates every stock has a price for
+  endDate: string;
+  rebalance: RebalanceFrequency;
+  estimates: BacktestEstimates;
+  riskFreeRate: number; // Annual %, for the Sharpe ratio
+}
+
+export interface BacktestContext {
+  stocks: Stock[];
+  priceHistory: PriceSeries[];
+  shareMode: ShareMode;
+  correlations: CorrelationMatrix;
+  meanVariance: MeanVarianceSettings;
+  broker: BrokerProfile;
+  currency: CurrencySettings; // Historical prices are in each stock's currency and converted at today's rates
+  rounding: RoundingPolicy;
+}
+
+export interface EquityPoint {
+  date: string;
+  value: number;
+}
+
+export interface BacktestResult {
+  strategyId: AllocationStrategyId;
+  label: string;
+  curve: EquityPoint[];
+  finalValue: number;
+  cagr: number;        // Compound annual growth rate, %
+  volatility: number;  // Annualized, %
+  maxDrawdown: number; // Largest peak-to-trough fall, %
+  sharpe: number | null; // null when the curve doesn't move
+  rebalances: number;
+  fees: number;        // Broker fees paid across all rebalances
+  error: string | null; // Set when the strategy couldn't allocate at the start
+}
+
+export const REBALANCE_LABELS: Record<RebalanceFrequency, string> = {
+  none: 'Buy and hold',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annually: 'Annually',
+};
+
+export const BACKTEST_ESTIMATE_LABELS: Record<BacktestEstimates, string> = {
+  current: 'Current stock inputs',
+  trailing: 'Trailing price history',
+};
+
+const DAYS_PER_YEAR = 365.25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The calendar period a date falls in; a new period triggers a rebalance
+const periodKey = (date: string, rebalance: RebalanceFrequency): string => {
+  const month = Number(date.slice(5, 7));
+  switch (rebalance) {
+    case 'monthly':
+      return date.slice(0, 7);
+    case 'quarterly':
+      return `${date.slice(0, 4)}-Q${Math.ceil(month / 3)}`;
+    case 'annually':
+      return date.slice(0, 4);
+    case 'none':
+      return '';
+  }
+};
+
+/**
+ * Splits the stocks into those with a price history and those without.
+ * @param stocks The stock universe.
+ * @param priceHistory The imported series.
+ * @returns The stocks paired with their series, and the names of stocks that have none.
+ */
+export const matchStocksToHistory = (stocks: Stock[], priceHistory: PriceSeries[]) => {
+  const matched: { stock: Stock; closes: Map<string, number>; series: PriceSeries }[] = [];
+  const missing: string[] = [];
+  stocks.forEach(stock => {
+    const series = findPriceSeries(priceHistory, stock.name);
+    if (series) {
+      matched.push({ stock, series, closes: new Map(series.points.map(point => [point.date, point.close])) });
+    } else {
+      missing.push(stock.name);
+    }
+  });
+  return { matched, missing };
+};
+
+/**
+ * The dates on which every matched stock has a price, in order.
+ * @param stocks The stock universe.
+ * @param priceHistory The imported series.
+ * @returns The common dates.
+ */
+export const getCommonDates = (stocks: Stock[], priceHistory: PriceSeries[]): string[] => {
+  const { matched } = matchStocksToHistory(stocks, priceHistory);
+  if (matched.length === 0) return [];
+  return matched[0].series.points
+    .map(point => point.date)
+    .filter(date => matched.every(({ closes }) => closes.has(date)));
+};
+
+/**
+ * Summarizes an equity curve.
+ * @param curve The portfolio value on each date.
+ * @param riskFreeRate Annual risk-free rate, %.
+ * @returns CAGR, annualized volatility, maximum drawdown (all %) and the Sharpe ratio.
+ */
+export const measureEquityCurve = (curve: EquityPoint[], riskFreeRate: number) => {
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  const years = (Date.parse(last.date) - Date.parse(first.date)) / DAY_MS / DAYS_PER_YEAR;
+  const cagr = years > 0 && first.value > 0 ? Math.pow(last.value / first.value, 1 / years) - 1 : 0;
+
+  const points = curve.map(point => ({ date: point.date, close: point.value }));
+  const returns = toPeriodReturns(points);
+  const periodsPerYear = PERIODS_PER_YEAR[detectFrequency(points)];
+  const average = returns.reduce((sum, value) => sum + value, 0) / Math.max(1, returns.length);
+  const variance = returns.length > 1
+    ? returns.reduce((sum, value) => sum + (value - average) ** 2, 0) / (returns.length - 1)
+    : 0;
+  const volatility = Math.sqrt(variance * periodsPerYear);
+
+  return {
+    cagr: cagr * 100,
+    volatility: volatility * 100,
+    maxDrawdown: maxDrawdown(curve.map(point => point.value)) * 100,
+    // Annualized mean excess return per unit of volatility
+    sharpe: volatility > 0 ? (average * periodsPerYear - riskFreeRate / 100) / volatility : null,
+  };
+};
+
+/**
+ * Replays one allocation strategy over the price history. The strategy allocates the initial
+ * capital on the first date; with rebalancing, the whole portfolio is reallocated at the start
+ * of each new period at that day's prices, paying the broker's fees again. Cash earns nothing.
+ * With trailing estimates, each stock's expected return and volatility are re-estimated at
+ * every rebalance from the prices up to that date (geometric, floored at 0%), so the test
+ * doesn't use information from the future; without enough history the stock's inputs are used.
+ * Held shares and locked amounts describe today's portfolio and are ignored. Prices in other
+ * currencies are converted at the current exchange rates throughout, so currency moves over
+ * the period aren't part of the result.
+ * @param strategyId The strategy.
+ * @param settings Dates, capital, rebalancing and estimates.
+ * @param context The stocks, their price history and the allocation settings.
+ * @returns The equity curve and its statistics.
+ */
+export const runBacktest = (strategyId: AllocationStrategyId, settings: BacktestSettings, context: BacktestContext): BacktestResult => {
+  const { matched } = matchStocksToHistory(context.stocks, context.priceHistory);
+  const dates = getCommonDates(context.stocks, context.priceHistory)
+    .filter(date => date >= settings.startDate && date <= settings.endDate);
+  const base = {
+    strategyId,
+    label: getAllocationStrategy(strategyId).label,
+    curve: [] as EquityPoint[],
+    finalValue: settings.initialCapital,
+    cagr: 0,
+    volatility: 0,
+    maxDrawdown: 0,
+    sharpe: null,
+    rebalances: 0,
+    fees: 0,
+  };
+  if (dates.length < 2) return { ...base, error: 'At least two dates with prices for every stock are needed.' };
+
+  const { baseCurrency, fxRates } = context.currency;
+  const rates = new Map(matched.map(({ stock }) => [stock.id, getFxRate(fxRates, getStockCurrency(stock, baseCurrency), baseCurrency)]));
+  const unconverted = matched.filter(({ stock }) => rates.get(stock.id) === undefined).map(({ stock }) => stock.name);
+  if (unconverted.length > 0) return { ...base, error: `No exchange rate into ${baseCurrency} for ${unconverted.join(', ')}.` };
+  const priceOn = (stockId: string, closes: Map<string, number>, date: string) => closes.get(date)! * rates.get(stockId)!;
+
+  const stocksOn = (date: string): Stock[] => matched.map(({ stock, series, closes }) => {
+    const { lockedAmount: _locked, currentShares: _held, currency: _currency, ...rest } = stock;
+    const priced = { ...rest, price: priceOn(stock.id, closes, date) };
+    if (settings.estimates === 'current') return priced;
+    const stats = estimatePriceStats({ name: series.name, points: series.points.filter(point => point.date <= date) }, 'geometric', null);
+    return stats ? { ...priced, expectedReturn: Math.max(0, stats.annualReturn), volatility: stats.volatility } : priced;
+  });
+
+  let shares = new Map<string, number>();
+  let cash = settings.initialCapital;
+  let fees = 0;
+  let rebalances = 0;
+  let lastPeriod = '';
+  const curve: EquityPoint[] = [];
+
+  for (const [index, date] of dates.entries()) {
+    const value = cash + matched.reduce((sum, { stock, closes }) => sum + (shares.get(stock.id) ?? 0) * priceOn(stock.id, closes, date), 0);
+    const period = periodKey(date, settings.rebalance);
+
+    if (index === 0 || (settings.rebalance !== 'none' && period !== lastPeriod)) {
+      const plan = allocatePortfolio(strategyId, {
+        budget: value,
+        stocks: stocksOn(date),
+        shareMode: context.shareMode,
+        correlations: context.correlations,
+        meanVariance: context.meanVariance,
+        broker: context.broker,
+        // The prices are already converted; this sets the currency amounts are rounded in
+        currency: context.currency,
+        rounding: context.rounding,
+      });
+      const error = plan.issues.find(issue => issue.severity === 'error');
+      if (error) {
+        if (index === 0) return { ...base, error: error.message };
+      } else {
+        shares = new Map(plan.results.map(result => [result.stockId, result.fraction]));
+        cash = value - plan.totalInvestedAmount - plan.totalFees;
+        fees += plan.totalFees;
+        if (index > 0) rebalances++;
+      }
+      lastPeriod = period;
+    }
+
+    curve.push({ date, value: cash + matched.reduce((sum, { stock, closes }) => sum + (shares.get(stock.id) ?? 0) * priceOn(stock.id, closes, date), 0) });
+  }
+
+  return {
+    ...base,
+    curve,
+    finalValue: curve[curve.length - 1].value,
+    ...measureEquityCurve(curve, settings.riskFreeRate),
+    rebalances,
+    fees,
+    error: null,
+  };
+};
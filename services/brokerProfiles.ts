@@ -0,0 +1,138 @@
+import { BrokerProfile, InvestmentResult, RoundingMode } from '../types';
+import { roundShares } from './money';
+
+export const CUSTOM_BROKER_PROFILE_ID = 'custom';
+
+export const BROKER_PROFILES: BrokerProfile[] = [
+  {
+    id: 'none',
+    name: 'No Broker Costs',
+    commissionPerOrder: 0,
+    commissionPercent: 0,
+    minOrderAmount: 0,
+    shareIncrement: 0,
+  },
+  {
+    id: 'fractional-app',
+    name: 'Commission-Free Fractional App',
+    commissionPerOrder: 0,
+    commissionPercent: 0,
+    minOrderAmount: 1,
+    shareIncrement: 0.000001,
+  },
+  {
+    id: 'discount-fractional',
+    name: 'Discount Broker (Fractional)',
+    commissionPerOrder: 0.99,
+    commissionPercent: 0,
+    minOrderAmount: 5,
+    shareIncrement: 0.0001,
+  },
+  {
+    id: 'percentage-fee',
+    name: 'Percentage-Fee Broker',
+    commissionPerOrder: 0,
+    commissionPercent: 0.25,
+    minOrderAmount: 10,
+    shareIncrement: 0.001,
+  },
+  {
+    id: 'classic-whole-share',
+    name: 'Classic Broker (Whole Shares)',
+    commissionPerOrder: 4.95,
+    commissionPercent: 0,
+    minOrderAmount: 0,
+    shareIncrement: 1,
+  },
+];
+
+export const DEFAULT_CUSTOM_BROKER_PROFILE: BrokerProfile = {
+  id: CUSTOM_BROKER_PROFILE_ID,
+  name: 'Custom Broker',
+  commissionPerOrder: 1,
+  commissionPercent: 0,
+  minOrderAmount: 1,
+  shareIncrement: 0.0001,
+};
+
+/**
+ * Looks up a built-in broker profile, or returns the custom profile for the custom id.
+ * @param id The profile identifier.
+ * @param customProfile The user's custom profile.
+ * @returns The matching profile, falling back to the no-cost profile.
+ */
+export const getBrokerProfile = (id: string, customProfile: BrokerProfile): BrokerProfile =>
+  id === CUSTOM_BROKER_PROFILE_ID
+    ? customProfile
+    : BROKER_PROFILES.find(profile => profile.id === id) ?? BROKER_PROFILES[0];
+
+/**
+ * Whether a profile only allows whole-share orders.
+ * @param profile The broker profile.
+ * @returns True when the share increment is one share or more.
+ */
+export const requiresWholeShares = (profile: BrokerProfile): boolean => profile.shareIncrement >= 1;
+
+/**
+ * Commission charged for a single buy order.
+ * @param profile The broker profile.
+ * @param orderAmount The order value, in the base currency.
+ * @returns The unrounded fee; zero when nothing is ordered.
+ */
+export const calculateOrderFee = (profile: BrokerProfile, orderAmount: number): number =>
+  orderAmount > 0 ? profile.commissionPerOrder + orderAmount * profile.commissionPercent / 100 : 0;
+
+/**
+ * Rounds a share quantity to the broker's share increment.
+ * @param profile The broker profile.
+ * @param shares The desired number of shares.
+ * @param mode How to round between two legal quantities; by default down, so the order never grows.
+ * @returns The legal quantity.
+ */
+export const roundToShareIncrement = (profile: BrokerProfile, shares: number, mode: RoundingMode = 'down'): number =>
+  roundShares(shares, profile.shareIncrement, mode);
+
+/**
+ * Turns a raw result row into a legal order: quantity rounded to the share increment, orders
+ * below the broker's minimum dropped, and the commission attached.
+ * @param profile The broker profile.
+ * @param result The unrounded result row.
+ * @param price The stock's price per share.
+ * @param expectedReturn The stock's expected return (%).
+ * @param sharesMode How to round the quantity to the share increment.
+ * @returns The adjusted result row including its fee.
+ */
+export const applyBrokerRules = (
+  profile: BrokerProfile,
+  result: InvestmentResult,
+  price: number,
+  expectedReturn: number,
+  sharesMode: RoundingMode = 'down',
+): InvestmentResult => {
+  let shares = roundToShareIncrement(profile, result.fraction, sharesMode);
+  if (shares * price < profile.minOrderAmount) {
+    shares = 0;
+  }
+  const investedAmount = shares * price;
+  return {
+    ...result,
+    fraction: shares,
+    investedAmount,
+    actualReturn: investedAmount * (expectedReturn / 100),
+    fee: calculateOrderFee(profile, investedAmount),
+  };
+};
+
+/**
+ * Validates a (custom) broker profile.
+ * @param profile The profile to check.
+ * @returns An error message, or null when the profile is usable.
+ */
+export const validateBrokerProfile = (profile: BrokerProfile): string | null => {
+  if (profile.name.trim() === '') return 'Please give the broker profile a name.';
+  if ([profile.commissionPerOrder, profile.commissionPercent, profile.minOrderAmount, profile.shareIncrement].some(v => isNaN(v) || v < 0)) {
+    return 'Broker fees, minimum order and share increment must be non-negative numbers.';
+  }
+  if (profile.commissionPercent >= 100) return 'The percentage commission must be below 100%.';
+  return null;
+};
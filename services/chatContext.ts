@@ -0,0 +1,58 @@
+import { Stock, InvestmentResult } from '../types';
+import { BuiltPrompt, DATA_HANDLING_RULES, PROMPT_LIMITS, formatUserData, roundForPrompt, sanitizeUserText } from './promptBuilder';
+import { getStockCurrency } from './currency';
+import { subtractMoney, sumMoney } from './money';
+
+// The chat's ground rules. They never include user data, which is sent as a separate turn.
+const CHAT_INSTRUCTIONS = `You are an AI assistant inside a hypothetical stock allocation tool, discussing fictional scenarios for educational purposes. This is not financial advice; say so when you make recommendations.
+Answer follow-up questions using the conversation so far and the current portfolio, which is sent at the start of the conversation and kept up to date automatically. When the user asks "what if" questions, reason from these numbers and state your assumptions. An empty allocation means it hasn't been calculated yet. The budget, allocation and totals are in the base currency; each stock's price is in its own currency. Amounts you propose (budget, invested amounts, prices of new stocks) are in the base currency.
+When the user asks you to change the plan, propose the change with the available functions. The user confirms each proposal before it is applied, so never say a change has been made; the conversation notes whether each proposal was applied or dismissed.
+${DATA_HANDLING_RULES}`;
+
+/**
+ * Builds the context attached to every chat request: fixed ground rules as the system
+ * instruction, and a snapshot of the current budget, stocks and allocation as a leading
+ * context turn. Stocks are numbered so the user can refer to them by position ("the second
+ * stock"). The snapshot holds user-entered stock names, so it goes in a delimited data block
+ * and never into the system instruction.
+ * @param budget The investment budget.
+ * @param stocks The stock universe.
+ * @param investmentResults The current allocation.
+ * @param baseCurrency The currency of the budget and of every amount in the allocation.
+ * @returns The system instruction and the context turn.
+ */
+export const buildPortfolioContext = (budget: number, stocks: Stock[], investmentResults: InvestmentResult[], baseCurrency: string): BuiltPrompt => {
+  const totalInvested = sumMoney(investmentResults.map(result => result.investedAmount), baseCurrency);
+  const totalFees = sumMoney(investmentResults.map(result => result.fee ?? 0), baseCurrency);
+  const totalReturn = sumMoney(investmentResults.map(result => result.actualReturn), baseCurrency);
+
+  const portfolio = {
+    baseCurrency,
+    budget: roundForPrompt(budget),
+    stocks: stocks.map((stock, index) => ({
+      position: index + 1,
+      name: sanitizeUserText(stock.name, PROMPT_LIMITS.stockName),
+      price: roundForPrompt(stock.price),
+      currency: getStockCurrency(stock, baseCurrency),
+      expectedReturnPercent: roundForPrompt(stock.expectedReturn),
+      ...(stock.volatility !== undefined ? { volatilityPercent: roundForPrompt(stock.volatility) } : {}),
+      ...(stock.currentShares !== undefined ? { sharesHeld: stock.currentShares } : {}),
+    })),
+    allocation: investmentResults.filter(result => result.investedAmount > 0).map(result => ({
+      stock: sanitizeUserText(result.stockName, PROMPT_LIMITS.stockName),
+      invested: roundForPrompt(result.investedAmount),
+      shares: parseFloat(result.fraction.toFixed(4)),
+      expectedReturn: roundForPrompt(result.actualReturn),
+      ...(result.fee ? { fee: roundForPrompt(result.fee) } : {}),
+    })),
+    totalInvested: roundForPrompt(totalInvested),
+    totalFees: roundForPrompt(totalFees),
+    totalExpectedReturn: roundForPrompt(totalReturn),
+    remainingBudget: roundForPrompt(subtractMoney(budget, [totalInvested, totalFees], baseCurrency)),
+  };
+
+  return {
+    systemInstruction: CHAT_INSTRUCTIONS,
+    contents: `Current portfolio:\n${formatUserData(portfolio)}`,
+  };
+};
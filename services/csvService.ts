@@ -0,0 +1,203 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Stock } from '../types';
+import { OptionalStockField, EMPTY_OPTIONAL_FIELDS, parseOptionalStockFields } from './stockFields';
+import { normalizeCurrencyCode } from './currency';
+
+export type ImportableStockField = 'name' | 'price' | 'currency' | 'expectedReturn' | OptionalStockField;
+
+// Column index for each stock field; null when the field is not imported
+export type StockColumnMapping = Record<ImportableStockField, number | null>;
+
+export interface CsvRowError {
+  row: number; // 1-based row in the file, counting the header and skipping blank lines
+  message: string;
+}
+
+export interface StockImportResult {
+  stocks: Stock[];
+  errors: CsvRowError[];
+}
+
+export const IMPORTABLE_STOCK_FIELDS: { field: ImportableStockField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'price', label: 'Price', required: true },
+  { field: 'currency', label: 'Currency', required: false },
+  { field: 'expectedReturn', label: 'Expected Return (%)', required: true },
+  { field: 'volatility', label: 'Volatility (%)', required: false },
+  { field: 'targetWeight', label: 'Target Weight (%)', required: false },
+  { field: 'minWeight', label: 'Min Weight (%)', required: false },
+  { field: 'maxWeight', label: 'Max Weight (%)', required: false },
+  { field: 'maxAmount', label: 'Max Amount (base currency)', required: false },
+  { field: 'currentShares', label: 'Shares Held', required: false },
+];
+
+// Header spellings recognized when guessing the column mapping, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<ImportableStockField, string[]> = {
+  name: ['name', 'stock', 'stockname', 'ticker', 'symbol', 'company'],
+  price: ['price', 'shareprice', 'lastprice', 'close'],
+  currency: ['currency', 'ccy', 'cur', 'pricecurrency'],
+  expectedReturn: ['expectedreturn', 'return', 'expectedreturnpct', 'annualreturn'],
+  volatility: ['volatility', 'vol', 'stddev', 'risk'],
+  targetWeight: ['targetweight', 'target', 'weight'],
+  minWeight: ['minweight', 'minimumweight'],
+  maxWeight: ['maxweight', 'maximumweight'],
+  maxAmount: ['maxamount', 'maximumamount', 'cap'],
+  currentShares: ['currentshares', 'shares', 'sharesheld', 'holdings', 'quantity', 'qty'],
+};
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells (including embedded commas, quotes
+ * and line breaks), CRLF line endings and a leading byte order mark. Blank lines are skipped.
+ * @param text The CSV text.
+ * @returns The rows, each an array of cell strings.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+// Text starting with one of these is run as a formula when a spreadsheet opens the file
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Formats rows as CSV, quoting cells that contain commas, quotes or line breaks. Text cells
+ * that a spreadsheet would read as a formula, such as a stock named "=HYPERLINK(...)", get a
+ * leading apostrophe; numbers are written as they are.
+ * @param rows The rows to format.
+ * @returns The CSV text, with CRLF line endings.
+ */
+export const formatCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(value => {
+    const text = typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n');
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which column holds each stock field from the header row.
+ * @param headers The header cells.
+ * @returns The best-guess mapping; fields without a recognizable header are unmapped.
+ */
+export const guessColumnMapping = (headers: string[]): StockColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as StockColumnMapping;
+  IMPORTABLE_STOCK_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  });
+  return mapping;
+};
+
+/**
+ * Reads a number from a spreadsheet cell, tolerating currency symbols, percent signs,
+ * thousands separators and surrounding spaces.
+ * @param cell The cell text.
+ * @returns The number, or NaN when the cell isn't numeric.
+ */
+export const parseNumberCell = (cell: string): number => {
+  const cleaned = cell.trim().replace(/[$€£%\s]/g, '').replace(/,(?=\d{3}(\D|$))/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+/**
+ * Converts CSV rows into stocks using a column mapping. Each invalid row is reported with its
+ * line number and skipped; valid rows are imported.
+ * @param rows The parsed CSV rows.
+ * @param mapping The column for each field.
+ * @param hasHeader Whether the first row is a header to skip.
+ * @returns The imported stocks and any row errors.
+ */
+export const importStocksFromCsv = (rows: string[][], mapping: StockColumnMapping, hasHeader: boolean): StockImportResult => {
+  const missing = IMPORTABLE_STOCK_FIELDS.filter(({ field, required }) => required && mapping[field] === null);
+  if (missing.length > 0) {
+    return { stocks: [], errors: [{ row: 0, message: `Please choose a column for: ${missing.map(({ label }) => label).join(', ')}.` }] };
+  }
+
+  const stocks: Stock[] = [];
+  const errors: CsvRowError[] = [];
+  const cellFor = (row: string[], field: ImportableStockField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const line = i + (hasHeader ? 2 : 1);
+    const name = cellFor(row, 'name');
+    const price = parseNumberCell(cellFor(row, 'price'));
+    const expectedReturn = parseNumberCell(cellFor(row, 'expectedReturn'));
+
+    if (name === '') {
+      errors.push({ row: line, message: 'Name is empty.' });
+      return;
+    }
+    if (isNaN(price) || price <= 0) {
+      errors.push({ row: line, message: `${name}: price "${cellFor(row, 'price')}" is not a positive number.` });
+      return;
+    }
+    if (isNaN(expectedReturn) || expectedReturn < 0) {
+      errors.push({ row: line, message: `${name}: expected return "${cellFor(row, 'expectedReturn')}" is not a non-negative number.` });
+      return;
+    }
+    // An empty currency cell means the price is in the base currency
+    const currencyCell = cellFor(row, 'currency');
+    const currency = currencyCell === '' ? undefined : normalizeCurrencyCode(currencyCell);
+    if (currency === null) {
+      errors.push({ row: line, message: `${name}: currency "${currencyCell}" is not a three-letter currency code.` });
+      return;
+    }
+
+    const rawOptional = { ...EMPTY_OPTIONAL_FIELDS };
+    (Object.keys(EMPTY_OPTIONAL_FIELDS) as OptionalStockField[]).forEach(field => {
+      const cell = cellFor(row, field);
+      rawOptional[field] = cell === '' ? '' : String(parseNumberCell(cell));
+    });
+    const { values, error } = parseOptionalStockFields(rawOptional);
+    if (error) {
+      errors.push({ row: line, message: `${name}: ${error}` });
+      return;
+    }
+
+    stocks.push({ id: uuidv4(), name, price, expectedReturn, ...(currency ? { currency } : {}), ...values });
+  });
+
+  return { stocks, errors };
+};
@@ -0,0 +1,206 @@
+import { Stock, AllocationIssue, CurrencySettings, FxRates } from '../types';
+import { getMinorUnitDigits } from './money';
+
+// Stock prices are quoted in each stock's own currency; the budget, limits, fees and every
+// computed amount are in the portfolio's base currency. Prices are converted with a
+// user-maintained rate table before anything is allocated.
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+// Offered in the currency pickers; any other ISO 4217 code can still be typed in or imported
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'CNY', 'HKD', 'SGD', 'KRW', 'INR', 'CAD', 'AUD', 'SEK', 'NOK', 'DKK'];
+
+// No rates are shipped: they go stale, so the user enters them or loads a rates file
+export const DEFAULT_FX_RATES: FxRates = { base: DEFAULT_BASE_CURRENCY, rates: {} };
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  baseCurrency: DEFAULT_BASE_CURRENCY,
+  fxRates: DEFAULT_FX_RATES,
+};
+
+// Symbols accepted in place of a code when importing
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+};
+
+/**
+ * Reads a currency code or symbol.
+ * @param text The user's input, e.g. "eur", " GBP " or "€".
+ * @returns The upper-case ISO 4217 code, or null when the text isn't one.
+ */
+export const normalizeCurrencyCode = (text: string): string | null => {
+  const trimmed = text.trim();
+  const code = CURRENCY_SYMBOLS[trimmed] ?? trimmed.toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : null;
+};
+
+/**
+ * The currency a stock's price is quoted in.
+ * @param stock The stock.
+ * @param baseCurrency The portfolio's base currency, used when the stock has none.
+ * @returns The currency code.
+ */
+export const getStockCurrency = (stock: Stock, baseCurrency: string): string => stock.currency ?? baseCurrency;
+
+/**
+ * The value of one unit of a currency in another, crossing through the table's base when
+ * neither side is the base.
+ * @param fxRates The rate table.
+ * @param from The currency to convert from.
+ * @param to The currency to convert to.
+ * @returns The rate, or undefined when the table lacks either currency.
+ */
+export const getFxRate = (fxRates: FxRates, from: string, to: string): number | undefined => {
+  if (from === to) return 1;
+  const perBase = (code: string) => code === fxRates.base ? 1 : fxRates.rates[code];
+  const fromRate = perBase(from);
+  const toRate = perBase(to);
+  return fromRate > 0 && toRate > 0 ? toRate / fromRate : undefined;
+};
+
+/**
+ * Converts an amount between currencies.
+ * @param amount The amount in `from`.
+ * @param from The currency of the amount.
+ * @param to The currency to convert to.
+ * @param fxRates The rate table.
+ * @returns The converted amount, or undefined when there is no rate.
+ */
+export const convertAmount = (amount: number, from: string, to: string, fxRates: FxRates): number | undefined => {
+  const rate = getFxRate(fxRates, from, to);
+  return rate === undefined ? undefined : amount * rate;
+};
+
+/**
+ * Re-prices stocks in the base currency. Stocks whose currency has no rate keep their own
+ * price and are reported, since allocating them would mix currencies.
+ * @param stocks The stocks, priced in their own currencies.
+ * @param settings The base currency and rate table.
+ * @returns The converted stocks (in the same order) and an error for each stock without a rate.
+ */
+export const convertStocksToBase = (stocks: Stock[], settings: CurrencySettings): { stocks: Stock[]; issues: AllocationIssue[] } => {
+  const issues: AllocationIssue[] = [];
+  const converted = stocks.map(stock => {
+    const currency = getStockCurrency(stock, settings.baseCurrency);
+    if (currency === settings.baseCurrency) return stock;
+    const rate = getFxRate(settings.fxRates, currency, settings.baseCurrency);
+    if (rate === undefined) {
+      issues.push({
+        severity: 'error',
+        message: `${stock.name} is priced in ${currency}, but there is no ${currency}/${settings.baseCurrency} exchange rate. Add one under Currencies.`,
+        stockId: stock.id,
+      });
+      return stock;
+    }
+    return { ...stock, price: stock.price * rate, currency: settings.baseCurrency };
+  });
+  return { stocks: converted, issues };
+};
+
+/**
+ * The currencies to offer in a picker: the common ones plus any the portfolio already uses.
+ * @param settings The base currency and rate table.
+ * @param stocks The stocks, whose currencies are included.
+ * @returns The currency codes, sorted.
+ */
+export const getCurrencyOptions = (settings: CurrencySettings, stocks: Stock[] = []): string[] => [
+  ...new Set([
+    ...COMMON_CURRENCIES,
+    settings.baseCurrency,
+    settings.fxRates.base,
+    ...Object.keys(settings.fxRates.rates),
+    ...stocks.map(stock => getStockCurrency(stock, settings.baseCurrency)),
+  ]),
+].sort();
+
+/**
+ * The currencies used by stocks that can't be converted into the base currency.
+ * @param stocks The stocks.
+ * @param settings The base currency and rate table.
+ * @returns The missing currency codes, without duplicates.
+ */
+export const findMissingRates = (stocks: Stock[], settings: CurrencySettings): string[] => [
+  ...new Set(stocks
+    .map(stock => getStockCurrency(stock, settings.baseCurrency))
+    .filter(currency => getFxRate(settings.fxRates, currency, settings.baseCurrency) === undefined)),
+];
+
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Formats an amount with its currency symbol, using the currency's usual number of decimals
+ * (none for yen, two for most others) unless told otherwise.
+ * @param value The amount.
+ * @param currency The ISO 4217 code.
+ * @param fractionDigits Fixed number of decimals, e.g. 0 for chart axes.
+ * @returns The formatted amount, e.g. "$1,234.50", "€80.00" or "¥1,500".
+ */
+export const formatMoney = (value: number, currency: string, fractionDigits?: number): string => {
+  // Anything that rounds to zero is shown as zero, never "-$0.00"
+  if (Math.abs(value) < 0.5 * 10 ** -(fractionDigits ?? getMinorUnitDigits(currency))) value = 0;
+  const key = `${currency}/${fractionDigits ?? ''}`;
+  let format = moneyFormats.get(key);
+  if (!format) {
+    try {
+      format = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+        ...(fractionDigits !== undefined ? { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits } : {}),
+      });
+    } catch {
+      // Not a code Intl knows; show the number with the code after it
+      return `${value.toFixed(fractionDigits ?? 2)} ${currency}`;
+    }
+    moneyFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+/**
+ * Reads a local exchange-rate file in the common `{ "base": "USD", "rates": { "EUR": 0.92 } }`
+ * layout, with an optional "date" (or "asOf"). Entries that aren't a currency code with a
+ * positive rate are skipped.
+ * @param text The file contents.
+ * @returns The rate table and the skipped entries, or an error message when the file is unusable.
+ */
+export const parseFxRatesFile = (text: string): { fxRates: FxRates | null; skipped: string[]; error: string | null } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^﻿/, ''));
+  } catch {
+    return { fxRates: null, skipped: [], error: 'The rates file is not valid JSON.' };
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { fxRates: null, skipped: [], error: 'The rates file must be a JSON object with "base" and "rates".' };
+  }
+  const record = data as Record<string, unknown>;
+  const base = typeof record.base === 'string' ? normalizeCurrencyCode(record.base) : null;
+  if (!base) {
+    return { fxRates: null, skipped: [], error: 'The rates file needs a "base" currency code, e.g. "USD".' };
+  }
+  if (typeof record.rates !== 'object' || record.rates === null || Array.isArray(record.rates)) {
+    return { fxRates: null, skipped: [], error: 'The rates file needs a "rates" object, e.g. { "EUR": 0.92 }.' };
+  }
+
+  const rates: Record<string, number> = {};
+  const skipped: string[] = [];
+  Object.entries(record.rates as Record<string, unknown>).forEach(([key, value]) => {
+    const code = normalizeCurrencyCode(key);
+    if (code && typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      if (code !== base) rates[code] = value;
+    } else {
+      skipped.push(key);
+    }
+  });
+  if (Object.keys(rates).length === 0) {
+    return { fxRates: null, skipped, error: 'The rates file has no usable rates.' };
+  }
+
+  const asOf = [record.date, record.asOf].find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  return { fxRates: { base, rates, ...(asOf ? { asOf: asOf.trim() } : {}) }, skipped, error: null };
+};
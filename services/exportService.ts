@@ -0,0 +1,135 @@
+import { InvestmentResult, Stock, AllocationPlan, BrokerProfile, CurrencySettings } from '../types';
+import { getAllocationStrategy, SHARE_MODE_LABELS } from './allocationService';
+import { formatCsv } from './csvService';
+import { getFxRate, getStockCurrency } from './currency';
+import { roundMoney, subtractMoney, sumMoney } from './money';
+
+export interface ResultsExportInput {
+  budget: number;
+  results: InvestmentResult[];
+  stocks: Stock[];
+  planMode: Pick<AllocationPlan, 'strategyId' | 'shareMode'> | null;
+  broker: BrokerProfile;
+  currency: CurrencySettings;
+}
+
+export interface ResultsExportTotals {
+  budget: number;
+  invested: number;
+  fees: number;
+  remainingCash: number;
+  expectedReturn: number;
+  netReturn: number;
+}
+
+/**
+ * Sums the result table into the totals shown under it.
+ * @param input The results and budget.
+ * @returns Totals in the base currency's minor unit, adding up to the budget exactly.
+ */
+export const calculateResultTotals = ({ budget, results, currency }: ResultsExportInput): ResultsExportTotals => {
+  const { baseCurrency } = currency;
+  const invested = sumMoney(results.map(result => result.investedAmount), baseCurrency);
+  const fees = sumMoney(results.map(result => result.fee ?? 0), baseCurrency);
+  const expectedReturn = sumMoney(results.map(result => result.actualReturn), baseCurrency);
+  return {
+    budget: roundMoney(budget, baseCurrency),
+    invested,
+    fees,
+    remainingCash: subtractMoney(budget, [invested, fees], baseCurrency),
+    expectedReturn,
+    netReturn: subtractMoney(expectedReturn, [fees], baseCurrency),
+  };
+};
+
+// A stock's price currency and its rate into the base currency, as exported next to the price
+const priceDetails = (input: ResultsExportInput, stock: Stock | undefined) => {
+  if (!stock) return { currency: null, fxRate: null };
+  const currency = getStockCurrency(stock, input.currency.baseCurrency);
+  return { currency, fxRate: getFxRate(input.currency.fxRates, currency, input.currency.baseCurrency) ?? null };
+};
+
+/**
+ * Formats the result table as CSV, one row per stock followed by a totals block. Prices are
+ * in each stock's currency, with the rate used to convert them; all amounts are in the base
+ * currency.
+ * @param input The results, stocks and plan details.
+ * @returns The CSV text.
+ */
+export const exportResultsToCsv = (input: ResultsExportInput): string => {
+  const totals = calculateResultTotals(input);
+  const base = input.currency.baseCurrency;
+  const rows: (string | number)[][] = [
+    ['Stock', 'Price', 'Price Currency', `FX Rate to ${base}`, 'Expected Return (%)', 'Shares', `Invested Amount (${base})`, `Expected Return (${base})`, `Fee (${base})`, `Net Return (${base})`],
+    ...input.results.map(result => {
+      const stock = input.stocks.find(s => s.id === result.stockId);
+      const { currency, fxRate } = priceDetails(input, stock);
+      const fee = result.fee ?? 0;
+      return [
+        result.stockName,
+        stock?.price ?? '',
+        currency ?? '',
+        fxRate ?? '',
+        stock?.expectedReturn ?? '',
+        parseFloat(result.fraction.toFixed(6)),
+        roundMoney(result.investedAmount, base),
+        roundMoney(result.actualReturn, base),
+        roundMoney(fee, base),
+        subtractMoney(result.actualReturn, [fee], base),
+      ];
+    }),
+    [],
+    ['Total', '', '', '', '', '', totals.invested, totals.expectedReturn, totals.fees, totals.netReturn],
+    ['Budget', '', '', '', '', '', totals.budget],
+    ['Remaining Cash', '', '', '', '', '', totals.remainingCash],
+  ];
+  return formatCsv(rows);
+};
+
+/**
+ * Formats the result table as JSON, including the plan settings and totals. Amounts are in
+ * the base currency; prices are in each stock's currency.
+ * @param input The results, stocks and plan details.
+ * @returns Pretty-printed JSON text.
+ */
+export const exportResultsToJson = (input: ResultsExportInput): string => JSON.stringify({
+  exportedAt: new Date().toISOString(),
+  strategy: input.planMode ? getAllocationStrategy(input.planMode.strategyId).label : null,
+  shareMode: input.planMode ? SHARE_MODE_LABELS[input.planMode.shareMode] : null,
+  broker: input.broker.name,
+  baseCurrency: input.currency.baseCurrency,
+  ...(input.currency.fxRates.asOf ? { fxRatesAsOf: input.currency.fxRates.asOf } : {}),
+  positions: input.results.map(result => {
+    const stock = input.stocks.find(s => s.id === result.stockId);
+    const fee = result.fee ?? 0;
+    return {
+      stock: result.stockName,
+      price: stock?.price ?? null,
+      ...priceDetails(input, stock),
+      expectedReturnPercent: stock?.expectedReturn ?? null,
+      shares: result.fraction,
+      investedAmount: roundMoney(result.investedAmount, input.currency.baseCurrency),
+      expectedReturn: roundMoney(result.actualReturn, input.currency.baseCurrency),
+      fee: roundMoney(fee, input.currency.baseCurrency),
+      netReturn: subtractMoney(result.actualReturn, [fee], input.currency.baseCurrency),
+    };
+  }),
+  totals: calculateResultTotals(input),
+}, null, 2);
+
+/**
+ * Offers text to the user as a file download.
+ * @param filename The suggested file name.
+ * @param content The file contents.
+ * @param mimeType The content type.
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
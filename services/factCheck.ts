@@ -0,0 +1,376 @@
+import { InvestmentResult, Stock } from '../types';
+import { parseMarkdown, toPlainText, MarkdownAnnotation } from './markdown';
+import { formatMoney, getStockCurrency } from './currency';
+import { subtractMoney, sumMoney } from './money';
+
+// Checks the figures and tickers quoted in an AI response against the portfolio the app
+// computed. Findings are offsets into the response's plain text (see toPlainText), so the
+// response panel can highlight them in place.
+
+export interface FactCheckInput {
+  budget: number;
+  stocks: Stock[];
+  investmentResults: InvestmentResult[];
+  totalInvestedAmount: number;
+  baseCurrency: string; // Of the budget and every computed amount; prices are in each stock's currency
+}
+
+export type FactCheckStatus =
+  | 'verified'       // The figure matches a number in the plan
+  | 'mismatch'       // The figure is quoted for a stock or total but doesn't match it
+  | 'unknown-ticker' // A ticker-like symbol that isn't one of the plan's stocks
+  | 'unchecked';     // A figure that can't be tied to anything in the plan
+
+export interface FactCheckFinding {
+  start: number;
+  end: number;
+  text: string;
+  status: FactCheckStatus;
+  note: string;
+}
+
+export interface FactCheckResult {
+  findings: FactCheckFinding[];
+  verified: number;
+  mismatches: number;
+  unknownTickers: number;
+  unchecked: number;
+}
+
+type FigureKind = 'amount' | 'percent';
+
+interface KnownFigure {
+  kind: FigureKind;
+  value: number;
+  description: string;
+  currency?: string; // For amounts not in the base currency
+}
+
+// Something a figure can be quoted for: a stock or one of the portfolio totals
+interface FigureLabel {
+  name: string;
+  terms: string[];
+  figures: KnownFigure[];
+}
+
+interface QuotedFigure {
+  kind: FigureKind;
+  start: number;
+  end: number;
+  value: number;
+  tolerance: number;
+}
+
+// How far before and after a figure its label may appear, within the same line
+const LABEL_LOOKBEHIND = 80;
+const LABEL_LOOKAHEAD = 30;
+// A label after the figure ("$500 in Apple") counts as this many characters further away
+const LOOKAHEAD_PENALTY = 5;
+
+const AMOUNT_NUMBER = String.raw`(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s?(k|m|mn|bn|b|thousand|million|billion)\b)?`;
+// Symbols quoted before an amount, including prefixed dollars such as "US$" and "HK$"
+const CURRENCY_SYMBOL = String.raw`(?:[A-Z]{1,2}\$|[$€£¥₹₩])`;
+const PERCENT = /(?<![\w.])([-+−]?)(\d+)(?:\.(\d+))?\s?(%|percent\b)/gi;
+const TICKER = /(?<![\w$&.])\$?([A-Z]{2,5})(?![\w&$])/g;
+const APPROXIMATE = /\b(about|around|approximately|approx\.?|roughly|nearly|almost|close to|over|under|more than|less than)\s*$|~\s*$/i;
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mn: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9,
+};
+
+// Upper-case words that are common in financial writing but aren't tickers
+const NON_TICKERS = new Set([
+  'AI', 'API', 'APR', 'APY', 'AUM', 'CAGR', 'CEO', 'CFO', 'CPI', 'CTO', 'DCF', 'DIY', 'EBIT', 'EPS', 'ESG', 'ETA', 'ETF',
+  'ETFS', 'EU', 'EUR', 'FAQ', 'FED', 'FX', 'FYI', 'GBP', 'GDP', 'IMO', 'INC', 'IPO', 'IRA', 'IT', 'JPY', 'KPI', 'LLC',
+  'LTD', 'MPT', 'NAV', 'NB', 'NOTE', 'NYSE', 'OK', 'PE', 'PLC', 'PS', 'QOQ', 'REIT', 'ROE', 'ROI', 'SEC', 'TLDR', 'TTM',
+  'UK', 'US', 'USA', 'USD', 'UTC', 'VAR', 'YOY', 'YTD', 'AM', 'PM', 'CAD', 'AUD', 'CHF', 'CNY', 'HKD', 'INR',
+]);
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+const formatFigure = (figure: KnownFigure, baseCurrency: string) =>
+  `${figure.description} ${figure.kind === 'amount' ? formatMoney(figure.value, figure.currency ?? baseCurrency) : formatPercent(figure.value)}`;
+
+/**
+ * Builds the amount pattern: a number after a currency symbol or one of the plan's currency
+ * codes ("$1,200", "€80.50", "EUR 80"), or followed by a code ("80.50 EUR").
+ * @param currencies The plan's currency codes.
+ * @returns The pattern; groups 1-4 (code or symbol first) or 5-8 (code last) hold the sign, whole
+ * part, decimals and magnitude suffix.
+ */
+const buildAmountPattern = (currencies: string[]): RegExp => {
+  const codes = currencies.join('|');
+  return new RegExp(
+    String.raw`(?<![\w.])(-|−)?(?:${CURRENCY_SYMBOL}\s?|(?:${codes})\s)${AMOUNT_NUMBER}`
+      + String.raw`|(?<![\w.])(-|−)?${AMOUNT_NUMBER}\s(?:${codes})\b`,
+    'gi',
+  );
+};
+
+// The base currency and every currency a stock is priced in
+const getPlanCurrencies = ({ stocks, baseCurrency }: FactCheckInput): string[] =>
+  [...new Set([baseCurrency, ...stocks.map(stock => getStockCurrency(stock, baseCurrency))])];
+
+/**
+ * Collects every number the app computed for the plan, grouped by what they describe.
+ * @param input The plan.
+ * @returns The stock labels followed by the portfolio total labels.
+ */
+const buildLabels = ({ budget, stocks, investmentResults, totalInvestedAmount, baseCurrency }: FactCheckInput): FigureLabel[] => {
+  const totalFees = sumMoney(investmentResults.map(result => result.fee ?? 0), baseCurrency);
+  const totalReturn = sumMoney(investmentResults.map(result => result.actualReturn), baseCurrency);
+  const remaining = subtractMoney(budget, [totalInvestedAmount], baseCurrency);
+  const percentOf = (value: number, total: number) => total > 0 ? value / total * 100 : 0;
+
+  const stockLabels = stocks.map((stock): FigureLabel => {
+    const result = investmentResults.find(r => r.stockId === stock.id);
+    const figures: KnownFigure[] = [
+      { kind: 'amount', value: stock.price, description: 'price', currency: getStockCurrency(stock, baseCurrency) },
+      { kind: 'percent', value: stock.expectedReturn, description: 'expected return' },
+    ];
+    if (stock.volatility !== undefined) figures.push({ kind: 'percent', value: stock.volatility, description: 'volatility' });
+    if (stock.targetWeight !== undefined) figures.push({ kind: 'percent', value: stock.targetWeight, description: 'target weight' });
+    if (result) {
+      figures.push(
+        { kind: 'amount', value: result.investedAmount, description: 'invested' },
+        { kind: 'amount', value: result.actualReturn, description: 'expected return' },
+        { kind: 'percent', value: percentOf(result.investedAmount, totalInvestedAmount), description: 'share of the invested amount' },
+        { kind: 'percent', value: percentOf(result.investedAmount, budget), description: 'share of the budget' },
+      );
+      if (result.fee) {
+        figures.push(
+          { kind: 'amount', value: result.fee, description: 'fee' },
+          { kind: 'amount', value: result.actualReturn - result.fee, description: 'net return' },
+        );
+      }
+    }
+    return { name: stock.name, terms: [stock.name], figures };
+  });
+
+  const totalLabels: FigureLabel[] = [
+    {
+      name: 'Budget',
+      terms: ['budget'],
+      figures: [
+        { kind: 'amount', value: budget, description: 'budget' },
+        { kind: 'percent', value: percentOf(totalInvestedAmount, budget), description: 'invested share of the budget' },
+        { kind: 'percent', value: percentOf(remaining, budget), description: 'uninvested share of the budget' },
+        ...stockLabels.flatMap(label => label.figures.filter(figure => figure.description === 'share of the budget')
+          .map(figure => ({ ...figure, description: `${label.name} share of the budget` }))),
+      ],
+    },
+    {
+      name: 'Total invested',
+      terms: ['total invested', 'invested in total', 'total investment', 'total amount invested', 'invested amount'],
+      figures: [
+        { kind: 'amount', value: totalInvestedAmount, description: 'total invested' },
+        { kind: 'percent', value: percentOf(totalInvestedAmount, budget), description: 'invested share of the budget' },
+      ],
+    },
+    {
+      name: 'Total return',
+      terms: ['total return', 'total actual return', 'total expected return', 'portfolio return', 'overall return', 'combined return'],
+      figures: [
+        { kind: 'amount', value: totalReturn, description: 'total return' },
+        ...(totalFees > 0 ? [{ kind: 'amount' as const, value: totalReturn - totalFees, description: 'net return after fees' }] : []),
+        { kind: 'percent', value: percentOf(totalReturn, totalInvestedAmount), description: 'return on the invested amount' },
+        { kind: 'percent', value: percentOf(totalReturn, budget), description: 'return on the budget' },
+      ],
+    },
+    {
+      name: 'Remaining budget',
+      terms: ['remaining', 'remaining budget', 'budget remaining', 'left over', 'leftover', 'uninvested', 'unallocated', 'cash'],
+      figures: [
+        { kind: 'amount', value: remaining, description: 'remaining budget' },
+        ...(totalFees > 0 ? [{ kind: 'amount' as const, value: subtractMoney(remaining, [totalFees], baseCurrency), description: 'remaining cash after fees' }] : []),
+        { kind: 'percent', value: percentOf(remaining, budget), description: 'uninvested share of the budget' },
+      ],
+    },
+    {
+      name: 'Fees',
+      terms: ['fees', 'fee', 'commission', 'commissions'],
+      figures: [
+        { kind: 'amount', value: totalFees, description: 'total fees' },
+        ...investmentResults.filter(result => result.fee).map((result): KnownFigure =>
+          ({ kind: 'amount', value: result.fee!, description: `${result.stockName} fee` })),
+      ],
+    },
+  ];
+
+  return [...stockLabels, ...totalLabels];
+};
+
+const isWordCharacter = (character: string | undefined) => character !== undefined && /[\p{L}\p{N}]/u.test(character);
+
+// Finds whole-word, case-insensitive occurrences of a term
+const findTerm = (text: string, term: string): number[] => {
+  const positions: number[] = [];
+  const haystack = text.toLowerCase();
+  const needle = term.toLowerCase();
+  if (needle === '') return positions;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + 1)) {
+    if (!isWordCharacter(text[index - 1]) && !isWordCharacter(text[index + needle.length])) positions.push(index);
+  }
+  return positions;
+};
+
+/**
+ * Finds the label closest to a figure on its line that has known figures of the same kind.
+ * @param text The plain text.
+ * @param figure The quoted figure.
+ * @param labels The plan's labels.
+ * @returns The closest label, or null when the figure isn't near one.
+ */
+const findLabel = (text: string, figure: QuotedFigure, labels: FigureLabel[]): FigureLabel | null => {
+  const lineStart = text.lastIndexOf('\n', figure.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', figure.end);
+  // Labels don't reach back past the end of the previous sentence; "$150.00" isn't one
+  let sentenceStart = lineStart;
+  for (const match of text.slice(lineStart, figure.start).matchAll(/[.!?]\s/g)) sentenceStart = lineStart + match.index! + match[0].length;
+  const windowStart = Math.max(sentenceStart, figure.start - LABEL_LOOKBEHIND);
+  // A label after the figure only counts within the same clause
+  const after = text.slice(figure.end, Math.min(lineEnd === -1 ? text.length : lineEnd, figure.end + LABEL_LOOKAHEAD));
+  const afterEnd = figure.end + after.search(/[,;:()|]|\.(\s|$)|$/);
+
+  // The nearest term wins; on a tie the longer one does, so "remaining budget" beats "budget"
+  let best: { label: FigureLabel; distance: number; length: number } | null = null;
+  for (const label of labels) {
+    if (!label.figures.some(known => known.kind === figure.kind)) continue;
+    for (const term of label.terms) {
+      for (const position of findTerm(text.slice(windowStart, afterEnd), term)) {
+        const index = windowStart + position;
+        let distance: number;
+        if (index + term.length <= figure.start) {
+          distance = figure.start - (index + term.length);
+        } else if (index >= figure.end) {
+          distance = index - figure.end + LOOKAHEAD_PENALTY;
+        } else {
+          continue;
+        }
+        if (!best || distance < best.distance || (distance === best.distance && term.length > best.length)) {
+          best = { label, distance, length: term.length };
+        }
+      }
+    }
+  }
+  return best?.label ?? null;
+};
+
+// The tolerance is one unit of the last quoted digit, widened when the figure is approximate
+const toleranceFor = (text: string, start: number, value: number, decimals: string | undefined, multiplier: number) => {
+  const unit = Math.pow(10, -(decimals?.length ?? 0)) * multiplier;
+  const approximate = APPROXIMATE.test(text.slice(Math.max(0, start - 20), start));
+  return approximate ? Math.max(unit, Math.abs(value) * 0.05) : unit;
+};
+
+const findFigures = (text: string, currencies: string[]): QuotedFigure[] => {
+  const figures: QuotedFigure[] = [];
+  for (const match of text.matchAll(buildAmountPattern(currencies))) {
+    const [sign, whole, decimals, suffix] = match[2] !== undefined ? match.slice(1, 5) : match.slice(5, 9);
+    const multiplier = suffix ? SUFFIX_MULTIPLIERS[suffix.toLowerCase()] : 1;
+    const value = parseFloat(`${whole.replace(/,/g, '')}.${decimals ?? '0'}`) * multiplier * (sign ? -1 : 1);
+    const start = match.index!;
+    figures.push({ kind: 'amount', start, end: start + match[0].length, value, tolerance: toleranceFor(text, start, value, decimals, multiplier) });
+  }
+  for (const match of text.matchAll(PERCENT)) {
+    const value = parseFloat(`${match[2]}.${match[3] ?? '0'}`) * (match[1] === '-' || match[1] === '−' ? -1 : 1);
+    const start = match.index!;
+    figures.push({ kind: 'percent', start, end: start + match[0].length, value, tolerance: toleranceFor(text, start, value, match[3], 1) });
+  }
+  return figures;
+};
+
+const matchesFigure = (quoted: QuotedFigure, known: KnownFigure) =>
+  // Signs are compared loosely since "a loss of $50" quotes a negative figure without the minus
+  known.kind === quoted.kind && Math.abs(Math.abs(known.value) - Math.abs(quoted.value)) <= quoted.tolerance + 1e-9;
+
+const checkFigure = (text: string, figure: QuotedFigure, labels: FigureLabel[], baseCurrency: string): FactCheckFinding => {
+  const quoted = text.slice(figure.start, figure.end);
+  const finding = (status: FactCheckStatus, note: string): FactCheckFinding =>
+    ({ start: figure.start, end: figure.end, text: quoted, status, note });
+
+  const label = findLabel(text, figure, labels);
+  if (label) {
+    const candidates = label.figures.filter(known => known.kind === figure.kind);
+    const match = candidates.find(known => matchesFigure(figure, known));
+    return match
+      ? finding('verified', `Matches ${label.name}: ${formatFigure(match, baseCurrency)}`)
+      : finding('mismatch', `Doesn't match ${label.name} in the plan (${candidates.map(known => formatFigure(known, baseCurrency)).join(', ')})`);
+  }
+
+  for (const candidate of labels) {
+    const match = candidate.figures.find(known => matchesFigure(figure, known));
+    if (match) return finding('verified', `Matches ${candidate.name}: ${formatFigure(match, baseCurrency)}`);
+  }
+  return finding('unchecked', 'Not a number from the plan');
+};
+
+// Lines that are mostly capitals are shouted text ("NOT FINANCIAL ADVICE"), not tickers
+const isShoutedLine = (line: string) => {
+  const letters = line.replace(/[^A-Za-z]/g, '');
+  return letters.length >= 12 && letters.replace(/[^A-Z]/g, '').length / letters.length > 0.7;
+};
+
+const findUnknownTickers = (text: string, stocks: Stock[], currencies: string[]): FactCheckFinding[] => {
+  const knownWords = new Set([...stocks.flatMap(stock => stock.name.toUpperCase().split(/[^A-Z0-9]+/)).filter(Boolean), ...currencies]);
+  const findings: FactCheckFinding[] = [];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    if (!isShoutedLine(line)) {
+      for (const match of line.matchAll(TICKER)) {
+        const symbol = match[1];
+        const start = lineStart + match.index!;
+        const end = start + match[0].length;
+        // A capitalized word next to another one is part of an acronym phrase, not a ticker
+        const nextToCapitals = /\b[A-Z]{2,}\s+$/.test(line.slice(0, match.index!)) || /^\s+[A-Z]{2,}\b/.test(line.slice(match.index! + match[0].length));
+        if (knownWords.has(symbol) || NON_TICKERS.has(symbol) || /^[IVXLC]+$/.test(symbol) || nextToCapitals) continue;
+        findings.push({ start, end, text: match[0], status: 'unknown-ticker', note: `${symbol} isn't one of the stocks in this plan` });
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return findings;
+};
+
+/**
+ * Checks an AI response against the computed plan. Money amounts and percentages are matched
+ * with the nearest stock or total they are quoted for; ticker-like symbols that aren't part of
+ * the plan are reported as unknown.
+ * @param markdown The AI response.
+ * @param input The plan the response should describe.
+ * @returns The findings, sorted by position, and counts by status.
+ */
+export const factCheckResponse = (markdown: string, input: FactCheckInput): FactCheckResult => {
+  const text = toPlainText(parseMarkdown(markdown));
+  const labels = buildLabels(input);
+  const currencies = getPlanCurrencies(input);
+  const findings = [
+    ...findFigures(text, currencies).map(figure => checkFigure(text, figure, labels, input.baseCurrency)),
+    ...findUnknownTickers(text, input.stocks, currencies),
+  ].sort((a, b) => a.start - b.start);
+
+  const count = (status: FactCheckStatus) => findings.filter(finding => finding.status === status).length;
+  return {
+    findings,
+    verified: count('verified'),
+    mismatches: count('mismatch'),
+    unknownTickers: count('unknown-ticker'),
+    unchecked: count('unchecked'),
+  };
+};
+
+const ANNOTATION_TONES: Partial<Record<FactCheckStatus, MarkdownAnnotation['tone']>> = {
+  verified: 'success',
+  mismatch: 'error',
+  'unknown-ticker': 'warning',
+};
+
+/**
+ * Turns findings into highlights for MarkdownView. Unchecked figures aren't highlighted.
+ * @param findings The fact-check findings.
+ * @returns The annotations.
+ */
+export const toFactCheckAnnotations = (findings: FactCheckFinding[]): MarkdownAnnotation[] =>
+  findings.flatMap(finding => {
+    const tone = ANNOTATION_TONES[finding.status];
+    return tone ? [{ start: finding.start, end: finding.end, tone, note: finding.note }] : [];
+  });
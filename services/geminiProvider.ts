@@ -0,0 +1,131 @@
+import { GoogleGenAI, GenerateContentResponse, Content, ApiError } from "@google/genai";
+import { LlmProvider, LlmRequest, LlmUsage, LlmError, createAbortError } from './llmProvider';
+
+// Finish and block reasons meaning the prompt or answer was withheld by Gemini's content filters
+const SAFETY_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+const SAFETY_MESSAGE = "Gemini declined to answer because the prompt or response was flagged by its safety filters. Try rephrasing your request.";
+
+/**
+ * Maps a Gemini SDK failure to a categorized error with a user-facing message.
+ * @param error The error thrown by the SDK.
+ * @returns The error to rethrow.
+ */
+const toGeminiError = (error: unknown): LlmError => {
+  console.error("Error calling Gemini API:", error);
+  if (error instanceof LlmError) return error;
+  const status = error instanceof ApiError ? error.status : undefined;
+  const message = error instanceof Error ? error.message : '';
+
+  if (status === 401 || status === 403 || message.includes("Requested entity was not found.") || message.includes("API key not valid")) {
+    // This usually means the API key is invalid or permissions are incorrect.
+    return new LlmError('auth', "API key might be invalid or unauthorized. Please check your setup.");
+  }
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+    return new LlmError('quota', "The Gemini API quota or rate limit has been reached. Please wait a while before trying again.");
+  }
+  if (status === undefined || status >= 500) {
+    // No status means the request never got an HTTP response, e.g. a dropped connection
+    return new LlmError('network', "Could not reach Gemini. Please check your connection and try again.", true);
+  }
+  return new LlmError('unknown', "Failed to get a response from Gemini. Please try again later.");
+};
+
+/**
+ * Throws when Gemini blocked the prompt or stopped the answer for safety reasons.
+ * @param response A response or streamed chunk.
+ */
+const checkSafety = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if ((blockReason && SAFETY_REASONS.includes(blockReason)) || (finishReason && SAFETY_REASONS.includes(finishReason))) {
+    throw new LlmError('safety', SAFETY_MESSAGE);
+  }
+};
+
+const toUsage = (response: GenerateContentResponse | undefined): LlmUsage | undefined => {
+  const metadata = response?.usageMetadata;
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  return { promptTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens };
+};
+
+const toContents = (request: LlmRequest): string | Content[] =>
+  typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.map(message => ({ role: message.role, parts: [{ text: message.text }] }));
+
+/**
+ * The provider backed by the Gemini API.
+ * @param apiKey The Gemini API key.
+ * @returns A provider that calls Gemini.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): LlmProvider => ({
+  id: 'gemini',
+
+  generateText: async (request, options = {}) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const { onChunk, signal, onFunctionCall, onUsage } = options;
+
+    let text = '';
+    let lastChunk: GenerateContentResponse | undefined;
+    try {
+      const stream: AsyncGenerator<GenerateContentResponse> = await ai.models.generateContentStream({
+        model: request.model,
+        contents: toContents(request),
+        config: {
+          systemInstruction: request.systemInstruction,
+          maxOutputTokens: 1024,
+          thinkingConfig: { thinkingBudget: 256 },
+          abortSignal: signal,
+          tools: request.tools ? [{ functionDeclarations: request.tools }] : undefined,
+        },
+      });
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        checkSafety(chunk);
+        lastChunk = chunk;
+        text += chunk.text ?? '';
+        onChunk?.(text);
+        chunk.functionCalls?.forEach(call => {
+          if (call.name) onFunctionCall?.({ name: call.name, args: call.args ?? {} });
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      throw toGeminiError(error);
+    }
+    if (signal?.aborted) throw createAbortError();
+    // The final chunk carries the token counts for the whole response
+    const usage = toUsage(lastChunk);
+    if (usage) onUsage?.(usage);
+    return text;
+  },
+
+  generateJson: async (request, responseSchema, callOptions = {}) => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    try {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: request.model,
+        contents: toContents(request),
+        config: {
+          systemInstruction: request.systemInstruction,
+          responseMimeType: 'application/json',
+          responseSchema: responseSchema,
+          maxOutputTokens: 1024,
+          thinkingConfig: { thinkingBudget: 256 },
+          abortSignal: callOptions.signal,
+        },
+      });
+      checkSafety(response);
+      const usage = toUsage(response);
+      if (usage) callOptions.onUsage?.(usage);
+      return response.text ?? '';
+    } catch (error) {
+      if (callOptions.signal?.aborted) throw createAbortError();
+      throw toGeminiError(error);
+    }
+  },
+});
@@ -1,62 +1,110 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { Stock, InvestmentResult } from '../types';
+import { Schema } from "@google/genai";
+import { Stock, InvestmentResult, ChatMessage } from '../types';
+import { buildStockIdeasSchema, STOCK_IDEA_COUNT, StockIdeasResult, parseStockIdeas } from './stockIdeas';
+import { LlmModel, LlmStreamOptions, getLlmProvider } from './llmProvider';
+import { ASSISTANT_TOOLS, formatChatMessageForHistory } from './assistantTools';
+import { BuiltPrompt, PROMPT_LIMITS, buildPrompt, roundForPrompt, sanitizeUserText } from './promptBuilder';
+import { getStockCurrency } from './currency';
+import { subtractMoney, sumMoney } from './money';
+
+export { isAbortError, toAiError } from './llmProvider';
+export type GeminiStreamOptions = LlmStreamOptions;
+
+// A plain prompt, or one built with a separate system instruction (see promptBuilder)
+export type GeminiPrompt = string | BuiltPrompt;
+
+const toPromptFields = (prompt: GeminiPrompt) => typeof prompt === 'string' ? { contents: prompt } : prompt;
 
 /**
- * Initializes GoogleGenAI and sends a text prompt to the Gemini model.
- * @param prompt The user's query for Gemini.
+ * Streams the model's answer to a text prompt from the configured provider.
+ * @param prompt The prompt for Gemini. Prompts that embed user text should come from buildPrompt.
  * @param model The Gemini model to use ('gemini-2.5-flash' or 'gemini-2.5-pro').
- * @returns The text response from the Gemini model.
+ * @param options Chunk callback and abort signal.
+ * @returns The full text response from the model.
  */
-export const getGeminiResponse = async (prompt: string, model: 'gemini-2.5-flash' | 'gemini-2.5-pro' = 'gemini-2.5-flash'): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const getGeminiResponse = async (
+  prompt: GeminiPrompt,
+  model: LlmModel = 'gemini-2.5-flash',
+  options: GeminiStreamOptions = {},
+): Promise<string> => getLlmProvider().generateText({ model, ...toPromptFields(prompt) }, options);
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        maxOutputTokens: 1024,
-        thinkingConfig: { thinkingBudget: 256 },
-      },
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error && error.message.includes("Requested entity was not found.")) {
-      // This usually means the API key is invalid or permissions are incorrect.
-      throw new Error("API key might be invalid or unauthorized. Please check your setup.");
-    }
-    throw new Error("Failed to get a response from Gemini. Please try again later.");
-  }
-};
+/**
+ * Streams the next chat reply, sending the whole conversation so follow-up questions keep
+ * their context. The assistant's tools are offered, and any calls it proposes are reported
+ * through options.onFunctionCall.
+ * @param history The conversation so far, ending with the user's latest message.
+ * @param context The chat instructions, and the current portfolio sent as the first turn.
+ * @param options Chunk and function call callbacks, and abort signal.
+ * @returns The model's reply.
+ */
+export const getChatResponse = async (history: ChatMessage[], context: BuiltPrompt, options: GeminiStreamOptions = {}): Promise<string> =>
+  getLlmProvider().generateText({
+    model: 'gemini-2.5-flash',
+    contents: [
+      { role: 'user' as const, text: context.contents },
+      ...history
+        .map(message => ({
+          role: message.role,
+          // Long pastes are cut so a single message can't crowd out the instructions
+          text: message.role === 'user' ? message.text.slice(0, PROMPT_LIMITS.chatMessage) : formatChatMessageForHistory(message),
+        }))
+        .filter(message => message.text !== ''),
+    ],
+    systemInstruction: context.systemInstruction,
+    tools: ASSISTANT_TOOLS,
+  }, options);
+
+/**
+ * Sends a prompt in JSON mode, constraining the output to a response schema.
+ * @param prompt The prompt.
+ * @param responseSchema The schema the JSON output must follow.
+ * @param model The Gemini model to use.
+ * @returns The raw JSON text from the model.
+ */
+export const getGeminiJsonResponse = async (prompt: GeminiPrompt, responseSchema: Schema, model: LlmModel = 'gemini-2.5-flash'): Promise<string> =>
+  getLlmProvider().generateJson({ model, ...toPromptFields(prompt) }, responseSchema);
 
 /**
- * Generates stock ideas based on a brief description using Gemini API.
+ * Generates stock ideas based on a brief description using Gemini API in JSON mode.
  * @param description A brief description for stock ideas (e.g., "tech stocks", "eco-friendly companies").
- * @returns A promise that resolves to a string containing stock ideas or an error message.
+ * @param currency The currency the prices should be in; the ideas are added in the base currency.
+ * @returns A promise that resolves to the validated stock candidates and any rejected ideas.
  */
-export const getStockIdeas = async (description: string): Promise<string> => {
-  const prompt = `Generate a list of 5 fictional stock names with realistic-sounding prices (e.g., $50-$1000) and expected returns (e.g., 5-25%) based on the theme "${description}". Provide the output in a markdown list format, like:
-- StockName1 (Price: $XXX, Return: Y%)
-- StockName2 (Price: $XXX, Return: Y%)
-...
-`;
-  return getGeminiResponse(prompt, 'gemini-2.5-flash');
+export const getStockIdeas = async (description: string, currency: string): Promise<StockIdeasResult> => {
+  const prompt = buildPrompt({
+    instructions: 'You invent fictional stocks for a hypothetical portfolio tool used for education. Every stock you return is fictional.',
+    task: `Generate ${STOCK_IDEA_COUNT} fictional stocks with realistic-sounding prices in ${currency} (e.g., 50-1000 ${currency}), expected annual returns (e.g., 5-25%) and annualized volatilities (e.g., 10-60%) that fit the theme in the data below. Give each a one-sentence rationale.`,
+    data: { theme: sanitizeUserText(description, PROMPT_LIMITS.description) },
+  });
+  const json = await getGeminiJsonResponse(prompt, buildStockIdeasSchema(currency), 'gemini-2.5-flash');
+  return parseStockIdeas(json);
 };
 
+// Stock details as prompt data, with the user's stock names cleaned and each price's currency
+const toStockData = (stocks: Stock[], baseCurrency: string) => stocks.map(stock => ({
+  name: sanitizeUserText(stock.name, PROMPT_LIMITS.stockName),
+  price: roundForPrompt(stock.price),
+  currency: getStockCurrency(stock, baseCurrency),
+  expectedReturnPercent: roundForPrompt(stock.expectedReturn),
+}));
 
 /**
  * Analyzes market data for given stocks using Gemini API.
  * @param stocks An array of stock objects.
+ * @param baseCurrency The currency of stocks that don't name one.
+ * @param options Chunk callback and abort signal for streaming.
  * @returns A promise that resolves to a string containing market analysis or an error message.
  */
-export const analyzeMarketData = async (stocks: Stock[]): Promise<string> => {
+export const analyzeMarketData = async (stocks: Stock[], baseCurrency: string, options: GeminiStreamOptions = {}): Promise<string> => {
   if (stocks.length === 0) {
     return "Please add some stocks to analyze market data.";
   }
-  const stockDetails = stocks.map(s => `${s.name} (Price: $${s.price}, Return: ${s.expectedReturn}%)`).join(', ');
-  const prompt = `For educational purposes, analyze the market outlook for the following fictional stocks and provide brief insights: ${stockDetails}. Consider general market conditions and potential trends. This is a hypothetical scenario.`;
-  return getGeminiResponse(prompt, 'gemini-2.5-pro'); // Use Pro for complex analysis
+  const prompt = buildPrompt({
+    instructions: 'You are an AI assistant that discusses hypothetical market scenarios for fictional stocks, for educational purposes only. This is not financial advice.',
+    task: 'For educational purposes, analyze the market outlook for the fictional stocks in the data below and provide brief insights. Consider general market conditions and potential trends. This is a hypothetical scenario.',
+    data: { stocks: toStockData(stocks, baseCurrency) },
+  });
+  return getGeminiResponse(prompt, 'gemini-2.5-pro', options); // Use Pro for complex analysis
 };
 
 /**
@@ -64,39 +112,52 @@ export const analyzeMarketData = async (stocks: Stock[]): Promise<string> => {
  * @param initialBudget The user's initial investment budget.
  * @param stocks An array of all available stock objects.
  * @param investmentResults An array of current investment allocations.
+ * @param baseCurrency The currency of the budget and of every amount in the allocations.
+ * @param options Chunk callback and abort signal for streaming.
  * @returns A promise that resolves to a string containing portfolio advice or an error message.
  */
-export const getPortfolioAdvice = async (initialBudget: number, stocks: Stock[], investmentResults: InvestmentResult[]): Promise<string> => {
+export const getPortfolioAdvice = async (
+  initialBudget: number,
+  stocks: Stock[],
+  investmentResults: InvestmentResult[],
+  baseCurrency: string,
+  options: GeminiStreamOptions = {},
+): Promise<string> => {
   if (stocks.length === 0 || investmentResults.length === 0) {
     return "Please add stocks and calculate your investment to get portfolio advice.";
   }
 
-  const totalInvestedAmount = investmentResults.reduce((sum, res) => sum + res.investedAmount, 0);
-  const totalActualReturn = investmentResults.reduce((sum, res) => sum + res.actualReturn, 0);
-  const remainingBudget = initialBudget - totalInvestedAmount;
-
-  const prompt = `You are an AI assistant designed to analyze hypothetical investment scenarios for educational purposes. **This is not financial advice.**
-
-I have a hypothetical initial investment budget of $${initialBudget.toFixed(2)}.
+  const totalInvestedAmount = sumMoney(investmentResults.map(res => res.investedAmount), baseCurrency);
+  const totalActualReturn = sumMoney(investmentResults.map(res => res.actualReturn), baseCurrency);
+  const remainingBudget = subtractMoney(initialBudget, [totalInvestedAmount], baseCurrency);
 
-Here are the fictional stocks I am considering:
-${stocks.map(s => `- ${s.name} (Price: $${s.price.toFixed(2)}, Expected Return: ${s.expectedReturn.toFixed(2)}%)`).join('\n')}
-
-My current hypothetical investment allocations are:
-${investmentResults.map(r => `- ${r.stockName}: Invested $${r.investedAmount.toFixed(2)} (Fraction: ${r.fraction.toFixed(4)}), Actual Return: $${r.actualReturn.toFixed(2)}`).join('\n')}
-
-Total Invested: $${totalInvestedAmount.toFixed(2)}
-Total Actual Return: $${totalActualReturn.toFixed(2)}
-Remaining Budget: $${remainingBudget.toFixed(2)}
-
-Please provide a comprehensive analysis of this hypothetical portfolio for educational discussion.
+  const prompt = buildPrompt({
+    instructions: `You are an AI assistant designed to analyze hypothetical investment scenarios for educational purposes. **This is not financial advice.**
+Quote amounts and percentages exactly as they appear in the data; they are checked against the user's plan.
+The budget, allocations and totals are in the base currency given in the data; each stock's price is in its own currency.`,
+    task: `Please provide a comprehensive analysis of this hypothetical portfolio for educational discussion. The data below holds the initial budget, the fictional stocks being considered, the current allocations and their totals.
 Specifically, consider:
 1.  **Diversification**: How well-diversified is this hypothetical portfolio? What are potential gaps?
 2.  **Risk Assessment**: What are the potential risks and opportunities associated with this portfolio composition in a hypothetical market?
 3.  **Optimization/Rebalancing**: What are some theoretical strategies for rebalancing or adjusting these investments to explore different risk/return profiles?
 4.  **Next Steps**: What are some general concepts an investor might study next to improve their understanding of investment strategy?
 
-Provide your analysis in a well-structured, easy-to-read markdown format with clear headings. Conclude with a clear disclaimer that this is a fictional analysis for educational purposes only and not financial advice.`;
+Provide your analysis in a well-structured, easy-to-read markdown format with clear headings. Conclude with a clear disclaimer that this is a fictional analysis for educational purposes only and not financial advice.`,
+    data: {
+      baseCurrency,
+      initialBudget: roundForPrompt(initialBudget),
+      stocks: toStockData(stocks, baseCurrency),
+      allocations: investmentResults.map(r => ({
+        stock: sanitizeUserText(r.stockName, PROMPT_LIMITS.stockName),
+        invested: roundForPrompt(r.investedAmount),
+        shares: parseFloat(r.fraction.toFixed(4)),
+        actualReturn: roundForPrompt(r.actualReturn),
+      })),
+      totalInvested: roundForPrompt(totalInvestedAmount),
+      totalActualReturn: roundForPrompt(totalActualReturn),
+      remainingBudget: roundForPrompt(remainingBudget),
+    },
+  });
 
-  return getGeminiResponse(prompt, 'gemini-2.5-pro'); // Use Pro for complex financial advice
-};
\ No newline at end of file
+  return getGeminiResponse(prompt, 'gemini-2.5-pro', options); // Use Pro for complex financial advice
+};
@@ -0,0 +1,96 @@
+import { LlmFunctionCall, LlmProvider, LlmRequest } from './llmProvider';
+
+export interface LlmCacheOptions {
+  maxEntries?: number; // The least recently used response is evicted beyond this
+  ttlMs?: number;      // Responses older than this are fetched again
+}
+
+interface CachedResponse {
+  text: string;
+  functionCalls: LlmFunctionCall[];
+  storedAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_TTL_MS = 10 * 60_000;
+
+/**
+ * The cache key for a request: the model and everything that shapes the answer, i.e. the
+ * prompt or conversation, system instruction, offered tools and response schema.
+ * @param kind Whether the response is streamed text or JSON.
+ * @param request The request.
+ * @param responseSchema The JSON schema, for JSON requests.
+ * @returns The key.
+ */
+const getCacheKey = (kind: 'text' | 'json', request: LlmRequest, responseSchema?: unknown): string =>
+  JSON.stringify([kind, request.model, request.contents, request.systemInstruction ?? null, request.tools ?? null, responseSchema ?? null]);
+
+/**
+ * Wraps a provider with an in-memory response cache, so asking again about an unchanged
+ * portfolio answers instantly without spending tokens. Only complete responses are cached;
+ * failed and stopped requests are not.
+ * @param provider The provider to wrap.
+ * @param options Cache size and lifetime.
+ * @returns The caching provider.
+ */
+export const createCachingLlmProvider = (provider: LlmProvider, options: LlmCacheOptions = {}): LlmProvider => {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  // Map iteration follows insertion order, so re-inserting on every hit keeps it in LRU order
+  const entries = new Map<string, CachedResponse>();
+
+  const lookup = (key: string): CachedResponse | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    entries.delete(key);
+    if (Date.now() - entry.storedAt > ttlMs) return undefined;
+    entries.set(key, entry);
+    return entry;
+  };
+
+  const store = (key: string, text: string, functionCalls: LlmFunctionCall[]) => {
+    entries.delete(key);
+    entries.set(key, { text, functionCalls, storedAt: Date.now() });
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  return {
+    id: provider.id,
+
+    generateText: async (request, streamOptions = {}) => {
+      const key = getCacheKey('text', request);
+      const cached = lookup(key);
+      if (cached) {
+        streamOptions.onChunk?.(cached.text);
+        cached.functionCalls.forEach(call => streamOptions.onFunctionCall?.(call));
+        streamOptions.onUsage?.({ promptTokens: 0, outputTokens: 0, totalTokens: 0, cached: true });
+        return cached.text;
+      }
+
+      const functionCalls: LlmFunctionCall[] = [];
+      const text = await provider.generateText(request, {
+        ...streamOptions,
+        onFunctionCall: (call) => {
+          functionCalls.push(call);
+          streamOptions.onFunctionCall?.(call);
+        },
+      });
+      store(key, text, functionCalls);
+      return text;
+    },
+
+    generateJson: async (request, responseSchema, callOptions = {}) => {
+      const key = getCacheKey('json', request, responseSchema);
+      const cached = lookup(key);
+      if (cached) {
+        callOptions.onUsage?.({ promptTokens: 0, outputTokens: 0, totalTokens: 0, cached: true });
+        return cached.text;
+      }
+      const text = await provider.generateJson(request, responseSchema, callOptions);
+      store(key, text, []);
+      return text;
+    },
+  };
+};
@@ -0,0 +1,167 @@
+import { Schema, FunctionDeclaration } from '@google/genai';
+import { AiError, AiErrorCategory } from '../types';
+import { createProxyLlmProvider } from './proxyLlmProvider';
+import { createMockLlmProvider, createRecordingLlmProvider } from './mockLlmProvider';
+import { createRetryingLlmProvider } from './llmRetry';
+import { createCachingLlmProvider } from './llmCache';
+import { createUsageTrackingLlmProvider, llmUsageTracker } from './llmUsage';
+
+export type LlmModel = 'gemini-2.5-flash' | 'gemini-2.5-pro';
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LlmRequest {
+  model: LlmModel;
+  contents: string | LlmMessage[]; // A single prompt or a multi-turn conversation
+  systemInstruction?: string;      // Sent separately from the conversation when given
+  tools?: FunctionDeclaration[];   // Functions the model may propose calling instead of, or alongside, its text
+}
+
+export interface LlmFunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cached?: boolean; // Served from the response cache without calling the model
+}
+
+export interface LlmCallOptions {
+  signal?: AbortSignal;                  // Aborting stops generation and rejects with an AbortError
+  onUsage?: (usage: LlmUsage) => void;   // Called once with the token counts of a successful request
+}
+
+export interface LlmStreamOptions extends LlmCallOptions {
+  onChunk?: (textSoFar: string) => void; // Called with the accumulated text as each chunk arrives
+  onFunctionCall?: (call: LlmFunctionCall) => void; // Called for each function call the model proposes
+}
+
+/**
+ * A language model backend. The AI features only talk to this interface, so they can run
+ * against Gemini or against the offline mock.
+ */
+export interface LlmProvider {
+  id: string;
+  // Streams a free-text answer, resolving with the full text
+  generateText: (request: LlmRequest, options?: LlmStreamOptions) => Promise<string>;
+  // Returns raw JSON text constrained to the response schema
+  generateJson: (request: LlmRequest, responseSchema: Schema, options?: LlmCallOptions) => Promise<string>;
+}
+
+export type LlmProviderId = 'gemini' | 'mock' | 'record';
+
+/**
+ * Whether an error comes from the caller aborting a request.
+ * @param error The caught error.
+ * @returns True for aborted requests.
+ */
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+export const createAbortError = () => Object.assign(new Error('The request was stopped.'), { name: 'AbortError' });
+
+/**
+ * Waits for a delay, rejecting early with an AbortError when the signal fires.
+ * @param ms The delay.
+ * @param signal Optional abort signal.
+ */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * A failed AI request. The message is shown to the user; the category decides how the UI
+ * explains it and whether the request is worth retrying.
+ */
+export class LlmError extends Error {
+  constructor(public category: AiErrorCategory, message: string, public retryable: boolean = false) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+/**
+ * Describes any error from an AI request for display.
+ * @param error The caught error.
+ * @param fallbackMessage The message for errors that carry none.
+ * @returns The category and message.
+ */
+export const toAiError = (error: unknown, fallbackMessage: string): AiError => {
+  if (error instanceof LlmError) return { category: error.category, message: error.message };
+  return { category: 'unknown', message: error instanceof Error && error.message ? error.message : fallbackMessage };
+};
+
+/**
+ * The text a request is matched and recorded by: the prompt, or the latest user message of
+ * a conversation.
+ * @param request The request.
+ * @returns The prompt text.
+ */
+export const getPromptText = (request: LlmRequest): string => {
+  if (typeof request.contents === 'string') return request.contents;
+  const lastUserMessage = [...request.contents].reverse().find(message => message.role === 'user');
+  return lastUserMessage?.text ?? '';
+};
+
+/**
+ * Picks the provider from build-time config (see vite.config.ts). LLM_PROVIDER chooses
+ * "gemini" (through the local AI proxy, which holds the API key), "mock" or "record"
+ * (Gemini, logging every exchange as a mock fixture).
+ * @returns The configured provider.
+ */
+const createConfiguredProvider = (): LlmProvider => {
+  const configured = process.env.LLM_PROVIDER as LlmProviderId | undefined;
+  const providerId: LlmProviderId = configured === 'mock' || configured === 'record' ? configured : 'gemini';
+
+  let provider: LlmProvider;
+  if (providerId === 'mock') {
+    provider = createMockLlmProvider({
+      latencyMs: Number(process.env.MOCK_LLM_LATENCY_MS) || undefined,
+      failEvery: Number(process.env.MOCK_LLM_FAIL_EVERY) || undefined,
+      failWith: process.env.MOCK_LLM_ERROR || undefined,
+      failCategory: (process.env.MOCK_LLM_ERROR_CATEGORY || undefined) as AiErrorCategory | undefined,
+    });
+  } else if (providerId === 'record') {
+    provider = createRecordingLlmProvider(createProxyLlmProvider(), fixture => console.info('Recorded LLM fixture:', JSON.stringify(fixture)));
+  } else {
+    provider = createProxyLlmProvider();
+  }
+  // Cache hits skip the retries and count as cached requests in the usage tally
+  return createUsageTrackingLlmProvider(createCachingLlmProvider(createRetryingLlmProvider(provider)), llmUsageTracker);
+};
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * The provider used by the AI features, created from config on first use.
+ * @returns The active provider.
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) activeProvider = createConfiguredProvider();
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. to replay a specific set of fixtures.
+ * @param provider The provider to use, or null to go back to the configured one.
+ */
+export const setLlmProvider = (provider: LlmProvider | null): void => {
+  activeProvider = provider;
+};
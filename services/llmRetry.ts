@@ -0,0 +1,72 @@
+import { LlmFunctionCall, LlmProvider, LlmError, wait } from './llmProvider';
+
+export interface LlmRetryOptions {
+  maxRetries?: number;  // Retries after the first attempt
+  baseDelayMs?: number; // Delay before the first retry; doubles with each further retry
+  maxDelayMs?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+/**
+ * The delay before a retry: exponential backoff with up to 50% random jitter, so clients
+ * that failed together don't all retry at the same moment.
+ * @param attempt The retry number, starting at 1.
+ * @param baseDelayMs The first delay.
+ * @param maxDelayMs The longest delay.
+ * @returns The delay in milliseconds.
+ */
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * delay / 2;
+};
+
+/**
+ * Wraps a provider so transient failures (network errors, an overloaded service) are retried
+ * with exponential backoff. Other failures, like quota or safety blocks, are reported at once.
+ * A streamed request is not retried once the model has proposed function calls, since those
+ * may already have been shown to the user.
+ * @param provider The provider to wrap.
+ * @param options Retry count and delays.
+ * @returns The retrying provider.
+ */
+export const createRetryingLlmProvider = (provider: LlmProvider, options: LlmRetryOptions = {}): LlmProvider => {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  const withRetries = async <T>(attempt: () => Promise<T>, canRetry: () => boolean, signal?: AbortSignal): Promise<T> => {
+    for (let retry = 1; ; retry++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        if (!(error instanceof LlmError && error.retryable) || retry > maxRetries || !canRetry() || signal?.aborted) throw error;
+        await wait(getBackoffDelay(retry, baseDelayMs, maxDelayMs), signal);
+      }
+    }
+  };
+
+  return {
+    id: provider.id,
+
+    generateText: (request, streamOptions = {}) => {
+      const functionCalls: LlmFunctionCall[] = [];
+      return withRetries(
+        () => provider.generateText(request, {
+          ...streamOptions,
+          onFunctionCall: (call) => {
+            functionCalls.push(call);
+            streamOptions.onFunctionCall?.(call);
+          },
+        }),
+        () => functionCalls.length === 0,
+        streamOptions.signal,
+      );
+    },
+
+    generateJson: (request, responseSchema, callOptions = {}) =>
+      withRetries(() => provider.generateJson(request, responseSchema, callOptions), () => true, callOptions.signal),
+  };
+};
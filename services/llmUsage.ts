@@ -0,0 +1,99 @@
+import { LlmProvider, LlmUsage, isAbortError } from './llmProvider';
+
+export interface ModelUsage {
+  model: string;
+  requests: number;        // Every completed or failed request, including cache hits
+  cachedRequests: number;  // Requests answered from the response cache
+  failedRequests: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmUsageTracker {
+  getSnapshot: () => ModelUsage[]; // Stable between changes, so it can back useSyncExternalStore
+  subscribe: (listener: () => void) => () => void;
+  recordUsage: (model: string, usage: LlmUsage) => void;
+  recordFailure: (model: string) => void;
+  reset: () => void;
+}
+
+const emptyUsage = (model: string): ModelUsage => ({
+  model, requests: 0, cachedRequests: 0, failedRequests: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0,
+});
+
+/**
+ * Tallies requests and tokens per model for the session.
+ * @returns The tracker.
+ */
+export const createLlmUsageTracker = (): LlmUsageTracker => {
+  let snapshot: ModelUsage[] = [];
+  const listeners = new Set<() => void>();
+
+  const update = (model: string, change: (usage: ModelUsage) => ModelUsage) => {
+    const current = snapshot.find(usage => usage.model === model) ?? emptyUsage(model);
+    snapshot = [...snapshot.filter(usage => usage.model !== model), change(current)]
+      .sort((a, b) => a.model.localeCompare(b.model));
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    recordUsage: (model, usage) => update(model, current => ({
+      ...current,
+      requests: current.requests + 1,
+      cachedRequests: current.cachedRequests + (usage.cached ? 1 : 0),
+      promptTokens: current.promptTokens + usage.promptTokens,
+      outputTokens: current.outputTokens + usage.outputTokens,
+      totalTokens: current.totalTokens + usage.totalTokens,
+    })),
+    recordFailure: (model) => update(model, current => ({
+      ...current,
+      requests: current.requests + 1,
+      failedRequests: current.failedRequests + 1,
+    })),
+    reset: () => {
+      snapshot = [];
+      listeners.forEach(listener => listener());
+    },
+  };
+};
+
+// The session-wide tally shown in the usage panel
+export const llmUsageTracker = createLlmUsageTracker();
+
+/**
+ * Wraps a provider so every request is counted in a usage tracker. Stopped requests are not
+ * counted; requests whose provider reports no token counts are counted with zero tokens.
+ * @param provider The provider to wrap.
+ * @param tracker The tracker to record into.
+ * @returns The tracking provider.
+ */
+export const createUsageTrackingLlmProvider = (provider: LlmProvider, tracker: LlmUsageTracker): LlmProvider => {
+  const track = async (model: string, onUsage: ((usage: LlmUsage) => void) | undefined, run: (onUsage: (usage: LlmUsage) => void) => Promise<string>) => {
+    let usage: LlmUsage | null = null;
+    try {
+      const text = await run((reported) => {
+        usage = reported;
+        onUsage?.(reported);
+      });
+      tracker.recordUsage(model, usage ?? { promptTokens: 0, outputTokens: 0, totalTokens: 0 });
+      return text;
+    } catch (error) {
+      if (!isAbortError(error)) tracker.recordFailure(model);
+      throw error;
+    }
+  };
+
+  return {
+    id: provider.id,
+    generateText: (request, streamOptions = {}) =>
+      track(request.model, streamOptions.onUsage, (onUsage) => provider.generateText(request, { ...streamOptions, onUsage })),
+    generateJson: (request, responseSchema, callOptions = {}) =>
+      track(request.model, callOptions.onUsage, (onUsage) => provider.generateJson(request, responseSchema, { ...callOptions, onUsage })),
+  };
+};
@@ -0,0 +1,308 @@
+// A small markdown parser for AI responses. It produces a tree rendered as React elements, so
+// no model output is ever injected as HTML: raw HTML is stripped and only safe links are kept.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(.*)$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Elements whose content is dropped along with the tags, rather than shown as text
+const DANGEROUS_ELEMENTS = /<(script|style|iframe|object|embed|noscript|template)\b[^>]*>[\s\S]*?(<\/\1\s*>|$)/gi;
+const HTML_TAG = /<\/?[a-zA-Z][^>]*>|<!--[\s\S]*?-->/g;
+
+/**
+ * Whether a link target is safe to render: only web and mail links are allowed, so
+ * javascript:, data: and similar schemes can't run code.
+ * @param href The link target.
+ * @returns True for http(s) and mailto links.
+ */
+export const isSafeUrl = (href: string): boolean => {
+  // Browsers ignore control characters and whitespace inside schemes ("java\tscript:")
+  const normalized = href.replace(/[\u0000- \u007f-\u009f]/g, '');
+  return /^(https?:\/\/|mailto:)/i.test(normalized);
+};
+
+const stripHtml = (text: string): string => text.replace(DANGEROUS_ELEMENTS, '').replace(HTML_TAG, '');
+
+const isBlank = (line: string) => line.trim() === '';
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const isTableStart = (lines: string[], index: number) =>
+  lines[index].includes('|') && index + 1 < lines.length && lines[index + 1].includes('-') && TABLE_SEPARATOR.test(lines[index + 1]);
+
+// Whether a line begins a block other than a paragraph, which ends the paragraph before it
+const startsBlock = (lines: string[], index: number) => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line) || isTableStart(lines, index);
+};
+
+// Inline patterns; the earliest match in the text wins
+const INLINE_PATTERNS: { pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline }[] = [
+  { pattern: /\\([!-/:-@[-`{-~])/, build: (match) => ({ type: 'text', text: match[1] }) },
+  { pattern: /(`+)([\s\S]+?)\1/, build: (match) => ({ type: 'code', text: match[2].trim() }) },
+  {
+    // Images are shown as their alt text so responses can't load remote content
+    pattern: /(!?)\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+["'][^"']*["'])?\s*\)/,
+    build: (match) => match[1] === '!' || !isSafeUrl(match[3])
+      ? { type: 'text', text: stripHtml(match[2]) }
+      : { type: 'link', href: match[3], children: parseInline(match[2]) },
+  },
+  { pattern: /(\*\*|__)(?=\S)([\s\S]+?)(?<=\S)\1/, build: (match) => ({ type: 'strong', children: parseInline(match[2]) }) },
+  { pattern: /~~(?=\S)([\s\S]+?)(?<=\S)~~/, build: (match) => ({ type: 'strike', children: parseInline(match[1]) }) },
+  { pattern: /\*(?=[^\s*])([\s\S]+?)(?<=[^\s*])\*|(?<![\w])_(?=\S)([\s\S]+?)(?<=\S)_(?![\w])/, build: (match) => ({ type: 'emphasis', children: parseInline(match[1] ?? match[2]) }) },
+];
+
+/**
+ * Parses inline markdown: code spans, links, bold, italics and strikethrough. HTML tags are
+ * stripped from the text.
+ * @param text The inline text.
+ * @returns The inline nodes.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    if (value === '') return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  let rest = text;
+  while (rest !== '') {
+    let earliest: { match: RegExpExecArray; build: (match: RegExpExecArray) => MarkdownInline } | null = null;
+    for (const { pattern, build } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) earliest = { match, build };
+    }
+    if (!earliest) {
+      pushText(stripHtml(rest));
+      break;
+    }
+    const { match, build } = earliest;
+    pushText(stripHtml(rest.slice(0, match.index)));
+    const node = build(match);
+    if (node.type === 'text') {
+      pushText(node.text);
+    } else {
+      nodes.push(node);
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return nodes;
+};
+
+const splitTableRow = (line: string): string[] => {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const toAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+};
+
+/**
+ * Parses a list starting at a list item, including nested content indented under its items.
+ * @param lines All lines.
+ * @param start The index of the first item.
+ * @returns The list block and the index after it.
+ */
+const parseList = (lines: string[], start: number): [MarkdownBlock, number] => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let index = start;
+  let previousBlank = false;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const item = LIST_ITEM.exec(line);
+    if (item && item[1].length <= baseIndent + 1 && /\d/.test(item[2]) === ordered && !RULE.test(line)) {
+      contentIndent = item[1].length + item[2].length + Math.min(item[3].length, 4);
+      items.push([item[4]]);
+    } else if (isBlank(line)) {
+      items[items.length - 1].push('');
+    } else if (indentOf(line) > baseIndent) {
+      // Nested content, de-indented so nested lists and code parse as blocks of their own
+      items[items.length - 1].push(line.slice(Math.min(indentOf(line), contentIndent)));
+    } else if (!previousBlank && !startsBlock(lines, index)) {
+      // A lazy continuation of the item's paragraph
+      items[items.length - 1].push(line.trim());
+    } else {
+      break;
+    }
+    previousBlank = isBlank(line);
+    index++;
+  }
+
+  return [{
+    type: 'list',
+    ordered,
+    start: ordered ? parseInt(first[2], 10) : 1,
+    items: items.map(itemLines => parseLines(itemLines)),
+  }, index];
+};
+
+/**
+ * Parses lines into blocks.
+ * @param lines The lines.
+ * @returns The blocks.
+ */
+const parseLines = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      // An unclosed fence runs to the end, which is common while a response is still streaming
+      while (index < lines.length && !(lines[index].trim().startsWith(fence[1]) && FENCE.test(lines[index]))) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      blocks.push({ type: 'code', language: fence[2], text: codeLines.join('\n') });
+      index++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]).map(toAlignment);
+      const rows: MarkdownInline[][][] = [];
+      index += 2;
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        const cells = splitTableRow(lines[index]);
+        // Rows are padded or cut to the header's width, as GitHub does
+        rows.push(header.map((_cell, column) => parseInline(cells[column] ?? '')));
+        index++;
+      }
+      blocks.push({ type: 'table', align: header.map((_cell, column) => align[column] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        const quote = BLOCKQUOTE.exec(lines[index]);
+        if (!quote && startsBlock(lines, index)) break;
+        quoteLines.push(quote ? quote[1] : lines[index]);
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoteLines) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, nextIndex] = parseList(lines, index);
+      blocks.push(list);
+      index = nextIndex;
+      continue;
+    }
+
+    const paragraphLines = [line.trim()];
+    index++;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines, index)) {
+      paragraphLines.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join(' ')) });
+  }
+  return blocks;
+};
+
+/**
+ * Parses markdown into blocks: headings, paragraphs, lists, tables, code blocks, block quotes
+ * and rules. Outside code, script, style and frame elements are removed with their content
+ * and other HTML tags are stripped, leaving their text. Code is always shown as text.
+ * @param markdown The markdown text.
+ * @returns The blocks.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] =>
+  parseLines(markdown.replace(/\r\n?/g, '\n').split('\n'));
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => node.type === 'text' || node.type === 'code' ? node.text : inlineText(node.children)).join('');
+
+// Separates the cells of a table row in the plain text, keeping each row on one line
+export const TABLE_CELL_SEPARATOR = ' | ';
+
+// A highlighted range of the plain text, such as a fact-check finding
+export interface MarkdownAnnotation {
+  start: number;
+  end: number;
+  tone: 'error' | 'warning' | 'success';
+  note: string;
+}
+
+/**
+ * The text a reader sees, in the order MarkdownView renders it. Every heading, paragraph,
+ * table row and code block is followed by a newline. Offsets into this text are what
+ * MarkdownView annotations refer to.
+ * @param blocks The parsed blocks.
+ * @returns The plain text.
+ */
+export const toPlainText = (blocks: MarkdownBlock[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return `${inlineText(block.children)}\n`;
+    case 'code':
+      return `${block.text}\n`;
+    case 'list':
+      return block.items.map(toPlainText).join('');
+    case 'table':
+      return [block.header, ...block.rows].map(row => `${row.map(inlineText).join(TABLE_CELL_SEPARATOR)}\n`).join('');
+    case 'blockquote':
+      return toPlainText(block.children);
+    case 'rule':
+      return '';
+  }
+}).join('');
@@ -0,0 +1,241 @@
+import { Stock, CorrelationMatrix, MeanVarianceObjective } from '../types';
+
+// Volatility (%) assumed for stocks that have none entered
+export const DEFAULT_VOLATILITY = 20;
+
+// Risk-aversion sweep used to trace the efficient frontier, from nearly risk-neutral to minimum variance
+const MIN_RISK_AVERSION = 0.05;
+const MAX_RISK_AVERSION = 1000;
+const FRONTIER_SAMPLES = 40;
+
+export interface PortfolioPoint {
+  weights: number[];
+  expectedReturn: number; // Annual, %
+  volatility: number;     // Annual, %
+}
+
+export interface MeanVarianceResult {
+  weights: number[];
+  point: PortfolioPoint;
+  warning: string | null; // Set when the objective could not be met exactly
+}
+
+/**
+ * Looks up the correlation between two stocks. The matrix is symmetric and only one
+ * direction needs to be stored; a stock is always perfectly correlated with itself.
+ * @param correlations The correlation matrix.
+ * @param idA The first stock id.
+ * @param idB The second stock id.
+ * @returns The correlation coefficient in [-1, 1], 0 when not set.
+ */
+export const getCorrelation = (correlations: CorrelationMatrix, idA: string, idB: string): number => {
+  if (idA === idB) return 1;
+  return correlations[idA]?.[idB] ?? correlations[idB]?.[idA] ?? 0;
+};
+
+/**
+ * Builds the annual covariance matrix (in decimal units) from per-stock volatilities and correlations.
+ * @param stocks The stocks, in the order the matrix rows should follow.
+ * @param correlations Pairwise correlations keyed by stock id.
+ * @returns The covariance matrix.
+ */
+export const buildCovarianceMatrix = (stocks: Stock[], correlations: CorrelationMatrix): number[][] => {
+  const sigmas = stocks.map(stock => (stock.volatility ?? DEFAULT_VOLATILITY) / 100);
+  return stocks.map((a, i) => stocks.map((b, j) => sigmas[i] * sigmas[j] * getCorrelation(correlations, a.id, b.id)));
+};
+
+/**
+ * Computes the expected return and volatility of a weighted portfolio.
+ * @param weights Portfolio weights (fractions of the invested amount).
+ * @param meanReturns Expected annual returns in decimal units.
+ * @param covariance Annual covariance matrix in decimal units.
+ * @returns The portfolio's expected return and volatility, both in %.
+ */
+export const portfolioStats = (weights: number[], meanReturns: number[], covariance: number[][]): PortfolioPoint => {
+  const expectedReturn = weights.reduce((sum, w, i) => sum + w * meanReturns[i], 0);
+  let variance = 0;
+  for (let i = 0; i < weights.length; i++) {
+    for (let j = 0; j < weights.length; j++) {
+      variance += weights[i] * weights[j] * covariance[i][j];
+    }
+  }
+  return { weights, expectedReturn: expectedReturn * 100, volatility: Math.sqrt(Math.max(0, variance)) * 100 };
+};
+
+/**
+ * Euclidean projection onto { w : Σw = total, lower ≤ w ≤ upper }, found by bisection on the
+ * shift τ in w = clamp(v − τ, lower, upper).
+ */
+const projectOntoBoundedSimplex = (v: number[], lower: number[], upper: number[], total: number): number[] => {
+  const n = v.length;
+  const sumAt = (tau: number) => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += Math.min(upper[i], Math.max(lower[i], v[i] - tau));
+    return sum;
+  };
+
+  let low = Infinity;
+  let high = -Infinity;
+  for (let i = 0; i < n; i++) {
+    low = Math.min(low, v[i] - upper[i]);
+    high = Math.max(high, v[i] - lower[i]);
+  }
+  for (let iter = 0; iter < 60 && high - low > 1e-13; iter++) {
+    const mid = (low + high) / 2;
+    if (sumAt(mid) > total) low = mid; else high = mid;
+  }
+  const tau = (low + high) / 2;
+  return v.map((x, i) => Math.min(upper[i], Math.max(lower[i], x - tau)));
+};
+
+/**
+ * Maximizes returnWeight·μᵀw − (riskAversion / 2)·wᵀΣw over the bounded simplex with
+ * accelerated projected gradient ascent (FISTA). The objective is concave, so a fixed 1/L step
+ * converges to the optimum. Passing the solution of a nearby problem as `start` cuts the
+ * iterations needed considerably.
+ */
+const solveQuadratic = (
+  meanReturns: number[],
+  covariance: number[][],
+  riskAversion: number,
+  returnWeight: number,
+  lower: number[],
+  upper: number[],
+  total: number,
+  start?: number[],
+): number[] => {
+  const n = meanReturns.length;
+  // Gershgorin bound on the largest eigenvalue of Σ gives a safe Lipschitz constant
+  const maxRowSum = Math.max(...covariance.map(row => row.reduce((sum, c) => sum + Math.abs(c), 0)));
+  const step = 1 / Math.max(1e-8, riskAversion * maxRowSum);
+  const gradientAt = (w: number[]) => w.map((_x, i) =>
+    returnWeight * meanReturns[i] - riskAversion * covariance[i].reduce((sum, c, j) => sum + c * w[j], 0)
+  );
+
+  let weights = projectOntoBoundedSimplex(start ?? new Array(n).fill(total / n), lower, upper, total);
+  let momentumPoint = weights;
+  let t = 1;
+  for (let iter = 0; iter < 5000; iter++) {
+    const gradient = gradientAt(momentumPoint);
+    const next = projectOntoBoundedSimplex(momentumPoint.map((w, i) => w + step * gradient[i]), lower, upper, total);
+    const change = next.reduce((sum, w, i) => sum + Math.abs(w - weights[i]), 0);
+    const nextT = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    momentumPoint = next.map((w, i) => w + ((t - 1) / nextT) * (w - weights[i]));
+    weights = next;
+    t = nextT;
+    if (change < 1e-9) break;
+  }
+  return weights;
+};
+
+interface OptimizerContext {
+  meanReturns: number[];
+  covariance: number[][];
+  lower: number[];
+  upper: number[];
+  total: number;
+}
+
+/**
+ * Prepares optimizer inputs. Weight limits are fractions of the budget; when the upper limits
+ * sum to less than 1 the unfillable remainder stays in cash.
+ */
+const createContext = (stocks: Stock[], correlations: CorrelationMatrix, lower?: number[], upper?: number[]): OptimizerContext => {
+  const lo = lower ?? stocks.map(() => 0);
+  const hi = upper ?? stocks.map(() => 1);
+  return {
+    meanReturns: stocks.map(stock => stock.expectedReturn / 100),
+    covariance: buildCovarianceMatrix(stocks, correlations),
+    lower: lo,
+    upper: hi,
+    total: Math.min(1, hi.reduce((sum, w) => sum + w, 0)),
+  };
+};
+
+/**
+ * Traces the efficient frontier: the highest-return portfolio for each level of risk.
+ * @param stocks The stock universe.
+ * @param correlations Pairwise correlations keyed by stock id.
+ * @param lower Optional per-stock minimum weights (fractions of the budget).
+ * @param upper Optional per-stock maximum weights (fractions of the budget).
+ * @returns Frontier portfolios ordered by increasing volatility.
+ */
+export const computeEfficientFrontier = (
+  stocks: Stock[],
+  correlations: CorrelationMatrix,
+  lower?: number[],
+  upper?: number[],
+): PortfolioPoint[] => {
+  if (stocks.length === 0) return [];
+  const ctx = createContext(stocks, correlations, lower, upper);
+  const { meanReturns, covariance } = ctx;
+  // Walk from minimum variance towards maximum return, warm-starting each solve from the last
+  let previous = solveQuadratic(meanReturns, covariance, 1, 0, ctx.lower, ctx.upper, ctx.total);
+  const points: PortfolioPoint[] = [portfolioStats(previous, meanReturns, covariance)];
+  const ratio = Math.pow(MAX_RISK_AVERSION / MIN_RISK_AVERSION, 1 / (FRONTIER_SAMPLES - 1));
+  for (let k = 0; k < FRONTIER_SAMPLES; k++) {
+    previous = solveQuadratic(meanReturns, covariance, MAX_RISK_AVERSION / Math.pow(ratio, k), 1, ctx.lower, ctx.upper, ctx.total, previous);
+    points.push(portfolioStats(previous, meanReturns, covariance));
+  }
+
+  // Keep only efficient points: sorted by volatility, each must improve on the previous return
+  const sorted = points.sort((a, b) => a.volatility - b.volatility);
+  const frontier: PortfolioPoint[] = [];
+  for (const point of sorted) {
+    const last = frontier[frontier.length - 1];
+    if (!last || point.expectedReturn > last.expectedReturn + 1e-6) {
+      frontier.push(point);
+    }
+  }
+  return frontier;
+};
+
+/**
+ * Runs a Markowitz mean-variance optimization.
+ * @param objective Minimum variance, maximum Sharpe ratio, or minimum variance at a target return.
+ * @param stocks The stock universe.
+ * @param correlations Pairwise correlations keyed by stock id.
+ * @param options Target return and risk-free rate (both annual %), plus optional weight limits.
+ * @returns The optimal weights (fractions of the budget) and the resulting portfolio statistics.
+ */
+export const optimizeMeanVariance = (
+  objective: MeanVarianceObjective,
+  stocks: Stock[],
+  correlations: CorrelationMatrix,
+  options: { targetReturn: number; riskFreeRate: number; lower?: number[]; upper?: number[] },
+): MeanVarianceResult => {
+  const ctx = createContext(stocks, correlations, options.lower, options.upper);
+  const result = (weights: number[], warning: string | null = null): MeanVarianceResult => ({
+    weights,
+    point: portfolioStats(weights, ctx.meanReturns, ctx.covariance),
+    warning,
+  });
+
+  if (objective === 'min-variance') {
+    return result(solveQuadratic(ctx.meanReturns, ctx.covariance, 1, 0, ctx.lower, ctx.upper, ctx.total));
+  }
+
+  const frontier = computeEfficientFrontier(stocks, correlations, options.lower, options.upper);
+
+  if (objective === 'max-sharpe') {
+    const sharpe = (point: PortfolioPoint) =>
+      point.volatility === 0 ? -Infinity : (point.expectedReturn - options.riskFreeRate) / point.volatility;
+    const best = frontier.reduce((top, point) => sharpe(point) > sharpe(top) ? point : top, frontier[0]);
+    return result(best.weights);
+  }
+
+  // Target return: lowest-risk frontier portfolio reaching the target, interpolated between samples
+  const target = options.targetReturn;
+  const highest = frontier[frontier.length - 1];
+  if (target > highest.expectedReturn + 1e-9) {
+    return result(highest.weights, `The target return of ${target.toFixed(2)}% is above the highest achievable ${highest.expectedReturn.toFixed(2)}%; using the maximum-return portfolio instead.`);
+  }
+  const upperIndex = frontier.findIndex(point => point.expectedReturn >= target - 1e-9);
+  if (upperIndex <= 0) {
+    return result(frontier[0].weights);
+  }
+  const a = frontier[upperIndex - 1];
+  const b = frontier[upperIndex];
+  const t = (target - a.expectedReturn) / (b.expectedReturn - a.expectedReturn);
+  return result(a.weights.map((w, i) => w + t * (b.weights[i] - w)));
+};
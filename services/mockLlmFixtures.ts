@@ -0,0 +1,53 @@
+import { MockLlmFixture } from './mockLlmProvider';
+
+/**
+ * Canned responses the mock provider replays, one per AI feature. Fixtures are matched in
+ * order against the prompt text, so put specific ones first. Exchanges logged in "record"
+ * mode can be pasted here as-is.
+ */
+export const DEFAULT_MOCK_FIXTURES: MockLlmFixture[] = [
+  {
+    match: 'fictional stocks with realistic-sounding prices',
+    response: JSON.stringify([
+      { name: 'Solara Grid', price: 84.5, expectedReturn: 14.2, volatility: 32.5, rationale: 'Builds utility-scale solar storage for regional grids.' },
+      { name: 'Tidewater Robotics', price: 212.75, expectedReturn: 18.6, volatility: 41, rationale: 'Automates port logistics with autonomous cranes.' },
+      { name: 'Meridian Health Labs', price: 136.2, expectedReturn: 9.8, volatility: 22.4, rationale: 'Develops low-cost diagnostic kits for clinics.' },
+      { name: 'Northpine Timber', price: 58.1, expectedReturn: 7.1, volatility: 18.9, rationale: 'Manages certified sustainable forests.' },
+      { name: 'Quanta Ledger', price: 402.3, expectedReturn: 21.5, volatility: 54.7, rationale: 'Sells settlement software to mid-sized banks.' },
+    ]),
+  },
+  {
+    match: 'rerun the calculation',
+    response: 'I can recalculate the allocation with your current budget and stocks. Please confirm below.',
+    functionCalls: [{ name: 'run_calculation', args: {} }],
+  },
+  {
+    match: 'analyze the market outlook',
+    response: `## Market Outlook (mock)
+
+These fictional stocks span a range of risk levels. Higher expected returns come with wider swings, so position sizes matter more than the headline numbers.
+
+- **Growth names** may outperform in an expanding economy but tend to fall furthest in sell-offs.
+- **Defensive names** usually hold up better when rates rise or demand slows.
+
+*This is a mock response generated offline for a hypothetical scenario. It is not financial advice.*`,
+  },
+  {
+    match: 'comprehensive analysis of this hypothetical portfolio',
+    response: `## Portfolio Review (mock)
+
+### Diversification
+The allocation is concentrated in the stocks with the highest expected return. Spreading money across more holdings would reduce single-stock risk.
+
+### Risk Assessment
+Expected returns are estimates, not guarantees. A drawdown in the largest position would dominate the portfolio's result.
+
+### Optimization/Rebalancing
+Try the Equal Weight or Mean-Variance strategies and compare the expected return against the spread of outcomes.
+
+### Next Steps
+Read about correlation, volatility and rebalancing bands.
+
+*This is a mock response generated offline for educational purposes only and is not financial advice.*`,
+  },
+];
@@ -0,0 +1,120 @@
+import { AiErrorCategory } from '../types';
+import { LlmProvider, LlmRequest, LlmStreamOptions, LlmFunctionCall, LlmError, LlmUsage, getPromptText, wait } from './llmProvider';
+import { DEFAULT_MOCK_FIXTURES } from './mockLlmFixtures';
+
+export interface MockLlmFixture {
+  match: string;      // Replayed when the prompt text contains this
+  response: string;
+  model?: string;     // Only match requests to this model when given
+  functionCalls?: LlmFunctionCall[]; // Proposed after the text when the request offers tools
+}
+
+export interface MockLlmOptions {
+  fixtures?: MockLlmFixture[];
+  latencyMs?: number;  // Total time to produce a response, spread across the streamed chunks
+  chunkSize?: number;  // Characters per streamed chunk
+  failEvery?: number;  // Fail every Nth request (1 fails all), counted per provider
+  failWith?: string;   // Message of the injected failures
+  failCategory?: AiErrorCategory; // Category of the injected failures; network failures are retried
+}
+
+const DEFAULT_LATENCY_MS = 600;
+const DEFAULT_CHUNK_SIZE = 24;
+
+// Rough token counts (about four characters per token), so the usage tally works offline
+const estimateUsage = (request: LlmRequest, response: string): LlmUsage => {
+  const promptText = typeof request.contents === 'string' ? request.contents : request.contents.map(message => message.text).join('\n');
+  const promptTokens = Math.ceil(((request.systemInstruction?.length ?? 0) + promptText.length) / 4);
+  const outputTokens = Math.ceil(response.length / 4);
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+};
+
+/**
+ * The reply used when no fixture matches, so unknown prompts still get a stable answer.
+ * @param request The request.
+ * @returns The fallback reply.
+ */
+const getFallbackResponse = (request: LlmRequest): string => {
+  const prompt = getPromptText(request).trim().replace(/\s+/g, ' ');
+  const excerpt = prompt.length > 80 ? `${prompt.slice(0, 80)}…` : prompt;
+  return `This is an offline mock response to "${excerpt}". Configure a Gemini API key to get real answers.`;
+};
+
+/**
+ * An offline provider that replays fixtures, for developing and testing the AI features
+ * without network access or an API key. Responses are deterministic: the same requests in
+ * the same order always give the same output, including injected failures.
+ * @param options Fixtures, latency and failure injection.
+ * @returns The mock provider.
+ */
+export const createMockLlmProvider = (options: MockLlmOptions = {}): LlmProvider => {
+  const fixtures = options.fixtures ?? DEFAULT_MOCK_FIXTURES;
+  const latencyMs = options.latencyMs ?? DEFAULT_LATENCY_MS;
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  let requestCount = 0;
+
+  const respond = (request: LlmRequest): MockLlmFixture => {
+    requestCount++;
+    if (options.failEvery && requestCount % options.failEvery === 0) {
+      const category = options.failCategory ?? 'network';
+      throw new LlmError(category, options.failWith ?? 'The mock provider failed this request as configured.', category === 'network');
+    }
+    const prompt = getPromptText(request);
+    const fixture = fixtures.find(candidate =>
+      prompt.includes(candidate.match) && (candidate.model === undefined || candidate.model === request.model));
+    return fixture ?? { match: prompt, response: getFallbackResponse(request) };
+  };
+
+  return {
+    id: 'mock',
+
+    generateText: async (request: LlmRequest, streamOptions: LlmStreamOptions = {}) => {
+      const { onChunk, signal, onFunctionCall, onUsage } = streamOptions;
+      const { response, functionCalls } = respond(request);
+      const chunkCount = Math.max(1, Math.ceil(response.length / chunkSize));
+      for (let i = 0; i < chunkCount; i++) {
+        await wait(latencyMs / chunkCount, signal);
+        onChunk?.(response.slice(0, (i + 1) * chunkSize));
+      }
+      if (request.tools) functionCalls?.forEach(call => onFunctionCall?.(call));
+      onUsage?.(estimateUsage(request, response));
+      return response;
+    },
+
+    generateJson: async (request, _responseSchema, callOptions = {}) => {
+      const { response } = respond(request);
+      await wait(latencyMs, callOptions.signal);
+      callOptions.onUsage?.(estimateUsage(request, response));
+      return response;
+    },
+  };
+};
+
+/**
+ * Wraps a provider and reports every successful exchange as a fixture, so real responses
+ * can be replayed later by the mock provider.
+ * @param provider The provider to record.
+ * @param onRecord Called with each recorded fixture.
+ * @returns The recording provider.
+ */
+export const createRecordingLlmProvider = (provider: LlmProvider, onRecord: (fixture: MockLlmFixture) => void): LlmProvider => {
+  const record = (request: LlmRequest, response: string, functionCalls: LlmFunctionCall[] = []) => {
+    onRecord({ match: getPromptText(request), response, model: request.model, ...(functionCalls.length > 0 ? { functionCalls } : {}) });
+    return response;
+  };
+  return {
+    id: `record:${provider.id}`,
+    generateText: async (request, streamOptions = {}) => {
+      const functionCalls: LlmFunctionCall[] = [];
+      const response = await provider.generateText(request, {
+        ...streamOptions,
+        onFunctionCall: (call) => {
+          functionCalls.push(call);
+          streamOptions.onFunctionCall?.(call);
+        },
+      });
+      return record(request, response, functionCalls);
+    },
+    generateJson: async (request, responseSchema, callOptions) => record(request, await provider.generateJson(request, responseSchema, callOptions)),
+  };
+};
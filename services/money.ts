@@ -0,0 +1,131 @@
+import { RoundingMode, RoundingPolicy } from '../types';
+
+// Amounts are settled in integer minor units (cents for most currencies), so sums and
+// differences of settled amounts are exact. They are still passed around as plain numbers,
+// each holding a whole number of minor units. Share quantities are kept on a fixed grid the
+// same way.
+
+// Shares round toward the budget; cash rounds to the nearest cent without a bias
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = { shares: 'down', cash: 'half-even' };
+
+export const ROUNDING_MODE_LABELS: Record<RoundingMode, string> = {
+  down: 'Round down',
+  up: 'Round up',
+  'half-up': 'Nearest, halves up',
+  'half-even': 'Nearest, halves to even',
+};
+
+// Finest share quantity kept when the broker allows any quantity
+export const SHARE_DECIMALS = 6;
+
+// Products such as 1.005 * 100 = 100.49999999999999 are snapped to this many decimals of a
+// step before rounding, so a value meant to land on a step isn't pushed to the next one
+const SNAP_DECIMALS = 6;
+
+const minorUnitDigits = new Map<string, number>();
+
+/**
+ * The number of decimals in a currency's minor unit.
+ * @param currency The ISO 4217 code.
+ * @returns 2 for most currencies, 0 for yen or won, 3 for dinars; 2 for codes Intl doesn't know.
+ */
+export const getMinorUnitDigits = (currency: string): number => {
+  let digits = minorUnitDigits.get(currency);
+  if (digits === undefined) {
+    try {
+      digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      digits = 2;
+    }
+    minorUnitDigits.set(currency, digits);
+  }
+  return digits;
+};
+
+/**
+ * Rounds a count of steps to an integer.
+ * @param steps The fractional number of steps.
+ * @param mode The rounding mode.
+ * @returns The whole number of steps (never -0).
+ */
+const roundSteps = (steps: number, mode: RoundingMode): number => {
+  const snapped = parseFloat(steps.toFixed(SNAP_DECIMALS));
+  const floor = Math.floor(snapped);
+  const remainder = snapped - floor;
+  let rounded: number;
+  switch (mode) {
+    case 'down':
+      rounded = floor;
+      break;
+    case 'up':
+      rounded = remainder > 0 ? floor + 1 : floor;
+      break;
+    case 'half-up':
+      rounded = remainder >= 0.5 ? floor + 1 : floor;
+      break;
+    case 'half-even':
+      rounded = remainder > 0.5 || (remainder === 0.5 && floor % 2 !== 0) ? floor + 1 : floor;
+      break;
+  }
+  return rounded + 0;
+};
+
+/**
+ * Converts an amount to whole minor units.
+ * @param amount The amount.
+ * @param currency The currency, which sets the size of the minor unit.
+ * @param mode How to round a fraction of a minor unit.
+ * @returns The integer number of minor units.
+ */
+export const toMinorUnits = (amount: number, currency: string, mode: RoundingMode = 'half-even'): number =>
+  roundSteps(amount * 10 ** getMinorUnitDigits(currency), mode);
+
+/**
+ * Converts whole minor units back to an amount.
+ * @param units The integer number of minor units.
+ * @param currency The currency.
+ * @returns The amount, e.g. 1234.5 for 123450 cents.
+ */
+export const fromMinorUnits = (units: number, currency: string): number => units / 10 ** getMinorUnitDigits(currency);
+
+/**
+ * Rounds an amount to the currency's minor unit.
+ * @param amount The amount.
+ * @param currency The currency.
+ * @param mode How to round a fraction of a minor unit.
+ * @returns The settled amount.
+ */
+export const roundMoney = (amount: number, currency: string, mode: RoundingMode = 'half-even'): number =>
+  fromMinorUnits(toMinorUnits(amount, currency, mode), currency);
+
+/**
+ * Adds amounts exactly.
+ * @param amounts The amounts, each rounded to the nearest minor unit first.
+ * @param currency The currency.
+ * @returns The settled sum.
+ */
+export const sumMoney = (amounts: number[], currency: string): number =>
+  fromMinorUnits(amounts.reduce((sum, amount) => sum + toMinorUnits(amount, currency), 0), currency);
+
+/**
+ * Subtracts amounts from another exactly.
+ * @param amount The amount to subtract from.
+ * @param subtrahends The amounts to take away.
+ * @param currency The currency.
+ * @returns The settled difference, e.g. the cash left once the invested amount and fees are paid.
+ */
+export const subtractMoney = (amount: number, subtrahends: number[], currency: string): number =>
+  fromMinorUnits(subtrahends.reduce((units, subtrahend) => units - toMinorUnits(subtrahend, currency), toMinorUnits(amount, currency)), currency);
+
+/**
+ * Rounds a share quantity onto a grid.
+ * @param shares The quantity.
+ * @param increment The grid step, e.g. 1 for whole shares; 0 or less for the finest grid (SHARE_DECIMALS).
+ * @param mode How to round a quantity between two grid points.
+ * @returns The quantity on the grid.
+ */
+export const roundShares = (shares: number, increment: number, mode: RoundingMode = 'down'): number => {
+  const step = increment > 0 ? increment : 10 ** -SHARE_DECIMALS;
+  // Back to the step's decimals, so 3 * 0.1 gives 0.3 rather than 0.30000000000000004
+  return parseFloat((roundSteps(shares / step, mode) * step).toPrecision(12));
+};
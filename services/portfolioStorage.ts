@@ -0,0 +1,368 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PortfolioSnapshot,
+  SavedPortfolio,
+  Stock,
+  InvestmentResult,
+  FxRates,
+  RoundingMode,
+  RoundingPolicy,
+  BrokerProfile,
+  MeanVarianceSettings,
+  MeanVarianceObjective,
+} from '../types';
+import { DEFAULT_MEAN_VARIANCE_SETTINGS, ALLOCATION_STRATEGIES, MEAN_VARIANCE_OBJECTIVE_LABELS } from './allocationService';
+import { DEFAULT_CUSTOM_BROKER_PROFILE } from './brokerProfiles';
+import { DEFAULT_BASE_CURRENCY, DEFAULT_FX_RATES, normalizeCurrencyCode } from './currency';
+import { DEFAULT_ROUNDING_POLICY, ROUNDING_MODE_LABELS } from './money';
+
+// Bump whenever the stored shape changes, and add a migration from the previous version below
+export const PORTFOLIO_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'fractional-stock-investor.portfolios';
+
+export interface PortfolioLibrary {
+  portfolios: SavedPortfolio[];
+  activePortfolioId: string | null;
+}
+
+/**
+ * Where saved portfolios live. Implementations may be synchronous underneath (localStorage)
+ * or genuinely asynchronous (IndexedDB, a server); callers always await.
+ */
+export interface PortfolioStorage {
+  load: () => Promise<PortfolioLibrary>;
+  save: (library: PortfolioLibrary) => Promise<void>;
+}
+
+type StoredData = Record<string, unknown>;
+
+// Each entry upgrades data stored at schema version N (the key) to version N + 1
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {};
+
+export const DEFAULT_PORTFOLIO_SNAPSHOT: PortfolioSnapshot = {
+  budget: 10000,
+  stocks: [],
+  investmentResults: [],
+  strategyId: 'greedy',
+  shareMode: 'fractional',
+  correlations: {},
+  meanVariance: DEFAULT_MEAN_VARIANCE_SETTINGS,
+  brokerProfileId: 'none',
+  customBrokerProfile: DEFAULT_CUSTOM_BROKER_PROFILE,
+  planMode: null,
+  rounding: DEFAULT_ROUNDING_POLICY,
+  baseCurrency: DEFAULT_BASE_CURRENCY,
+  fxRates: DEFAULT_FX_RATES,
+  aiResponse: '',
+};
+
+const OPTIONAL_STOCK_NUMBERS = ['targetWeight', 'volatility', 'minWeight', 'maxWeight', 'maxAmount', 'lockedAmount', 'currentShares'] as const;
+
+const isRecord = (value: unknown): value is StoredData => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Rebuilds a stored stock from known fields only, dropping it when required fields are unusable.
+ * @param raw The stored value.
+ * @returns The stock, or null when it can't be restored.
+ */
+const normalizeStock = (raw: unknown): Stock | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string'
+    || !isFiniteNumber(raw.price) || raw.price <= 0 || !isFiniteNumber(raw.expectedReturn)) {
+    return null;
+  }
+  const stock: Stock = { id: raw.id, name: raw.name, price: raw.price, expectedReturn: raw.expectedReturn };
+  OPTIONAL_STOCK_NUMBERS.forEach(field => {
+    const value = raw[field];
+    if (isFiniteNumber(value)) stock[field] = value;
+  });
+  const currency = typeof raw.currency === 'string' ? normalizeCurrencyCode(raw.currency) : null;
+  if (currency) stock.currency = currency;
+  return stock;
+};
+
+/**
+ * Rebuilds a stored rate table, keeping only positive rates for valid currency codes.
+ * @param raw The stored value.
+ * @returns The rate table, or the default (empty) one when it can't be restored.
+ */
+const normalizeFxRates = (raw: unknown): FxRates => {
+  const base = isRecord(raw) && typeof raw.base === 'string' ? normalizeCurrencyCode(raw.base) : null;
+  if (!isRecord(raw) || !base || !isRecord(raw.rates)) return DEFAULT_FX_RATES;
+  const rates: Record<string, number> = {};
+  Object.entries(raw.rates).forEach(([key, value]) => {
+    const code = normalizeCurrencyCode(key);
+    if (code && code !== base && isFiniteNumber(value) && value > 0) rates[code] = value;
+  });
+  return { base, rates, ...(typeof raw.asOf === 'string' ? { asOf: raw.asOf } : {}) };
+};
+
+/**
+ * Rebuilds a stored rounding policy, falling back to the default for unknown modes.
+ * @param raw The stored value.
+ * @returns The rounding policy.
+ */
+const normalizeRounding = (raw: unknown): RoundingPolicy => {
+  const modeOf = (value: unknown, fallback: RoundingMode): RoundingMode =>
+    typeof value === 'string' && value in ROUNDING_MODE_LABELS ? value as RoundingMode : fallback;
+  return isRecord(raw)
+    ? { shares: modeOf(raw.shares, DEFAULT_ROUNDING_POLICY.shares), cash: modeOf(raw.cash, DEFAULT_ROUNDING_POLICY.cash) }
+    : DEFAULT_ROUNDING_POLICY;
+};
+
+/**
+ * Rebuilds a stored custom broker profile field by field, falling back to the default for
+ * any field of the wrong type.
+ * @param raw The stored value.
+ * @returns The broker profile.
+ */
+const normalizeBrokerProfile = (raw: unknown): BrokerProfile => {
+  const fallback = DEFAULT_PORTFOLIO_SNAPSHOT.customBrokerProfile;
+  if (!isRecord(raw)) return fallback;
+  const numberOf = (field: 'commissionPerOrder' | 'commissionPercent' | 'minOrderAmount' | 'shareIncrement') => {
+    const value = raw[field];
+    return isFiniteNumber(value) ? value : fallback[field];
+  };
+  return {
+    id: fallback.id,
+    name: typeof raw.name === 'string' ? raw.name : fallback.name,
+    commissionPerOrder: numberOf('commissionPerOrder'),
+    commissionPercent: numberOf('commissionPercent'),
+    minOrderAmount: numberOf('minOrderAmount'),
+    shareIncrement: numberOf('shareIncrement'),
+  };
+};
+
+/**
+ * Rebuilds stored mean-variance settings field by field, falling back to the default for an
+ * unknown objective or a non-numeric rate.
+ * @param raw The stored value.
+ * @returns The settings.
+ */
+const normalizeMeanVariance = (raw: unknown): MeanVarianceSettings => {
+  const fallback = DEFAULT_PORTFOLIO_SNAPSHOT.meanVariance;
+  if (!isRecord(raw)) return fallback;
+  return {
+    objective: typeof raw.objective === 'string' && raw.objective in MEAN_VARIANCE_OBJECTIVE_LABELS
+      ? raw.objective as MeanVarianceObjective
+      : fallback.objective,
+    targetReturn: isFiniteNumber(raw.targetReturn) ? raw.targetReturn : fallback.targetReturn,
+    riskFreeRate: isFiniteNumber(raw.riskFreeRate) ? raw.riskFreeRate : fallback.riskFreeRate,
+  };
+};
+
+/**
+ * Rebuilds a stored correlation matrix, keeping only coefficients between -1 and 1.
+ * @param raw The stored value.
+ * @returns The correlation matrix.
+ */
+const normalizeCorrelations = (raw: unknown): PortfolioSnapshot['correlations'] => {
+  const correlations: PortfolioSnapshot['correlations'] = {};
+  if (!isRecord(raw)) return correlations;
+  Object.entries(raw).forEach(([idA, row]) => {
+    if (!isRecord(row)) return;
+    Object.entries(row).forEach(([idB, value]) => {
+      if (isFiniteNumber(value) && value >= -1 && value <= 1) {
+        correlations[idA] = { ...correlations[idA], [idB]: value };
+      }
+    });
+  });
+  return correlations;
+};
+
+/**
+ * Rebuilds a stored result row, dropping it when its fields are unusable.
+ * @param raw The stored value.
+ * @returns The result row, or null when it can't be restored.
+ */
+const normalizeResult = (raw: unknown): InvestmentResult | null => {
+  if (!isRecord(raw) || typeof raw.stockId !== 'string' || typeof raw.stockName !== 'string'
+    || !isFiniteNumber(raw.fraction) || !isFiniteNumber(raw.investedAmount) || !isFiniteNumber(raw.actualReturn)) {
+    return null;
+  }
+  const result: InvestmentResult = {
+    stockId: raw.stockId,
+    stockName: raw.stockName,
+    fraction: raw.fraction,
+    investedAmount: raw.investedAmount,
+    actualReturn: raw.actualReturn,
+  };
+  if (isFiniteNumber(raw.fee)) result.fee = raw.fee;
+  return result;
+};
+
+/**
+ * Fills in defaults for anything a stored snapshot is missing, so fields added after it was
+ * saved don't break it. Unusable stocks and results are dropped.
+ * @param raw The stored value.
+ * @returns The snapshot.
+ */
+export const normalizePortfolioSnapshot = (raw: unknown): PortfolioSnapshot => {
+  const data = isRecord(raw) ? raw : {};
+  const stocks = (Array.isArray(data.stocks) ? data.stocks : []).map(normalizeStock).filter((stock): stock is Stock => stock !== null);
+  const investmentResults = (Array.isArray(data.investmentResults) ? data.investmentResults : [])
+    .map(normalizeResult)
+    .filter((result): result is InvestmentResult => result !== null && stocks.some(stock => stock.id === result.stockId));
+  const isKnownStrategy = (value: unknown) => ALLOCATION_STRATEGIES.some(strategy => strategy.id === value);
+  const planMode = isRecord(data.planMode) && isKnownStrategy(data.planMode.strategyId)
+    && (data.planMode.shareMode === 'fractional' || data.planMode.shareMode === 'whole')
+    ? data.planMode as PortfolioSnapshot['planMode']
+    : null;
+
+  return {
+    budget: isFiniteNumber(data.budget) ? data.budget : DEFAULT_PORTFOLIO_SNAPSHOT.budget,
+    stocks,
+    investmentResults,
+    strategyId: isKnownStrategy(data.strategyId) ? data.strategyId as PortfolioSnapshot['strategyId'] : DEFAULT_PORTFOLIO_SNAPSHOT.strategyId,
+    shareMode: data.shareMode === 'whole' ? 'whole' : 'fractional',
+    correlations: normalizeCorrelations(data.correlations),
+    meanVariance: normalizeMeanVariance(data.meanVariance),
+    brokerProfileId: typeof data.brokerProfileId === 'string' ? data.brokerProfileId : DEFAULT_PORTFOLIO_SNAPSHOT.brokerProfileId,
+    customBrokerProfile: normalizeBrokerProfile(data.customBrokerProfile),
+    planMode,
+    rounding: normalizeRounding(data.rounding),
+    baseCurrency: (typeof data.baseCurrency === 'string' ? normalizeCurrencyCode(data.baseCurrency) : null) ?? DEFAULT_BASE_CURRENCY,
+    fxRates: normalizeFxRates(data.fxRates),
+    aiResponse: typeof data.aiResponse === 'string' ? data.aiResponse : '',
+  };
+};
+
+/**
+ * Restores a stored portfolio: its snapshot plus name and timestamps.
+ * @param raw The stored value.
+ * @returns The portfolio, or null when it has no usable id.
+ */
+const normalizePortfolio = (raw: unknown): SavedPortfolio | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  const now = new Date().toISOString();
+  return {
+    ...normalizePortfolioSnapshot(raw),
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name : 'Untitled Portfolio',
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : now,
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : now,
+  };
+};
+
+/**
+ * Brings stored data up to the current schema version and restores the portfolios in it.
+ * @param raw The parsed stored data.
+ * @returns The portfolio library.
+ * @throws An error when the data is unreadable or was written by a newer version of the app.
+ */
+export const migratePortfolioLibrary = (raw: unknown): PortfolioLibrary => {
+  if (!isRecord(raw) || !isFiniteNumber(raw.schemaVersion)) {
+    throw new Error('Saved portfolios are in an unrecognized format.');
+  }
+  if (raw.schemaVersion > PORTFOLIO_SCHEMA_VERSION) {
+    throw new Error('Saved portfolios were created by a newer version of this app. Please update the app to open them.');
+  }
+
+  let data = raw;
+  for (let version = raw.schemaVersion; version < PORTFOLIO_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Saved portfolios use schema version ${raw.schemaVersion}, which can no longer be upgraded.`);
+    }
+    data = migrate(data);
+  }
+
+  const portfolios = (Array.isArray(data.portfolios) ? data.portfolios : [])
+    .map(normalizePortfolio)
+    .filter((portfolio): portfolio is SavedPortfolio => portfolio !== null);
+  const activePortfolioId = portfolios.some(portfolio => portfolio.id === data.activePortfolioId)
+    ? data.activePortfolioId as string
+    : portfolios[0]?.id ?? null;
+  return { portfolios, activePortfolioId };
+};
+
+/**
+ * Extracts the working state from a saved portfolio.
+ * @param portfolio The saved portfolio.
+ * @returns Its snapshot, without name or timestamps.
+ */
+export const toPortfolioSnapshot = (portfolio: PortfolioSnapshot): PortfolioSnapshot => ({
+  budget: portfolio.budget,
+  stocks: portfolio.stocks,
+  investmentResults: portfolio.investmentResults,
+  strategyId: portfolio.strategyId,
+  shareMode: portfolio.shareMode,
+  correlations: portfolio.correlations,
+  meanVariance: portfolio.meanVariance,
+  brokerProfileId: portfolio.brokerProfileId,
+  customBrokerProfile: portfolio.customBrokerProfile,
+  planMode: portfolio.planMode,
+  rounding: portfolio.rounding,
+  baseCurrency: portfolio.baseCurrency,
+  fxRates: portfolio.fxRates,
+  aiResponse: portfolio.aiResponse,
+});
+
+/**
+ * Creates a new named portfolio.
+ * @param name The portfolio name.
+ * @param snapshot The working state to store in it.
+ * @returns The portfolio with a fresh id and timestamps.
+ */
+export const createPortfolio = (name: string, snapshot: PortfolioSnapshot = DEFAULT_PORTFOLIO_SNAPSHOT): SavedPortfolio => {
+  const now = new Date().toISOString();
+  return { ...toPortfolioSnapshot(snapshot), id: uuidv4(), name, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Storage backed by the browser's localStorage.
+ * @param storage The Web Storage area to use.
+ * @param key The key the library is stored under.
+ * @returns A portfolio storage.
+ */
+export const createLocalPortfolioStorage = (storage: Storage, key: string = STORAGE_KEY): PortfolioStorage => ({
+  load: async () => {
+    const stored = storage.getItem(key);
+    if (stored === null) return { portfolios: [], activePortfolioId: null };
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stored);
+    } catch {
+      throw new Error('Saved portfolios are corrupted and could not be read.');
+    }
+    return migratePortfolioLibrary(parsed);
+  },
+  save: async (library) => {
+    try {
+      storage.setItem(key, JSON.stringify({ schemaVersion: PORTFOLIO_SCHEMA_VERSION, ...library }));
+    } catch (error) {
+      console.error('Failed to save portfolios:', error);
+      throw new Error('Could not save portfolios. Browser storage may be full or disabled.');
+    }
+  },
+});
+
+/**
+ * Storage that only lasts for the session, used when localStorage is unavailable.
+ * @returns A portfolio storage.
+ */
+export const createMemoryPortfolioStorage = (): PortfolioStorage => {
+  let library: PortfolioLibrary = { portfolios: [], activePortfolioId: null };
+  return {
+    load: async () => library,
+    save: async (nextLibrary) => {
+      library = nextLibrary;
+    },
+  };
+};
+
+/**
+ * Picks localStorage when the browser allows it, falling back to in-memory storage.
+ * @returns The storage to use for this session.
+ */
+export const getDefaultPortfolioStorage = (): PortfolioStorage => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return createLocalPortfolioStorage(window.localStorage);
+    }
+  } catch {
+    // Accessing localStorage throws when storage is disabled, e.g. for sandboxed iframes
+  }
+  return createMemoryPortfolioStorage();
+};
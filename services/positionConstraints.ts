@@ -0,0 +1,141 @@
+import { Stock, AllocationIssue, ShareMode } from '../types';
+import { formatMoney, DEFAULT_BASE_CURRENCY } from './currency';
+
+export interface PositionBounds {
+  minShares: number;
+  maxShares: number;
+}
+
+// Tolerance for float noise when converting amount bounds into share counts
+const EPSILON = 1e-9;
+
+/**
+ * Whether a stock carries any position constraint (weights, amount cap or lock).
+ * @param stock The stock to check.
+ * @returns True if at least one constraint field is set.
+ */
+export const hasPositionConstraints = (stock: Stock): boolean =>
+  stock.minWeight !== undefined
+  || stock.maxWeight !== undefined
+  || stock.maxAmount !== undefined
+  || stock.lockedAmount !== undefined;
+
+/**
+ * Converts a stock's constraints into amount limits for a given budget.
+ * A locked position pins both limits to the locked amount.
+ * @param stock The stock whose constraints to read.
+ * @param budget The total budget that weights are relative to.
+ * @returns The minimum and maximum amount for the position, in the budget's currency.
+ */
+export const getDollarBounds = (stock: Stock, budget: number): { min: number; max: number } => {
+  if (stock.lockedAmount !== undefined) {
+    return { min: stock.lockedAmount, max: stock.lockedAmount };
+  }
+  const min = budget * (stock.minWeight ?? 0) / 100;
+  let max = budget * (stock.maxWeight ?? 100) / 100;
+  if (stock.maxAmount !== undefined) {
+    max = Math.min(max, stock.maxAmount);
+  }
+  return { min, max };
+};
+
+/**
+ * Converts a stock's constraints into share-count limits.
+ * In whole-share mode the minimum is rounded up and the maximum rounded down to whole shares,
+ * except for locked positions, which are rounded to the nearest whole share.
+ * @param stock The stock whose constraints to read.
+ * @param budget The total budget that weights are relative to.
+ * @param shareMode Whether positions must be whole shares.
+ * @returns The minimum and maximum number of shares for the position.
+ */
+export const getShareBounds = (stock: Stock, budget: number, shareMode: ShareMode = 'fractional'): PositionBounds => {
+  const { min, max } = getDollarBounds(stock, budget);
+  if (shareMode === 'fractional') {
+    return { minShares: min / stock.price, maxShares: max / stock.price };
+  }
+  if (stock.lockedAmount !== undefined) {
+    const lockedShares = Math.round(stock.lockedAmount / stock.price);
+    return { minShares: lockedShares, maxShares: lockedShares };
+  }
+  return {
+    minShares: Math.ceil(min / stock.price - EPSILON),
+    maxShares: Math.floor(max / stock.price + EPSILON),
+  };
+};
+
+/**
+ * Checks stock constraints for contradictions and for combinations the budget cannot satisfy.
+ * @param budget The total budget.
+ * @param stocks The stock universe with its constraints.
+ * @param shareMode Whether positions must be whole shares.
+ * @param currency The budget's currency, for the messages.
+ * @returns Errors for infeasible combinations and warnings for constraints that only limit the plan.
+ */
+export const checkPositionConstraints = (
+  budget: number,
+  stocks: Stock[],
+  shareMode: ShareMode = 'fractional',
+  currency: string = DEFAULT_BASE_CURRENCY,
+): AllocationIssue[] => {
+  const issues: AllocationIssue[] = [];
+  const money = (value: number) => formatMoney(value, currency);
+  const error = (message: string, stockId?: string) => issues.push({ severity: 'error', message, stockId });
+  const warning = (message: string, stockId?: string) => issues.push({ severity: 'warning', message, stockId });
+
+  for (const stock of stocks) {
+    const minWeightAmount = budget * (stock.minWeight ?? 0) / 100;
+    const maxWeightAmount = budget * (stock.maxWeight ?? 100) / 100;
+
+    if (stock.lockedAmount !== undefined) {
+      const locked = stock.lockedAmount;
+      if (locked + EPSILON < minWeightAmount) {
+        error(`${stock.name} is locked at ${money(locked)}, below its minimum weight of ${stock.minWeight}% (${money(minWeightAmount)}).`, stock.id);
+      }
+      if (locked > maxWeightAmount + EPSILON) {
+        error(`${stock.name} is locked at ${money(locked)}, above its maximum weight of ${stock.maxWeight}% (${money(maxWeightAmount)}).`, stock.id);
+      }
+      if (stock.maxAmount !== undefined && locked > stock.maxAmount + EPSILON) {
+        error(`${stock.name} is locked at ${money(locked)}, above its maximum amount of ${money(stock.maxAmount)}.`, stock.id);
+      }
+      if (shareMode === 'whole') {
+        const { minShares } = getShareBounds(stock, budget, shareMode);
+        const roundedAmount = minShares * stock.price;
+        if (Math.abs(roundedAmount - locked) > 0.005) {
+          warning(`${stock.name} is locked at ${money(locked)}, which is not a whole number of shares; it will hold ${minShares} shares (${money(roundedAmount)}).`, stock.id);
+        }
+      }
+      continue;
+    }
+
+    if (stock.minWeight !== undefined && stock.maxWeight !== undefined && stock.minWeight > stock.maxWeight) {
+      error(`${stock.name} has a minimum weight (${stock.minWeight}%) above its maximum weight (${stock.maxWeight}%).`, stock.id);
+      continue;
+    }
+    if (stock.maxAmount !== undefined && minWeightAmount > stock.maxAmount + EPSILON) {
+      error(`${stock.name} needs at least ${money(minWeightAmount)} to reach its minimum weight of ${stock.minWeight}%, but its maximum amount is ${money(stock.maxAmount)}.`, stock.id);
+      continue;
+    }
+    if (shareMode === 'whole') {
+      const { minShares, maxShares } = getShareBounds(stock, budget, shareMode);
+      if (minShares > maxShares) {
+        error(`${stock.name} cannot satisfy its limits with whole shares: reaching the minimum takes ${minShares} share(s) (${money(minShares * stock.price)}), but the maximum allows only ${maxShares}.`, stock.id);
+      }
+    }
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return issues;
+  }
+
+  const bounds = stocks.map(stock => getShareBounds(stock, budget, shareMode));
+  const totalMinimum = stocks.reduce((sum, stock, i) => sum + bounds[i].minShares * stock.price, 0);
+  const totalMaximum = stocks.reduce((sum, stock, i) => sum + bounds[i].maxShares * stock.price, 0);
+
+  if (totalMinimum > budget + 0.005) {
+    error(`Minimum weights and locked positions require ${money(totalMinimum)}, which exceeds the budget of ${money(budget)}. Lower some minimums or unlock a position.`);
+  } else if (totalMaximum + 0.005 < budget) {
+    warning(`Position limits cap total investment at ${money(totalMaximum)}; at least ${money(budget - totalMaximum)} of the budget will stay in cash.`);
+  }
+
+  return issues;
+};
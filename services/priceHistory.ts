@@ -0,0 +1,318 @@
+import { PricePoint, PriceSeries, ReturnEstimationMethod } from '../types';
+import { CsvRowError, normalizeHeader, parseNumberCell } from './csvService';
+
+export type PriceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface PriceHistoryImportResult {
+  series: PriceSeries[];
+  errors: CsvRowError[];
+}
+
+// Statistics of one price series over a look-back window; rates are annualized percentages
+export interface PriceHistoryStats {
+  frequency: PriceFrequency;
+  start: string;       // First date in the window
+  end: string;         // Last date in the window
+  returnCount: number; // Period returns the statistics are based on
+  annualReturn: number;
+  volatility: number;
+  maxDrawdown: number; // Largest peak-to-trough fall, as a positive percentage
+  lastClose: number;
+}
+
+export interface LookbackWindow {
+  id: string;
+  label: string;
+  years: number | null; // null uses all the data
+}
+
+export const LOOKBACK_WINDOWS: LookbackWindow[] = [
+  { id: 'all', label: 'All data', years: null },
+  { id: '1y', label: 'Last 1 year', years: 1 },
+  { id: '3y', label: 'Last 3 years', years: 3 },
+  { id: '5y', label: 'Last 5 years', years: 5 },
+  { id: '10y', label: 'Last 10 years', years: 10 },
+];
+
+export const RETURN_ESTIMATION_METHODS: { id: ReturnEstimationMethod; label: string; description: string }[] = [
+  { id: 'arithmetic', label: 'Arithmetic mean', description: 'Average period return × periods per year' },
+  { id: 'geometric', label: 'Geometric (CAGR)', description: 'Compound annual growth from the first to the last price' },
+  { id: 'ewma', label: 'EWMA', description: 'Exponentially weighted, so recent returns count more' },
+];
+
+export const PERIODS_PER_YEAR: Record<PriceFrequency, number> = { daily: 252, weekly: 52, monthly: 12 };
+
+// EWMA decay factors per frequency, following RiskMetrics (0.94 daily, 0.97 monthly)
+export const EWMA_DECAY: Record<PriceFrequency, number> = { daily: 0.94, weekly: 0.96, monthly: 0.97 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Header spellings recognized for the date, series name and price columns
+const DATE_HEADERS = ['date', 'day', 'time', 'timestamp', 'period', 'month'];
+const NAME_HEADERS = ['symbol', 'ticker', 'name', 'stock', 'company'];
+// Adjusted closes include dividends and splits, so they are preferred over plain closes
+const PRICE_HEADERS = ['adjclose', 'adjustedclose', 'adjclosingprice', 'close', 'closingprice', 'closeprice', 'price', 'last'];
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Reads a date cell: ISO dates (2024-01-31, 2024/01/31), year-months (2024-01, taken as the
+ * first of the month), US dates (01/31/2024) and written-out dates ("Jan 31, 2024").
+ * @param cell The cell text.
+ * @returns The ISO date, or null when the cell isn't a date.
+ */
+export const parsePriceDate = (cell: string): string | null => {
+  const text = cell.trim();
+  const iso = /^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?:[T ].*)?$/.exec(text);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), iso[3] ? Number(iso[3]) : 1);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  if (us) return toIsoDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  if (!/[a-z]/i.test(text)) return null;
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : toIsoDate(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+};
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Sorts points by date, keeping the last price given for each date
+const toSortedPoints = (points: PricePoint[]): PricePoint[] => {
+  const byDate = new Map<string, number>();
+  points.forEach(point => byDate.set(point.date, point.close));
+  return [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, close]) => ({ date, close }));
+};
+
+/**
+ * Converts CSV rows of closing prices into price series. Three layouts are recognized from
+ * the header: one row per date and stock (date, symbol, close), one column per stock (date,
+ * then a column of closes for each stock), and a single stock's quotes (date, open, high, low,
+ * close, …), which is named after the file. Empty cells are skipped; invalid rows are reported.
+ * @param rows The parsed CSV rows, starting with the header.
+ * @param defaultName The series name for single-stock files.
+ * @returns The series with at least two prices, and any row errors.
+ */
+export const importPriceHistory = (rows: string[][], defaultName: string): PriceHistoryImportResult => {
+  const errors: CsvRowError[] = [];
+  const headers = (rows[0] ?? []).map(normalizeHeader);
+  const findColumn = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = headers.indexOf(alias);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const dateColumn = findColumn(DATE_HEADERS) === -1 ? 0 : findColumn(DATE_HEADERS);
+  const nameColumn = findColumn(NAME_HEADERS);
+  const priceColumn = findColumn(PRICE_HEADERS);
+  const pointsByName = new Map<string, PricePoint[]>();
+  const addPoint = (name: string, point: PricePoint) => {
+    const points = pointsByName.get(name);
+    if (points) {
+      points.push(point);
+    } else {
+      pointsByName.set(name, [point]);
+    }
+  };
+
+  // Which column holds each series' closes
+  let seriesColumns: { name: string | null; column: number }[];
+  if (priceColumn !== -1) {
+    seriesColumns = [{ name: nameColumn === -1 ? defaultName : null, column: priceColumn }];
+  } else {
+    seriesColumns = (rows[0] ?? [])
+      .map((header, column) => ({ name: header.trim() || `Column ${column + 1}`, column }))
+      .filter(({ column }) => column !== dateColumn && column !== nameColumn);
+  }
+  if (rows.length < 2 || seriesColumns.length === 0) {
+    return { series: [], errors: [{ row: 0, message: 'Expected a header row with a date column and at least one price column.' }] };
+  }
+
+  rows.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const date = parsePriceDate(row[dateColumn] ?? '');
+    if (!date) {
+      errors.push({ row: line, message: `"${(row[dateColumn] ?? '').trim()}" is not a date.` });
+      return;
+    }
+    for (const { name, column } of seriesColumns) {
+      const seriesName = name ?? (row[nameColumn] ?? '').trim();
+      const cell = (row[column] ?? '').trim();
+      if (cell === '' || seriesName === '') continue;
+      const close = parseNumberCell(cell);
+      if (isNaN(close) || close <= 0) {
+        errors.push({ row: line, message: `${seriesName}: price "${cell}" is not a positive number.` });
+        continue;
+      }
+      addPoint(seriesName, { date, close });
+    }
+  });
+
+  const series: PriceSeries[] = [];
+  pointsByName.forEach((points, name) => {
+    const sorted = toSortedPoints(points);
+    if (sorted.length < 2) {
+      errors.push({ row: 0, message: `${name}: at least two prices are needed.` });
+    } else {
+      series.push({ name, points: sorted });
+    }
+  });
+  return { series, errors };
+};
+
+/**
+ * Guesses how often a series was sampled from the typical gap between its dates.
+ * @param points The sorted points.
+ * @returns The frequency.
+ */
+export const detectFrequency = (points: PricePoint[]): PriceFrequency => {
+  const gaps = points.slice(1).map((point, i) => daysBetween(points[i].date, point.date)).sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)] ?? 1;
+  if (median <= 4) return 'daily';
+  if (median <= 10) return 'weekly';
+  return 'monthly';
+};
+
+/**
+ * Keeps the points within a look-back window ending at the last point.
+ * @param points The sorted points.
+ * @param years The window length, or null for all points.
+ * @returns The points in the window.
+ */
+export const sliceLookback = (points: PricePoint[], years: number | null): PricePoint[] => {
+  if (years === null || points.length === 0) return points;
+  const end = new Date(`${points[points.length - 1].date}T00:00:00Z`);
+  end.setUTCFullYear(end.getUTCFullYear() - years);
+  const start = end.toISOString().slice(0, 10);
+  return points.filter(point => point.date >= start);
+};
+
+/**
+ * Simple returns between consecutive points.
+ * @param points The sorted points.
+ * @returns One return per pair of points, as fractions.
+ */
+export const toPeriodReturns = (points: PricePoint[]): number[] =>
+  points.slice(1).map((point, i) => point.close / points[i].close - 1);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sampleVariance = (values: number[]) => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+// Exponentially weighted mean and variance, with the newest return weighted most
+const ewmaMoments = (values: number[], decay: number) => {
+  const weights = values.map((_value, i) => Math.pow(decay, values.length - 1 - i));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const average = values.reduce((sum, value, i) => sum + weights[i] * value, 0) / totalWeight;
+  const variance = values.reduce((sum, value, i) => sum + weights[i] * (value - average) ** 2, 0) / totalWeight;
+  return { average, variance };
+};
+
+/**
+ * The largest fall from a running peak.
+ * @param values Prices or portfolio values in date order.
+ * @returns The maximum drawdown as a fraction (0.25 for a 25% fall).
+ */
+export const maxDrawdown = (values: number[]): number => {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    worst = Math.max(worst, peak > 0 ? 1 - value / peak : 0);
+  }
+  return worst;
+};
+
+/**
+ * Estimates a series' annual return and volatility over a look-back window.
+ * Arithmetic annualizes the mean period return; geometric compounds from the first to the last
+ * price; EWMA weights recent returns more (see EWMA_DECAY). Volatility is the annualized
+ * standard deviation of period returns, exponentially weighted for EWMA.
+ * @param series The price series.
+ * @param method The return estimation method.
+ * @param years The look-back window, or null for all data.
+ * @returns The statistics, or null when the window holds fewer than three prices.
+ */
+export const estimatePriceStats = (series: PriceSeries, method: ReturnEstimationMethod, years: number | null): PriceHistoryStats | null => {
+  const points = sliceLookback(series.points, years);
+  if (points.length < 3) return null;
+  const frequency = detectFrequency(points);
+  const periodsPerYear = PERIODS_PER_YEAR[frequency];
+  const returns = toPeriodReturns(points);
+
+  let annualReturn: number;
+  let variance: number;
+  if (method === 'ewma') {
+    const moments = ewmaMoments(returns, EWMA_DECAY[frequency]);
+    annualReturn = moments.average * periodsPerYear;
+    variance = moments.variance;
+  } else {
+    annualReturn = method === 'geometric'
+      ? Math.pow(points[points.length - 1].close / points[0].close, periodsPerYear / returns.length) - 1
+      : mean(returns) * periodsPerYear;
+    variance = sampleVariance(returns);
+  }
+
+  return {
+    frequency,
+    start: points[0].date,
+    end: points[points.length - 1].date,
+    returnCount: returns.length,
+    annualReturn: annualReturn * 100,
+    volatility: Math.sqrt(variance * periodsPerYear) * 100,
+    maxDrawdown: maxDrawdown(points.map(point => point.close)) * 100,
+    lastClose: points[points.length - 1].close,
+  };
+};
+
+/**
+ * Correlation of period returns between two series, over the dates both have prices for.
+ * @param a The first series.
+ * @param b The second series.
+ * @param years The look-back window, or null for all data.
+ * @returns The correlation, or null when fewer than three common returns are available.
+ */
+export const correlatePriceSeries = (a: PriceSeries, b: PriceSeries, years: number | null): number | null => {
+  const closesB = new Map(b.points.map(point => [point.date, point.close]));
+  const common = sliceLookback(a.points.filter(point => closesB.has(point.date)), years);
+  if (common.length < 4) return null;
+  const returnsA = toPeriodReturns(common);
+  const returnsB = toPeriodReturns(common.map(point => ({ date: point.date, close: closesB.get(point.date)! })));
+
+  const meanA = mean(returnsA);
+  const meanB = mean(returnsB);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  returnsA.forEach((returnA, i) => {
+    covariance += (returnA - meanA) * (returnsB[i] - meanB);
+    varianceA += (returnA - meanA) ** 2;
+    varianceB += (returnsB[i] - meanB) ** 2;
+  });
+  if (varianceA === 0 || varianceB === 0) return null;
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceA * varianceB)));
+};
+
+/**
+ * Whether a price series belongs to a stock: their names match, ignoring case.
+ * @param series The imported series.
+ * @param stockName The stock's name.
+ * @returns True when the series is the stock's.
+ */
+export const isSeriesForStock = (series: PriceSeries, stockName: string): boolean =>
+  series.name.trim().toLowerCase() === stockName.trim().toLowerCase();
+
+/**
+ * Finds the imported series for a stock.
+ * @param priceHistory The imported series.
+ * @param stockName The stock's name.
+ * @returns The series, or undefined when none matches.
+ */
+export const findPriceSeries = (priceHistory: PriceSeries[], stockName: string): PriceSeries | undefined =>
+  priceHistory.find(series => isSeriesForStock(series, stockName));
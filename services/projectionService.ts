@@ -0,0 +1,121 @@
+import { InvestmentResult, Stock } from '../types';
+
+export type ContributionFrequency = 'none' | 'monthly' | 'annual';
+
+export interface ProjectionSettings {
+  years: number;
+  contributionAmount: number; // Added every period given by contributionFrequency
+  contributionFrequency: ContributionFrequency;
+  annualWithdrawal: number;   // Taken at the end of each year
+  inflationRate: number;      // Annual, %
+}
+
+export interface ProjectionYear {
+  year: number;
+  contributions: number;            // Contributed during this year
+  withdrawals: number;              // Withdrawn at the end of this year
+  totalContributed: number;         // Initial investment plus all contributions so far
+  nominalValue: number;             // Positions plus uninvested cash at year end
+  realValue: number;                // nominalValue in today's money
+}
+
+export const DEFAULT_PROJECTION_SETTINGS: ProjectionSettings = {
+  years: 10,
+  contributionAmount: 500,
+  contributionFrequency: 'monthly',
+  annualWithdrawal: 0,
+  inflationRate: 2.5,
+};
+
+/**
+ * Compounds each position monthly at its stock's expected return over a number of years.
+ * Contributions are split across stocks by `allocateContribution` (normally the same strategy
+ * that produced the current plan); any part it leaves uninvested, such as the remainder under
+ * whole-share mode, is held as cash and added to the next contribution. Withdrawals are taken
+ * at each year end, from cash first and then proportionally from the positions.
+ * @param results The current allocation, used as the starting positions.
+ * @param stocks The stock universe, for expected returns.
+ * @param initialCash Uninvested budget carried into the projection.
+ * @param settings Horizon, contributions, withdrawals and inflation.
+ * @param allocateContribution Splits a contribution amount into per-stock results.
+ * @returns One row per year, starting with year 0 (today).
+ */
+export const projectGrowth = (
+  results: InvestmentResult[],
+  stocks: Stock[],
+  initialCash: number,
+  settings: ProjectionSettings,
+  allocateContribution: (amount: number) => InvestmentResult[],
+): ProjectionYear[] => {
+  const monthlyGrowth = new Map(stocks.map(stock => [stock.id, Math.pow(1 + stock.expectedReturn / 100, 1 / 12)]));
+  const positions = new Map<string, number>();
+  results.forEach(result => positions.set(result.stockId, result.investedAmount));
+  let cash = Math.max(0, initialCash);
+
+  const initialValue = results.reduce((sum, result) => sum + result.investedAmount, 0) + cash;
+  let totalContributed = initialValue;
+  const rows: ProjectionYear[] = [{
+    year: 0,
+    contributions: 0,
+    withdrawals: 0,
+    totalContributed,
+    nominalValue: initialValue,
+    realValue: initialValue,
+  }];
+
+  // Fractional plans allocate the same amount every period, so most lookups hit this cache
+  const allocationCache = new Map<number, InvestmentResult[]>();
+  const contribute = () => {
+    cash += settings.contributionAmount;
+    const cacheKey = Math.round(cash * 100);
+    if (!allocationCache.has(cacheKey)) {
+      allocationCache.set(cacheKey, allocateContribution(cash));
+    }
+    const allocation = allocationCache.get(cacheKey)!;
+    allocation.forEach(result => {
+      positions.set(result.stockId, (positions.get(result.stockId) ?? 0) + result.investedAmount);
+      cash -= result.investedAmount + (result.fee ?? 0);
+    });
+    cash = Math.max(0, cash);
+  };
+
+  const years = Math.max(0, Math.floor(settings.years));
+  for (let year = 1; year <= years; year++) {
+    let contributions = 0;
+
+    for (let month = 1; month <= 12; month++) {
+      positions.forEach((value, stockId) => positions.set(stockId, value * (monthlyGrowth.get(stockId) ?? 1)));
+
+      const isContributionMonth = settings.contributionFrequency === 'monthly'
+        || (settings.contributionFrequency === 'annual' && month === 12);
+      if (isContributionMonth && settings.contributionAmount > 0) {
+        contribute();
+        contributions += settings.contributionAmount;
+      }
+    }
+
+    // Year-end withdrawal: cash first, then pro rata across positions
+    const positionsValue = Array.from(positions.values()).reduce((sum, value) => sum + value, 0);
+    const withdrawals = Math.min(Math.max(0, settings.annualWithdrawal), positionsValue + cash);
+    const fromCash = Math.min(cash, withdrawals);
+    cash -= fromCash;
+    const fromPositions = withdrawals - fromCash;
+    if (fromPositions > 0 && positionsValue > 0) {
+      const keep = 1 - fromPositions / positionsValue;
+      positions.forEach((value, stockId) => positions.set(stockId, value * keep));
+    }
+
+    totalContributed += contributions;
+    const nominalValue = Array.from(positions.values()).reduce((sum, value) => sum + value, 0) + cash;
+    rows.push({
+      year,
+      contributions,
+      withdrawals,
+      totalContributed,
+      nominalValue,
+      realValue: nominalValue / Math.pow(1 + settings.inflationRate / 100, year),
+    });
+  }
+
+  return rows;
+};
@@ -0,0 +1,106 @@
+import { LlmProvider, LlmError, createAbortError, isAbortError } from './llmProvider';
+import { AI_PROXY_PATH, AiProxyEvent, AiProxyJsonResponse, AiProxyRequest } from './aiProxyProtocol';
+
+/**
+ * Sends a request to the proxy, turning HTTP failures into errors with user-facing messages.
+ * @param endpoint The proxy URL.
+ * @param body The request.
+ * @param signal Optional abort signal.
+ * @returns The successful response.
+ */
+const postToProxy = async (endpoint: string, body: AiProxyRequest, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted || isAbortError(error)) throw createAbortError();
+    console.error('Error reaching the AI proxy:', error);
+    throw new LlmError('network', 'Could not reach the AI service. Please check your connection and try again.', true);
+  }
+  if (!response.ok) {
+    const { error, category, retryable } = await response.json().catch(() => ({})) as AiProxyJsonResponse;
+    throw new LlmError(
+      category ?? (response.status >= 500 ? 'network' : 'unknown'),
+      error ?? `The AI service responded with an error (${response.status}). Please try again later.`,
+      retryable ?? response.status >= 500,
+    );
+  }
+  return response;
+};
+
+/**
+ * Reads newline-delimited JSON events from a streamed response.
+ * @param response The proxy response.
+ * @param signal Optional abort signal.
+ */
+async function* readEvents(response: Response, signal?: AbortSignal): AsyncGenerator<AiProxyEvent> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim() !== '') yield JSON.parse(line) as AiProxyEvent;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    console.error('Error reading the AI proxy stream:', error);
+    throw new LlmError('network', 'The connection to the AI service was interrupted. Please try again.', true);
+  }
+}
+
+/**
+ * The browser-side provider, which calls the local AI proxy instead of Gemini so the API key
+ * stays on the server.
+ * @param endpoint The proxy URL.
+ * @returns A provider that forwards requests to the proxy.
+ */
+export const createProxyLlmProvider = (endpoint: string = AI_PROXY_PATH): LlmProvider => ({
+  id: 'proxy',
+
+  generateText: async (request, options = {}) => {
+    const { onChunk, signal, onFunctionCall, onUsage } = options;
+    const body: AiProxyRequest = typeof request.contents === 'string'
+      ? { kind: 'text', request: { ...request, contents: request.contents } }
+      : { kind: 'chat', request };
+    const response = await postToProxy(endpoint, body, signal);
+
+    for await (const event of readEvents(response, signal)) {
+      switch (event.type) {
+        case 'chunk':
+          onChunk?.(event.text);
+          break;
+        case 'functionCall':
+          onFunctionCall?.(event.call);
+          break;
+        case 'error':
+          throw new LlmError(event.category, event.message, event.retryable);
+        case 'done':
+          if (event.usage) onUsage?.(event.usage);
+          return event.text;
+      }
+    }
+    if (signal?.aborted) throw createAbortError();
+    throw new LlmError('network', 'The AI service ended the response early. Please try again.', true);
+  },
+
+  generateJson: async (request, responseSchema, callOptions = {}) => {
+    if (typeof request.contents !== 'string') {
+      throw new Error('JSON requests must use a single text prompt.');
+    }
+    const response = await postToProxy(endpoint, { kind: 'json', request: { ...request, contents: request.contents }, responseSchema }, callOptions.signal);
+    const { text, usage } = await response.json() as AiProxyJsonResponse;
+    if (usage) callOptions.onUsage?.(usage);
+    return text ?? '';
+  },
+});
@@ -0,0 +1,202 @@
+import { BrokerProfile, InvestmentResult, Stock } from '../types';
+import { calculateOrderFee, roundToShareIncrement } from './brokerProfiles';
+
+export interface RebalanceSettings {
+  newCash: number;   // Cash added to the portfolio alongside the current holdings ($)
+  tolerance: number; // Drift band in percentage points of portfolio weight; positions inside it are left alone
+  buyOnly: boolean;  // Never sell; only invest the new cash
+}
+
+export interface RebalanceTrade {
+  stockId: string;
+  stockName: string;
+  action: 'buy' | 'sell';
+  shares: number;
+  amount: number;
+  fee: number;
+}
+
+export interface RebalancePosition {
+  stockId: string;
+  stockName: string;
+  beforeShares: number;
+  beforeValue: number;
+  beforeWeight: number; // % of the portfolio including cash
+  targetWeight: number; // %
+  afterShares: number;
+  afterValue: number;
+  afterWeight: number;  // %
+  withinTolerance: boolean;
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  positions: RebalancePosition[];
+  cashBefore: number;
+  cashAfter: number;
+  totalFees: number;
+  warning: string | null;
+}
+
+export const DEFAULT_REBALANCE_SETTINGS: RebalanceSettings = {
+  newCash: 0,
+  tolerance: 5,
+  buyOnly: false,
+};
+
+// Bisection steps used to scale buy orders down until they fit the available cash
+const SCALE_ITERATIONS = 40;
+
+/**
+ * Whether any stock has current holdings to rebalance.
+ * @param stocks The stock universe.
+ * @returns True when at least one stock has a positive number of shares held.
+ */
+export const hasHoldings = (stocks: Stock[]): boolean => stocks.some(stock => (stock.currentShares ?? 0) > 0);
+
+/**
+ * Computes the trades that move current holdings towards the weights of a target allocation.
+ * The target weights come from the invested amounts in `targetResults` and are applied to the
+ * whole portfolio: holdings plus new cash. In the default mode, positions whose weight has drifted
+ * beyond the tolerance band are sold down or bought up to their target, and the buys are scaled
+ * down when sale proceeds and new cash do not cover them. In buy-only mode nothing is sold and the
+ * tolerance band is ignored: new cash is split across underweight positions in proportion to their
+ * shortfall, and any cash left once every shortfall is covered follows the target weights.
+ * Quantities are rounded down to whole shares or the broker's share increment, orders below the
+ * broker's minimum are dropped, and commissions are charged on every order.
+ * @param stocks The stock universe, including `currentShares`.
+ * @param targetResults The target allocation.
+ * @param settings New cash, tolerance band and buy-only option.
+ * @param broker The broker whose fees and order rules apply.
+ * @param wholeShares Whether trades must be in whole shares.
+ * @returns The trade list and a before/after view of every position.
+ */
+export const planRebalance = (
+  stocks: Stock[],
+  targetResults: InvestmentResult[],
+  settings: RebalanceSettings,
+  broker: BrokerProfile,
+  wholeShares: boolean,
+): RebalancePlan => {
+  const newCash = Math.max(0, settings.newCash);
+  const targetTotal = targetResults.reduce((sum, result) => sum + result.investedAmount, 0);
+  const holdingsValue = stocks.reduce((sum, stock) => sum + (stock.currentShares ?? 0) * stock.price, 0);
+  const portfolioValue = holdingsValue + newCash;
+  const roundShares = (shares: number) => wholeShares ? Math.floor(shares + 1e-9) : roundToShareIncrement(broker, shares);
+
+  const rows = stocks.map(stock => {
+    const heldShares = stock.currentShares ?? 0;
+    const currentValue = heldShares * stock.price;
+    const targetResult = targetResults.find(result => result.stockId === stock.id);
+    const targetWeight = targetTotal > 0 ? (targetResult?.investedAmount ?? 0) / targetTotal : 0;
+    const targetValue = targetWeight * portfolioValue;
+    const drift = portfolioValue > 0 ? (currentValue - targetValue) / portfolioValue * 100 : 0;
+    return { stock, heldShares, currentValue, targetWeight, targetValue, withinTolerance: Math.abs(drift) <= settings.tolerance };
+  });
+
+  let warning: string | null = null;
+  if (targetTotal <= 0) {
+    warning = 'There is no target allocation yet. Calculate an allocation to rebalance towards.';
+  } else if (settings.buyOnly && newCash <= 0) {
+    warning = 'Buy-only rebalancing needs new cash to invest.';
+  }
+
+  const sells = new Map<string, number>();
+  let desiredBuys = new Map<string, number>();
+
+  if (targetTotal > 0 && settings.buyOnly) {
+    const shortfalls = rows.map(row => Math.max(0, row.targetValue - row.currentValue));
+    const totalShortfall = shortfalls.reduce((sum, shortfall) => sum + shortfall, 0);
+    const surplus = Math.max(0, newCash - totalShortfall);
+    desiredBuys = new Map(rows.map((row, i) => [row.stock.id, shortfalls[i] + surplus * row.targetWeight]));
+  } else if (targetTotal > 0) {
+    rows.forEach(row => {
+      if (row.withinTolerance) return;
+      const delta = row.targetValue - row.currentValue;
+      if (delta > 0) {
+        desiredBuys.set(row.stock.id, delta);
+      } else {
+        const shares = Math.min(row.heldShares, roundShares(-delta / row.stock.price));
+        if (shares * row.stock.price >= broker.minOrderAmount && shares > 0) {
+          sells.set(row.stock.id, shares);
+        }
+      }
+    });
+  }
+
+  const saleProceeds = rows.reduce((sum, row) => {
+    const amount = (sells.get(row.stock.id) ?? 0) * row.stock.price;
+    return sum + amount - calculateOrderFee(broker, amount);
+  }, 0);
+  const availableCash = newCash + saleProceeds;
+
+  const buysAtScale = (scale: number) => {
+    const buys = new Map<string, number>();
+    let cost = 0;
+    rows.forEach(row => {
+      const shares = roundShares(scale * (desiredBuys.get(row.stock.id) ?? 0) / row.stock.price);
+      const amount = shares * row.stock.price;
+      if (shares > 0 && amount >= broker.minOrderAmount) {
+        buys.set(row.stock.id, shares);
+        cost += amount + calculateOrderFee(broker, amount);
+      }
+    });
+    return { buys, cost };
+  };
+
+  let { buys, cost } = buysAtScale(1);
+  if (cost > availableCash + 1e-9) {
+    let low = 0;
+    let high = 1;
+    ({ buys, cost } = buysAtScale(0));
+    for (let i = 0; i < SCALE_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const attempt = buysAtScale(mid);
+      if (attempt.cost <= availableCash + 1e-9) {
+        low = mid;
+        ({ buys, cost } = attempt);
+      } else {
+        high = mid;
+      }
+    }
+  }
+
+  const trades: RebalanceTrade[] = [];
+  rows.forEach(row => {
+    const soldShares = sells.get(row.stock.id) ?? 0;
+    const boughtShares = buys.get(row.stock.id) ?? 0;
+    if (soldShares > 0) {
+      const amount = soldShares * row.stock.price;
+      trades.push({ stockId: row.stock.id, stockName: row.stock.name, action: 'sell', shares: soldShares, amount, fee: calculateOrderFee(broker, amount) });
+    }
+    if (boughtShares > 0) {
+      const amount = boughtShares * row.stock.price;
+      trades.push({ stockId: row.stock.id, stockName: row.stock.name, action: 'buy', shares: boughtShares, amount, fee: calculateOrderFee(broker, amount) });
+    }
+  });
+
+  const totalFees = trades.reduce((sum, trade) => sum + trade.fee, 0);
+  const cashAfter = Math.max(0, availableCash - cost);
+  const afterShares = new Map(rows.map(row =>
+    [row.stock.id, row.heldShares - (sells.get(row.stock.id) ?? 0) + (buys.get(row.stock.id) ?? 0)]));
+  const afterTotal = rows.reduce((sum, row) => sum + afterShares.get(row.stock.id)! * row.stock.price, 0) + cashAfter;
+
+  const positions: RebalancePosition[] = rows.map(row => {
+    const shares = afterShares.get(row.stock.id)!;
+    const afterValue = shares * row.stock.price;
+    return {
+      stockId: row.stock.id,
+      stockName: row.stock.name,
+      beforeShares: row.heldShares,
+      beforeValue: row.currentValue,
+      beforeWeight: portfolioValue > 0 ? row.currentValue / portfolioValue * 100 : 0,
+      targetWeight: row.targetWeight * 100,
+      afterShares: shares,
+      afterValue,
+      afterWeight: afterTotal > 0 ? afterValue / afterTotal * 100 : 0,
+      withinTolerance: row.withinTolerance,
+    };
+  });
+
+  return { trades, positions, cashBefore: newCash, cashAfter, totalFees, warning };
+};
@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PortfolioSnapshot, Stock } from '../types';
+import { normalizePortfolioSnapshot } from './portfolioStorage';
+import { CUSTOM_BROKER_PROFILE_ID } from './brokerProfiles';
+import { DEFAULT_BASE_CURRENCY } from './currency';
+import { DEFAULT_ROUNDING_POLICY } from './money';
+
+// Bump whenever the payload layout changes, and teach decodeShareToken to read the previous layout
+export const SHARE_LINK_VERSION = 1;
+
+const HASH_PARAM = 'share';
+
+// Optional stock fields in the order they are packed after name, price and expected return
+const PACKED_STOCK_FIELDS = ['volatility', 'targetWeight', 'minWeight', 'maxWeight', 'maxAmount', 'lockedAmount', 'currentShares', 'currency'] as const;
+
+type PackedStock = (string | number | null)[];
+type PackedResult = number[]; // [stock index, fraction, invested amount, actual return, fee?]
+
+// Short keys keep the link compact; see encodeShareLink for what each holds
+interface SharePayload {
+  b: number;
+  s: string;
+  m: string;
+  k: PackedStock[];
+  r: PackedResult[];
+  p?: [string, string];
+  o?: string;
+  c?: [string, number, number, number, number];
+  v?: [string, number, number];
+  x?: [number, number, number][];
+  f?: [string, string, Record<string, number>, string?];
+  d?: [string, string];
+}
+
+const isCompressionSupported = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large payloads don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Packs the shareable parts of a snapshot. Stock ids are replaced by list positions and
+ * AI responses are left out.
+ * @param snapshot The working state.
+ * @returns The compact payload.
+ */
+const packSnapshot = (snapshot: PortfolioSnapshot): SharePayload => {
+  const indexById = new Map(snapshot.stocks.map((stock, index) => [stock.id, index]));
+  const payload: SharePayload = {
+    b: snapshot.budget,
+    s: snapshot.strategyId,
+    m: snapshot.shareMode,
+    k: snapshot.stocks.map(stock => {
+      const packed: PackedStock = [stock.name, stock.price, stock.expectedReturn, ...PACKED_STOCK_FIELDS.map(field => stock[field] ?? null)];
+      while (packed.length > 3 && packed[packed.length - 1] === null) packed.pop();
+      return packed;
+    }),
+    r: snapshot.investmentResults
+      .filter(result => indexById.has(result.stockId))
+      .map(result => {
+        const packed = [indexById.get(result.stockId)!, result.fraction, result.investedAmount, result.actualReturn];
+        return result.fee ? [...packed, result.fee] : packed;
+      }),
+  };
+  if (snapshot.planMode) payload.p = [snapshot.planMode.strategyId, snapshot.planMode.shareMode];
+  if (snapshot.brokerProfileId !== 'none') payload.o = snapshot.brokerProfileId;
+  if (snapshot.brokerProfileId === CUSTOM_BROKER_PROFILE_ID) {
+    const profile = snapshot.customBrokerProfile;
+    payload.c = [profile.name, profile.commissionPerOrder, profile.commissionPercent, profile.minOrderAmount, profile.shareIncrement];
+  }
+  if (snapshot.strategyId === 'mean-variance') {
+    payload.v = [snapshot.meanVariance.objective, snapshot.meanVariance.targetReturn, snapshot.meanVariance.riskFreeRate];
+  }
+  const correlations: [number, number, number][] = [];
+  Object.entries(snapshot.correlations).forEach(([idA, row]) => Object.entries(row).forEach(([idB, value]) => {
+    if (indexById.has(idA) && indexById.has(idB)) correlations.push([indexById.get(idA)!, indexById.get(idB)!, value]);
+  }));
+  if (correlations.length > 0) payload.x = correlations;
+  if (snapshot.baseCurrency !== DEFAULT_BASE_CURRENCY || Object.keys(snapshot.fxRates.rates).length > 0) {
+    const { base, rates, asOf } = snapshot.fxRates;
+    payload.f = asOf ? [snapshot.baseCurrency, base, rates, asOf] : [snapshot.baseCurrency, base, rates];
+  }
+  if (snapshot.rounding.shares !== DEFAULT_ROUNDING_POLICY.shares || snapshot.rounding.cash !== DEFAULT_ROUNDING_POLICY.cash) {
+    payload.d = [snapshot.rounding.shares, snapshot.rounding.cash];
+  }
+  return payload;
+};
+
+/**
+ * Unpacks a payload into a snapshot, giving every stock a fresh id. Malformed entries are
+ * dropped by the same normalization used for saved portfolios.
+ * @param payload The decoded payload.
+ * @returns The snapshot.
+ */
+const unpackSnapshot = (payload: SharePayload): PortfolioSnapshot => {
+  if (!Array.isArray(payload.k) || !Array.isArray(payload.r)) {
+    throw new Error('This share link is incomplete.');
+  }
+  const ids = payload.k.map(() => uuidv4());
+  const stocks = payload.k.map((packed, index) => {
+    if (!Array.isArray(packed)) return null;
+    const stock: Record<string, unknown> = { id: ids[index], name: packed[0], price: packed[1], expectedReturn: packed[2] };
+    PACKED_STOCK_FIELDS.forEach((field, i) => {
+      if (packed[3 + i] !== null && packed[3 + i] !== undefined) stock[field] = packed[3 + i];
+    });
+    return stock;
+  });
+  const nameOf = (index: number) => (stocks[index] as Partial<Stock> | null)?.name;
+  const correlations: Record<string, Record<string, number>> = {};
+  (Array.isArray(payload.x) ? payload.x : []).forEach(entry => {
+    if (!Array.isArray(entry)) return;
+    const [a, b, value] = entry;
+    if (Number.isInteger(a) && Number.isInteger(b) && ids[a] && ids[b] && typeof value === 'number' && value >= -1 && value <= 1) {
+      correlations[ids[a]] = { ...correlations[ids[a]], [ids[b]]: value };
+    }
+  });
+
+  return normalizePortfolioSnapshot({
+    budget: payload.b,
+    stocks,
+    investmentResults: payload.r.map(packed => Array.isArray(packed) ? {
+      stockId: ids[packed[0]],
+      stockName: nameOf(packed[0]),
+      fraction: packed[1],
+      investedAmount: packed[2],
+      actualReturn: packed[3],
+      fee: packed[4],
+    } : null),
+    strategyId: payload.s,
+    shareMode: payload.m,
+    planMode: Array.isArray(payload.p) ? { strategyId: payload.p[0], shareMode: payload.p[1] } : null,
+    rounding: Array.isArray(payload.d) ? { shares: payload.d[0], cash: payload.d[1] } : undefined,
+    brokerProfileId: payload.o,
+    customBrokerProfile: Array.isArray(payload.c) ? {
+      id: CUSTOM_BROKER_PROFILE_ID,
+      name: payload.c[0],
+      commissionPerOrder: payload.c[1],
+      commissionPercent: payload.c[2],
+      minOrderAmount: payload.c[3],
+      shareIncrement: payload.c[4],
+    } : undefined,
+    meanVariance: Array.isArray(payload.v) ? { objective: payload.v[0], targetReturn: payload.v[1], riskFreeRate: payload.v[2] } : undefined,
+    correlations,
+    baseCurrency: Array.isArray(payload.f) ? payload.f[0] : undefined,
+    fxRates: Array.isArray(payload.f) ? { base: payload.f[1], rates: payload.f[2], asOf: payload.f[3] } : undefined,
+  });
+};
+
+/**
+ * Encodes the shareable scenario (budget, stocks, strategy, manual adjustments and plan
+ * settings) as a URL-safe token: "<version>.<format><base64url data>", where format "z"
+ * marks deflate-compressed JSON and "j" plain JSON for browsers without CompressionStream.
+ * @param snapshot The working state.
+ * @returns The token.
+ */
+export const encodeShareToken = async (snapshot: PortfolioSnapshot): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(packSnapshot(snapshot)));
+  if (isCompressionSupported()) {
+    return `${SHARE_LINK_VERSION}.z${toBase64Url(await transformBytes(bytes, new CompressionStream('deflate-raw')))}`;
+  }
+  return `${SHARE_LINK_VERSION}.j${toBase64Url(bytes)}`;
+};
+
+/**
+ * Decodes a share token back into a snapshot.
+ * @param token The token from a share link.
+ * @returns The snapshot.
+ * @throws An error with a user-facing message when the link is corrupted, truncated,
+ * from an unsupported version, or can't be decompressed in this browser.
+ */
+export const decodeShareToken = async (token: string): Promise<PortfolioSnapshot> => {
+  const match = /^(\d+)\.([zj])([A-Za-z0-9_-]+)$/.exec(token);
+  if (!match) {
+    throw new Error('This share link is corrupted. Please ask for a new link.');
+  }
+  const version = parseInt(match[1], 10);
+  if (version > SHARE_LINK_VERSION) {
+    throw new Error('This share link was created by a newer version of this app. Please update the app to open it.');
+  }
+  if (version < SHARE_LINK_VERSION) {
+    throw new Error('This share link uses an outdated format that is no longer supported. Please ask for a new link.');
+  }
+  if (match[2] === 'z' && !isCompressionSupported()) {
+    throw new Error('This browser cannot open compressed share links. Please try a current browser.');
+  }
+
+  let payload: unknown;
+  try {
+    const bytes = fromBase64Url(match[3]);
+    const json = new TextDecoder().decode(match[2] === 'z' ? await transformBytes(bytes, new DecompressionStream('deflate-raw')) : bytes);
+    payload = JSON.parse(json);
+  } catch (error) {
+    console.error('Error decoding share link:', error);
+    throw new Error('This share link is corrupted or was cut off. Please ask for a new link.');
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('This share link is corrupted. Please ask for a new link.');
+  }
+  return unpackSnapshot(payload as SharePayload);
+};
+
+/**
+ * Builds a full share URL for the current page.
+ * @param snapshot The working state.
+ * @returns The URL with the scenario in its hash.
+ */
+export const createShareUrl = async (snapshot: PortfolioSnapshot): Promise<string> => {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${HASH_PARAM}=${await encodeShareToken(snapshot)}`;
+};
+
+/**
+ * Reads the share token from a URL hash.
+ * @param hash The location hash, e.g. "#share=1.z...".
+ * @returns The token, or null when the hash holds no share link.
+ */
+export const getShareTokenFromHash = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
@@ -0,0 +1,227 @@
+import { InvestmentResult, CorrelationMatrix } from '../types';
+import { getCorrelation } from './meanVarianceOptimizer';
+
+export interface ReturnAssumption {
+  stockId: string;
+  expectedReturn: number; // Annual arithmetic expected return, %
+  volatility: number;     // Annual volatility, %
+}
+
+export interface SimulationSettings {
+  paths: number;
+  horizonYears: number;
+  stepsPerYear: number;
+  seed: number;
+}
+
+export interface PercentileBand {
+  year: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationSummary {
+  initialValue: number;
+  bands: PercentileBand[];
+  histogram: HistogramBin[];
+  probabilityOfLoss: number; // Share of paths ending below the initial value, 0..1
+  meanFinalValue: number;
+  medianFinalValue: number;
+  warning: string | null;
+}
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  paths: 2000,
+  horizonYears: 5,
+  stepsPerYear: 12,
+  seed: 42,
+};
+
+export const MAX_SIMULATION_PATHS = 20000;
+const HISTOGRAM_BINS = 30;
+
+/**
+ * Creates a seedable pseudo-random number generator (mulberry32), so a given seed always
+ * reproduces the same simulation.
+ * @param seed Any integer seed.
+ * @returns A function returning uniform numbers in [0, 1).
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Creates a standard normal sampler from a uniform generator using the Box-Muller transform.
+ * @param random Uniform generator in [0, 1).
+ * @returns A function returning N(0, 1) samples.
+ */
+export const createNormalSampler = (random: () => number): (() => number) => {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = 1 - random(); // (0, 1], keeps log() finite
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+};
+
+/**
+ * Lower-triangular Cholesky factor of a correlation matrix. Matrices that are not positive
+ * definite (inconsistent user-entered correlations) are repaired by flooring pivots at zero.
+ * @param matrix A symmetric correlation matrix.
+ * @returns The factor L (with L·Lᵀ ≈ matrix) and whether a repair was needed.
+ */
+export const choleskyDecompose = (matrix: number[][]): { factor: number[][]; repaired: boolean } => {
+  const n = matrix.length;
+  const factor = matrix.map(() => new Array(n).fill(0));
+  let repaired = false;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= factor[i][k] * factor[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) {
+          repaired = true;
+          sum = 0;
+        }
+        factor[i][i] = Math.sqrt(sum);
+      } else {
+        factor[i][j] = factor[j][j] === 0 ? 0 : sum / factor[j][j];
+      }
+    }
+  }
+  return { factor, repaired };
+};
+
+/**
+ * Value at a given percentile of an ascending-sorted array, with linear interpolation.
+ */
+const percentile = (sorted: Float64Array, p: number): number => {
+  const index = (sorted.length - 1) * p;
+  const low = Math.floor(index);
+  const high = Math.ceil(index);
+  return sorted[low] + (sorted[high] - sorted[low]) * (index - low);
+};
+
+/**
+ * Simulates the future value of the invested positions with correlated geometric Brownian motion.
+ * Each stock's drift is set so its expected annual growth equals its expected return.
+ * Uninvested cash is left out of the simulation.
+ * @param results The current allocation.
+ * @param assumptions Return and volatility per stock.
+ * @param correlations Pairwise correlations keyed by stock id.
+ * @param settings Number of paths, horizon, time steps and RNG seed.
+ * @returns Percentile bands per year, the final-value histogram and loss probability.
+ */
+export const runMonteCarloSimulation = (
+  results: InvestmentResult[],
+  assumptions: ReturnAssumption[],
+  correlations: CorrelationMatrix,
+  settings: SimulationSettings,
+): SimulationSummary => {
+  const positions = results.filter(result => result.investedAmount > 0);
+  const initialValue = positions.reduce((sum, result) => sum + result.investedAmount, 0);
+  const paths = Math.max(1, Math.min(MAX_SIMULATION_PATHS, Math.floor(settings.paths)));
+  const stepsPerYear = Math.max(1, Math.floor(settings.stepsPerYear));
+  const totalSteps = Math.max(1, Math.round(settings.horizonYears * stepsPerYear));
+  const dt = 1 / stepsPerYear;
+
+  const params = positions.map(position => {
+    const assumption = assumptions.find(a => a.stockId === position.stockId);
+    const mu = (assumption?.expectedReturn ?? 0) / 100;
+    const sigma = (assumption?.volatility ?? 0) / 100;
+    return {
+      drift: (Math.log(1 + mu) - sigma * sigma / 2) * dt,
+      diffusion: sigma * Math.sqrt(dt),
+    };
+  });
+  const { factor, repaired } = choleskyDecompose(
+    positions.map(a => positions.map(b => getCorrelation(correlations, a.stockId, b.stockId)))
+  );
+
+  const normal = createNormalSampler(createSeededRandom(settings.seed));
+  // Portfolio value per path at the end of each simulated year (index 0 is today)
+  const years = Math.ceil(totalSteps / stepsPerYear);
+  const yearlyValues = Array.from({ length: years + 1 }, () => new Float64Array(paths));
+  const n = positions.length;
+  const values = new Float64Array(n);
+  const shocks = new Float64Array(n);
+
+  for (let path = 0; path < paths; path++) {
+    for (let i = 0; i < n; i++) values[i] = positions[i].investedAmount;
+    yearlyValues[0][path] = initialValue;
+
+    for (let step = 1; step <= totalSteps; step++) {
+      for (let i = 0; i < n; i++) shocks[i] = normal();
+      for (let i = 0; i < n; i++) {
+        let correlated = 0;
+        for (let k = 0; k <= i; k++) correlated += factor[i][k] * shocks[k];
+        values[i] *= Math.exp(params[i].drift + params[i].diffusion * correlated);
+      }
+      if (step % stepsPerYear === 0 || step === totalSteps) {
+        let total = 0;
+        for (let i = 0; i < n; i++) total += values[i];
+        yearlyValues[Math.ceil(step / stepsPerYear)][path] = total;
+      }
+    }
+  }
+
+  const bands = yearlyValues.map((column, index) => {
+    const sorted = column.slice().sort();
+    return {
+      year: Math.min(index, settings.horizonYears),
+      p5: percentile(sorted, 0.05),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p95: percentile(sorted, 0.95),
+    };
+  });
+
+  const finalValues = yearlyValues[years].slice().sort();
+  const minValue = finalValues[0];
+  const maxValue = finalValues[finalValues.length - 1];
+  const binWidth = (maxValue - minValue) / HISTOGRAM_BINS || 1;
+  const histogram: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_bin, i) => ({
+    from: minValue + i * binWidth,
+    to: minValue + (i + 1) * binWidth,
+    count: 0,
+  }));
+  finalValues.forEach(value => {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - minValue) / binWidth))].count++;
+  });
+
+  return {
+    initialValue,
+    bands,
+    histogram,
+    probabilityOfLoss: finalValues.filter(value => value < initialValue).length / paths,
+    meanFinalValue: finalValues.reduce((sum, value) => sum + value, 0) / paths,
+    medianFinalValue: percentile(finalValues, 0.5),
+    warning: repaired
+      ? 'The correlation matrix is not internally consistent, so the closest valid approximation was used.'
+      : null,
+  };
+};
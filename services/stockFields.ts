@@ -0,0 +1,52 @@
+import { Stock } from '../types';
+
+// Optional numeric stock fields that are entered as free text and may be left empty
+export type OptionalStockField = 'targetWeight' | 'volatility' | 'minWeight' | 'maxWeight' | 'maxAmount' | 'currentShares';
+
+export const EMPTY_OPTIONAL_FIELDS: Record<OptionalStockField, string> = {
+  targetWeight: '',
+  volatility: '',
+  minWeight: '',
+  maxWeight: '',
+  maxAmount: '',
+  currentShares: '',
+};
+
+/**
+ * Parses raw form input for the optional per-stock fields (weights, volatility, limits and holdings).
+ * Empty inputs are treated as "not set".
+ * @param raw The raw input strings keyed by field.
+ * @returns The parsed values, or an error message describing the first invalid field.
+ */
+export const parseOptionalStockFields = (
+  raw: Record<OptionalStockField, string>,
+): { values: Pick<Stock, OptionalStockField>; error: string | null } => {
+  const parse = (value: string) => value.trim() === '' ? undefined : parseFloat(value);
+  const values = {
+    targetWeight: parse(raw.targetWeight),
+    volatility: parse(raw.volatility),
+    minWeight: parse(raw.minWeight),
+    maxWeight: parse(raw.maxWeight),
+    maxAmount: parse(raw.maxAmount),
+    currentShares: parse(raw.currentShares),
+  };
+  const isValidPercent = (w: number | undefined) => w === undefined || (!isNaN(w) && w >= 0 && w <= 100);
+  const isNonNegative = (n: number | undefined) => n === undefined || (!isNaN(n) && n >= 0);
+
+  if (!isValidPercent(values.targetWeight)) {
+    return { values, error: 'Target weight must be a percentage between 0 and 100, or left empty.' };
+  }
+  if (!isNonNegative(values.volatility)) {
+    return { values, error: 'Volatility must be a non-negative percentage, or left empty.' };
+  }
+  if (!isValidPercent(values.minWeight) || !isValidPercent(values.maxWeight)) {
+    return { values, error: 'Minimum and maximum weights must be percentages between 0 and 100, or left empty.' };
+  }
+  if (!isNonNegative(values.maxAmount)) {
+    return { values, error: 'Maximum amount must be a non-negative number, or left empty.' };
+  }
+  if (!isNonNegative(values.currentShares)) {
+    return { values, error: 'Shares held must be a non-negative number, or left empty.' };
+  }
+  return { values, error: null };
+};
@@ -0,0 +1,86 @@
+import { Schema, Type } from '@google/genai';
+import { StockCandidate } from '../types';
+
+export const STOCK_IDEA_COUNT = 5;
+
+/**
+ * Builds the response schema sent to Gemini so ideas come back as JSON rather than free text.
+ * @param currency The currency the prices should be in, which the ideas are added in.
+ * @returns The schema.
+ */
+export const buildStockIdeasSchema = (currency: string): Schema => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING, description: 'Fictional company or ticker name' },
+      price: { type: Type.NUMBER, description: `Share price in ${currency}` },
+      expectedReturn: { type: Type.NUMBER, description: 'Expected annual return in percent' },
+      volatility: { type: Type.NUMBER, description: 'Annualized volatility in percent' },
+      rationale: { type: Type.STRING, description: 'One sentence on why the stock fits the theme' },
+    },
+    required: ['name', 'price', 'expectedReturn', 'rationale'],
+    propertyOrdering: ['name', 'price', 'expectedReturn', 'volatility', 'rationale'],
+  },
+});
+
+export interface StockIdeasResult {
+  candidates: StockCandidate[];
+  issues: string[]; // One message per idea that failed validation
+}
+
+/**
+ * Validates a single idea from the model.
+ * @param raw The parsed idea.
+ * @returns The candidate, or a message explaining why the idea was rejected.
+ */
+const validateIdea = (raw: unknown): StockCandidate | string => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return 'not an object.';
+  const idea = raw as Record<string, unknown>;
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (typeof idea.name !== 'string' || idea.name.trim() === '') return 'missing a name.';
+  const name = idea.name.trim();
+  if (!isNumber(idea.price) || idea.price <= 0) return `${name}: price must be a positive number.`;
+  if (!isNumber(idea.expectedReturn) || idea.expectedReturn < 0) return `${name}: expected return must be a non-negative number.`;
+  if (idea.volatility !== undefined && (!isNumber(idea.volatility) || idea.volatility < 0)) return `${name}: volatility must be a non-negative number when given.`;
+
+  return {
+    name,
+    price: idea.price,
+    expectedReturn: idea.expectedReturn,
+    ...(idea.volatility !== undefined ? { volatility: idea.volatility as number } : {}),
+    rationale: typeof idea.rationale === 'string' ? idea.rationale.trim() : '',
+  };
+};
+
+/**
+ * Parses and validates the model's JSON ideas into stock candidates. Invalid ideas are
+ * reported individually and left out.
+ * @param json The raw JSON text from the model.
+ * @returns The valid candidates and a message for each rejected idea.
+ * @throws An error when the text is not a JSON array at all.
+ */
+export const parseStockIdeas = (json: string): StockIdeasResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Gemini returned stock ideas that are not valid JSON. Please try again.');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Gemini returned stock ideas in an unexpected shape (expected a list). Please try again.');
+  }
+
+  const candidates: StockCandidate[] = [];
+  const issues: string[] = [];
+  parsed.forEach((raw, index) => {
+    const result = validateIdea(raw);
+    if (typeof result === 'string') {
+      issues.push(`Idea ${index + 1}: ${result}`);
+    } else {
+      candidates.push(result);
+    }
+  });
+  return { candidates, issues };
+};
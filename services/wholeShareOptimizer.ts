@@ -0,0 +1,82 @@
+export interface WholeShareItem {
+  price: number;          // Price per share in dollars
+  valuePerShare: number;  // Objective value gained per share (e.g. expected dollar return)
+  maxShares?: number;     // Upper bound on shares; omit for an unbounded item
+}
+
+export interface WholeShareSolution {
+  shares: number[];
+  totalCost: number;
+  totalValue: number;
+}
+
+// Upper bound on DP table width. Budgets with more cents than this are solved on a coarser grid,
+// with prices rounded up to the grid so the solution can never exceed the budget.
+const MAX_DP_STEPS = 200_000;
+
+/**
+ * Solves the bounded/unbounded integer knapsack over whole shares with dynamic programming
+ * over cents: picks a non-negative whole number of shares per item maximizing total value
+ * without the total cost exceeding the budget.
+ * Each item is folded in with a sliding-window maximum per residue class, so bounded items
+ * cost the same O(capacity) as unbounded ones.
+ * @param budget The available cash in dollars.
+ * @param items The purchasable items.
+ * @returns Share counts per item (same order as `items`) with their total cost and value.
+ */
+export const solveWholeShareKnapsack = (budget: number, items: WholeShareItem[]): WholeShareSolution => {
+  const budgetCents = Math.floor(budget * 100 + 1e-6);
+  const shares = items.map(() => 0);
+  if (budgetCents <= 0 || items.length === 0) {
+    return { shares, totalCost: 0, totalValue: 0 };
+  }
+
+  const unit = Math.max(1, Math.ceil(budgetCents / MAX_DP_STEPS));
+  const capacity = Math.floor(budgetCents / unit);
+  const weights = items.map(item => Math.max(1, Math.ceil(Math.ceil(item.price * 100 - 1e-9) / unit)));
+
+  let prev = new Float64Array(capacity + 1);
+  let next = new Float64Array(capacity + 1);
+  const takes: Int32Array[] = [];
+  const dequeIndex = new Int32Array(capacity + 1);
+  const dequeValue = new Float64Array(capacity + 1);
+
+  items.forEach((item, i) => {
+    const w = weights[i];
+    const v = item.valuePerShare;
+    const limit = item.maxShares === undefined ? Infinity : Math.max(0, Math.floor(item.maxShares + 1e-9));
+    const take = new Int32Array(capacity + 1);
+
+    for (let r = 0; r < w && r <= capacity; r++) {
+      let head = 0;
+      let tail = 0;
+      for (let j = 0, c = r; c <= capacity; j++, c += w) {
+        // Candidate "take j - j' shares" keyed by j': prev[r + j'w] - j'v, plus j*v once chosen
+        const candidate = prev[c] - j * v;
+        while (tail > head && dequeValue[tail - 1] <= candidate) tail--;
+        dequeIndex[tail] = j;
+        dequeValue[tail] = candidate;
+        tail++;
+        while (j - dequeIndex[head] > limit) head++;
+        next[c] = dequeValue[head] + j * v;
+        take[c] = j - dequeIndex[head];
+      }
+    }
+
+    takes.push(take);
+    [prev, next] = [next, prev];
+  });
+
+  // Walk the choices back from full capacity
+  let c = capacity;
+  for (let i = items.length - 1; i >= 0; i--) {
+    shares[i] = takes[i][c];
+    c -= shares[i] * weights[i];
+  }
+
+  return {
+    shares,
+    totalCost: shares.reduce((sum, count, i) => sum + count * items[i].price, 0),
+    totalValue: shares.reduce((sum, count, i) => sum + count * items[i].valuePerShare, 0),
+  };
+};
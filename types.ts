@@ -1,8 +1,29 @@
 export interface Stock {
   id: string;
   name: string;
-  price: number;
+  price: number;         // Per share, in the stock's currency
   expectedReturn: number;
+  currency?: string;     // ISO 4217 code the price is quoted in; omitted means the budget's base currency
+  targetWeight?: number; // Optional target portfolio weight (%) used by the custom-weight strategy
+  volatility?: number;   // Optional annualized volatility (standard deviation of returns, %)
+  minWeight?: number;    // Optional minimum portfolio weight (% of budget)
+  maxWeight?: number;    // Optional maximum portfolio weight (% of budget)
+  maxAmount?: number;    // Optional maximum amount to invest, in the base currency
+  lockedAmount?: number; // When set, the position is locked at this invested amount (base currency)
+  currentShares?: number; // Optional number of shares already held, used for rebalancing
+}
+
+// Exchange rates quoted as units of each currency per one unit of `base` ("1 USD = 0.92 EUR")
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>;
+  asOf?: string; // When the rates were taken, if known
+}
+
+// The budget's currency and the rates used to convert stock prices into it
+export interface CurrencySettings {
+  baseCurrency: string;
+  fxRates: FxRates;
 }
 
 export interface InvestmentResult {
@@ -11,4 +32,138 @@ export interface InvestmentResult {
   fraction: number;
   investedAmount: number;
   actualReturn: number;
+  fee?: number; // Broker commission for buying this position
 }
+
+export interface BrokerProfile {
+  id: string;
+  name: string;
+  commissionPerOrder: number; // Flat fee per order, in the base currency
+  commissionPercent: number;  // Fee as a percentage of the order value
+  minOrderAmount: number;     // Smallest order the broker accepts, in the base currency
+  shareIncrement: number;     // Smallest tradable share quantity; 1 means whole shares only, 0 means unrestricted
+}
+
+export type AllocationStrategyId = 'greedy' | 'equal-weight' | 'return-weighted' | 'inverse-price' | 'custom-weight' | 'mean-variance';
+
+// Pairwise return correlations keyed by stock id; pairs that are not set are treated as uncorrelated
+export type CorrelationMatrix = Record<string, Record<string, number>>;
+
+export type MeanVarianceObjective = 'min-variance' | 'max-sharpe' | 'target-return';
+
+export interface MeanVarianceSettings {
+  objective: MeanVarianceObjective;
+  targetReturn: number; // Annual return (%) to reach when the objective is 'target-return'
+  riskFreeRate: number; // Annual risk-free rate (%) used for the Sharpe ratio
+}
+
+// 'fractional' allows any share quantity; 'whole' restricts every position to whole shares
+export type ShareMode = 'fractional' | 'whole';
+
+// How a quantity that falls between two allowed values is settled: 'down' and 'up' go toward
+// the smaller and larger one; the 'half' modes go to the nearer one, breaking ties up or to even
+export type RoundingMode = 'down' | 'up' | 'half-up' | 'half-even';
+
+export interface RoundingPolicy {
+  shares: RoundingMode; // Share quantities, onto whole shares or the broker's increment
+  cash: RoundingMode;   // Amounts, onto the base currency's minor unit (cents for most)
+}
+
+export interface AllocationIssue {
+  severity: 'error' | 'warning'; // Errors make the plan infeasible; warnings are informational
+  message: string;
+  stockId?: string;
+}
+
+export interface AllocationPlan {
+  strategyId: AllocationStrategyId;
+  shareMode: ShareMode;
+  results: InvestmentResult[];
+  totalInvestedAmount: number;
+  totalActualReturn: number;
+  totalFees: number;
+  remainingCash: number;
+  issues: AllocationIssue[];
+}
+
+// Everything needed to restore a portfolio's working state
+export interface PortfolioSnapshot {
+  budget: number;
+  stocks: Stock[];
+  investmentResults: InvestmentResult[]; // Includes any manual adjustments
+  strategyId: AllocationStrategyId;
+  shareMode: ShareMode;
+  correlations: CorrelationMatrix;
+  meanVariance: MeanVarianceSettings;
+  brokerProfileId: string;
+  customBrokerProfile: BrokerProfile;
+  planMode: Pick<AllocationPlan, 'strategyId' | 'shareMode'> | null;
+  rounding: RoundingPolicy;
+  baseCurrency: string; // Currency of the budget and of every amount in the plan
+  fxRates: FxRates;
+  aiResponse: string; // Last AI assistant response
+}
+
+export interface SavedPortfolio extends PortfolioSnapshot {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// A stock suggested by the AI assistant, validated but not yet added to the universe
+export interface StockCandidate {
+  name: string;
+  price: number;
+  expectedReturn: number;
+  volatility?: number;
+  rationale: string;
+}
+
+// Why an AI request failed; each category gets its own explanation in the UI
+export type AiErrorCategory = 'quota' | 'auth' | 'safety' | 'network' | 'unknown';
+
+export interface AiError {
+  category: AiErrorCategory;
+  message: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  truncated?: boolean; // The model's reply was stopped before it finished
+  error?: AiError;     // The reply failed
+  proposedActions?: ProposedAction[]; // Changes the model proposed in this reply
+  actionIssues?: string[];            // Proposed changes that were rejected as invalid
+}
+
+// A change to the plan the assistant can propose; stocks are referenced by id once resolved
+export type AssistantAction =
+  | { type: 'add_stock'; name: string; price: number; expectedReturn: number; volatility?: number }
+  | { type: 'remove_stock'; stockId: string; stockName: string }
+  | { type: 'adjust_investment'; stockId: string; stockName: string; amount: number }
+  | { type: 'set_budget'; budget: number }
+  | { type: 'run_calculation' };
+
+export interface ProposedAction {
+  id: string;
+  action: AssistantAction;
+  description: string;
+  status: 'pending' | 'applied' | 'dismissed';
+}
+
+// One closing price from an imported price history
+export interface PricePoint {
+  date: string;  // ISO date (YYYY-MM-DD)
+  close: number;
+}
+
+// An imported closing price history; matched to stocks by name
+export interface PriceSeries {
+  name: string;
+  points: PricePoint[]; // Sorted by date, one point per date
+}
+
+// How historical returns are turned into an expected annual return
+export type ReturnEstimationMethod = 'arithmetic' | 'geometric' | 'ewma';
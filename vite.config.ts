@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { aiProxyPlugin } from './server/aiProxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,22 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // The API key only lives in the proxy on the server; it is never inlined into the client bundle
+        aiProxyPlugin({
+          apiKey: env.GEMINI_API_KEY,
+          maxRequestsPerWindow: Number(env.AI_PROXY_MAX_REQUESTS_PER_MINUTE) || undefined,
+          maxBodyBytes: Number(env.AI_PROXY_MAX_BODY_BYTES) || undefined,
+        }),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Without a key the app falls back to the offline mock rather than failing every request
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock')),
+        'process.env.MOCK_LLM_LATENCY_MS': JSON.stringify(env.MOCK_LLM_LATENCY_MS),
+        'process.env.MOCK_LLM_FAIL_EVERY': JSON.stringify(env.MOCK_LLM_FAIL_EVERY),
+        'process.env.MOCK_LLM_ERROR': JSON.stringify(env.MOCK_LLM_ERROR),
+        'process.env.MOCK_LLM_ERROR_CATEGORY': JSON.stringify(env.MOCK_LLM_ERROR_CATEGORY)
       },
       resolve: {
         alias: {